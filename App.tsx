@@ -1,83 +1,179 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Navbar } from './components/Navbar';
 import { InputForm } from './components/InputForm';
 import { TrackingDisplay, TrackingDisplayHandle } from './components/TrackingDisplay'; // Updated import
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorMessage } from './components/ErrorMessage';
-import { fetchTrackingData } from './services/trackingService';
-import { summarizeTrackingWithGemini } from './services/geminiService';
+import { BatchResultsTable } from './components/BatchResultsTable';
+import { trackShipment } from './services/trackingService';
+import { summarizeTracking } from './services/summaryService';
+import { analyzeShipment } from './services/analysisService';
+import { toTrackingError, TrackingErrorKind } from './services/trackingErrors';
+import { recordLookup } from './services/lookupHistoryService';
 import { parseXmlAndExtractAccessKey, ParsedXmlData } from './utils/xmlParser'; // Import ParsedXmlData
-import type { TrackingInfo } from './types';
+import { getNfeDocumentsFromCte } from './utils/cteParser';
+import { isPdfFile, parseDanfePdf } from './utils/danfePdfParser';
+import { runWithConcurrency } from './utils/concurrency';
+import { formatAccessKey } from './utils/formatters';
+import { validateAccessKey } from './utils/accessKey';
+import { buildHomeUrl, buildTrackingUrl, getAccessKeyFromUrl } from './utils/deepLink';
+import { AccessKeyDetails } from './components/AccessKeyDetails';
+import { WatchlistPanel } from './components/WatchlistPanel';
+import { ReceivablesCalendar } from './components/ReceivablesCalendar';
+import { CarrierPerformanceDashboard } from './components/CarrierPerformanceDashboard';
+import { useWatchlist } from './hooks/useWatchlist';
+import type { WatchlistEntry } from './services/watchlistService';
+import { useLocale } from './hooks/useLocale';
+import { LocalizedMessage, t, translateMessage } from './i18n/i18n';
+import { LocalizedError, toLocalizedMessage } from './i18n/localizedError';
+import type { BatchItem, PdfExportMode, PdfStatusMessage, ShipmentAnalysisResult, TrackingInfo, TrackingSummary } from './types';
+
+// How many documents of a batch are tracked at the same time
+const BATCH_CONCURRENCY = 4;
+
+interface BatchSource {
+  fileName: string;
+  xmlData?: ParsedXmlData;
+  error?: LocalizedMessage; // Set when the file could not be parsed
+}
+
+// One row per NF-e: plain NF-e files give one row, CT-e files give one row per referenced NF-e
+const toBatchSources = (fileName: string, xmlData: ParsedXmlData): BatchSource[] => {
+  if (xmlData.documentType !== 'cte') {
+    return [{ fileName, xmlData }];
+  }
+  const nfeDocuments = getNfeDocumentsFromCte(xmlData);
+  if (nfeDocuments.length === 0) {
+    return [{ fileName, error: { code: 'errors.cte.noReferencedNfe' } }];
+  }
+  return nfeDocuments.map((nfeData, index) => ({
+    fileName: nfeDocuments.length > 1 ? `${fileName} (NF-e ${index + 1}/${nfeDocuments.length})` : fileName,
+    xmlData: nfeData,
+  }));
+};
+
+const XML_UNKNOWN_ERROR: LocalizedMessage = { code: 'app.errors.xmlUnknown' };
+
+// Uploaded files are NF-e/CT-e XMLs or DANFE PDFs; both give the same parsed shape
+const parseUploadedFile = (file: File): Promise<ParsedXmlData> =>
+  isPdfFile(file) ? parseDanfePdf(file) : parseXmlAndExtractAccessKey(file);
 
 const App: React.FC = () => {
+  const locale = useLocale();
   const [trackingIdInput, setTrackingIdInput] = useState<string>('');
   const [trackingData, setTrackingData] = useState<TrackingInfo | null>(null);
-  const [geminiSummary, setGeminiSummary] = useState<string | null>(null);
+  const [currentXmlData, setCurrentXmlData] = useState<ParsedXmlData | undefined>(undefined);
+  const [trackingSummary, setTrackingSummary] = useState<TrackingSummary | null>(null);
+  const [shipmentAnalysis, setShipmentAnalysis] = useState<ShipmentAnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [errorKind, setErrorKind] = useState<TrackingErrorKind | undefined>(undefined);
+  // Lookup that failed, so the error message can offer to run it again
+  const [failedRequest, setFailedRequest] = useState<{ accessKey: string; xmlData?: ParsedXmlData } | null>(null);
   const [fileInputResetKey, setFileInputResetKey] = useState<string>(Date.now().toString());
 
+  // State for batch tracking (many XML files at once)
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [selectedBatchItemId, setSelectedBatchItemId] = useState<string | null>(null);
+  const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false);
+
   // State for PDF generation
   const [isGeneratingPdfActive, setIsGeneratingPdfActive] = useState<boolean>(false);
-  const [generatePdfStatusMessage, setGeneratePdfStatusMessage] = useState<string | null>(null);
+  const [generatePdfStatusMessage, setGeneratePdfStatusMessage] = useState<PdfStatusMessage | null>(null);
   const trackingDisplayRef = useRef<TrackingDisplayHandle>(null);
 
+  // Shipments saved locally and re-polled while the app is open
+  const watchlist = useWatchlist();
+  const previousLocaleRef = useRef(locale);
+  // XML parsed in this session per access key, so back/forward restores the XML-only sections too
+  const xmlDataByKeyRef = useRef(new Map<string, ParsedXmlData>());
+  const lookupFromUrlRef = useRef<() => Promise<void>>(async () => {});
+  // Bumped whenever the shown shipment changes, so a slower summary/analysis of a previous one is dropped
+  const insightsRequestRef = useRef(0);
+  // Every shipment tracked in this session (single lookups and batch rows), for the receivables calendar
+  const [sessionShipments, setSessionShipments] = useState<TrackingInfo[]>([]);
+
+  // Bumped after each lookup is stored, so the performance dashboard picks it up
+  const [lookupHistoryVersion, setLookupHistoryVersion] = useState<number>(0);
+
+  const rememberShipment = (info: TrackingInfo) => {
+    setSessionShipments(prevShipments => [info, ...prevShipments.filter(shipment => shipment.id !== info.id)]);
+    recordLookup(info).then(() => setLookupHistoryVersion(version => version + 1));
+  };
 
   const resetState = (keepInput: boolean = false) => {
+    insightsRequestRef.current++;
     setError(null);
+    setErrorKind(undefined);
+    setFailedRequest(null);
     setTrackingData(null);
-    setGeminiSummary(null);
+    setCurrentXmlData(undefined);
+    setTrackingSummary(null);
+    setShipmentAnalysis(null);
     if (!keepInput) {
       setTrackingIdInput('');
     }
     setGeneratePdfStatusMessage(null); // Also clear PDF generation status
+    setBatchItems([]);
+    setSelectedBatchItemId(null);
+  };
+
+  const loadTrackingInsights = async (info: TrackingInfo) => {
+    const requestId = ++insightsRequestRef.current;
+    if (info.events.length === 0) {
+      setTrackingSummary(null); // No summary or analysis if no tracking events
+      setShipmentAnalysis(null);
+      return;
+    }
+    const isCurrent = () => insightsRequestRef.current === requestId;
+    // Neither call throws: both fall back to offline rules when the LLM is missing or fails
+    await Promise.all([
+      summarizeTracking(info).then(summary => { if (isCurrent()) setTrackingSummary(summary); }),
+      analyzeShipment(info).then(analysis => { if (isCurrent()) setShipmentAnalysis(analysis); }),
+    ]);
+  };
+
+  // The summary and analysis are written in the user's language: regenerate them when it changes
+  useEffect(() => {
+    if (previousLocaleRef.current === locale) return;
+    previousLocaleRef.current = locale;
+    if (trackingData) {
+      setTrackingSummary(null);
+      setShipmentAnalysis(null);
+      loadTrackingInsights(trackingData);
+    }
+  }, [locale]);
+
+  // Keeps the URL on the shown lookup: a new history entry per lookup, so back/forward moves between them
+  const updateUrl = (accessKey: string | null) => {
+    if (getAccessKeyFromUrl() === accessKey) return;
+    window.history.pushState(null, '', accessKey ? buildTrackingUrl(accessKey) : buildHomeUrl());
   };
 
   const processTrackingRequest = async (accessKey: string, xmlData?: ParsedXmlData) => {
     setIsLoading(true);
     resetState(true); 
     setTrackingIdInput(accessKey);
+    updateUrl(accessKey);
+    if (xmlData) xmlDataByKeyRef.current.set(accessKey, xmlData);
 
     try {
-      // Fetch core tracking data using SSW API
-      const sswTrackingData = await fetchTrackingData(accessKey, xmlData?.carrierName);
-      
-      // Combine SSW data with additional details from XML
-      const combinedData: TrackingInfo = {
-        ...sswTrackingData, // Base data from SSW
-        // XML specific data (will be undefined if xmlData is not provided)
-        xmlVolumeInfo: xmlData?.volumeInfo,
-        xmlInvoiceInfo: xmlData?.invoiceInfo,
-        xmlInstallments: xmlData?.installments,
-      };
-      
+      // Fetch core tracking data using SSW API, combined with additional details from XML
+      const combinedData = await trackShipment(accessKey, xmlData);
       setTrackingData(combinedData);
-
-      if (combinedData && combinedData.events.length > 0) {
-        if (process.env.API_KEY) {
-          try {
-            const summary = await summarizeTrackingWithGemini(combinedData);
-            setGeminiSummary(summary);
-          } catch (geminiError) {
-            console.error("Gemini API error:", geminiError);
-            setGeminiSummary("Falha ao gerar o resumo da IA. Verifique o console."); 
-          }
-        } else {
-          console.warn("Gemini API key not set. Skipping AI summary.");
-          setGeminiSummary("Resumo da IA indisponível: Chave da API não configurada.");
-        }
-      } else if (combinedData && combinedData.events.length === 0) {
-        setGeminiSummary(null); // No AI summary if no tracking events
-      }
-    } catch (fetchError: any) {
+      setCurrentXmlData(xmlData);
+      rememberShipment(combinedData);
+      await watchlist.updateFromLookup(combinedData, xmlData);
+      await loadTrackingInsights(combinedData);
+    } catch (fetchError) {
       console.error("Tracking API error:", fetchError);
-      if (fetchError.message?.includes("Failed to fetch")) {
-        setError("Falha ao buscar dados. Pode ser um problema de rede, CORS (API de destino pode não permitir solicitações diretas do navegador) ou a API pode estar indisponível. Verifique sua conexão e tente novamente.");
-      } else {
-        setError(fetchError.message || "Falha ao buscar informações de rastreamento.");
-      }
+      const trackingError = toTrackingError(fetchError);
+      setError(trackingError.toMessage());
+      setErrorKind(trackingError.kind);
+      setFailedRequest({ accessKey, xmlData });
       setTrackingData(null);
-      setGeminiSummary(null);
+      setTrackingSummary(null);
+      setShipmentAnalysis(null);
     } finally {
       setIsLoading(false);
       setFileInputResetKey(Date.now().toString());
@@ -88,48 +184,218 @@ const App: React.FC = () => {
     setIsLoading(true);
     resetState(); 
     try {
-      // parseXmlAndExtractAccessKey now returns ParsedXmlData which includes volume, invoice, etc.
-      const xmlData = await parseXmlAndExtractAccessKey(file);
+      // parseUploadedFile returns ParsedXmlData which includes volume, invoice, etc.
+      const xmlData = await parseUploadedFile(file);
+      if (xmlData.documentType === 'cte') {
+        // A CT-e may transport several NF-e: track each one of them
+        const nfeDocuments = getNfeDocumentsFromCte(xmlData);
+        if (nfeDocuments.length === 0) {
+          throw new LocalizedError('errors.cte.noReferencedNfe');
+        }
+        if (nfeDocuments.length > 1) {
+          setIsLoading(false);
+          setIsBatchProcessing(true);
+          await runBatch(toBatchSources(file.name, xmlData));
+          setIsBatchProcessing(false);
+          setFileInputResetKey(Date.now().toString());
+          return;
+        }
+        await processTrackingRequest(nfeDocuments[0].accessKey, nfeDocuments[0]);
+        return;
+      }
       // Pass the full xmlData to processTrackingRequest
       await processTrackingRequest(xmlData.accessKey, xmlData); 
-    } catch (xmlError: any) {
+    } catch (xmlError) {
       console.error("XML Processing Error:", xmlError);
-      setError(xmlError.message || "Erro desconhecido ao processar o arquivo XML.");
+      setError(toLocalizedMessage(xmlError, XML_UNKNOWN_ERROR));
       setTrackingData(null);
-      setGeminiSummary(null);
+      setTrackingSummary(null);
+      setShipmentAnalysis(null);
       setIsLoading(false);
       setFileInputResetKey(Date.now().toString());
     }
   };
 
-  const handleSubmit = useCallback(async (submission: string | File) => {
+  // Tracks the already parsed documents of a batch, keeping parse errors as error rows
+  const runBatch = async (sources: BatchSource[]) => {
+    updateUrl(null); // A batch has no single key to link to
+    const batchId = Date.now();
+    const initialItems: BatchItem[] = sources.map((source, index) => ({
+      id: `${batchId}-${index}-${source.fileName}`,
+      fileName: source.fileName,
+      status: source.error ? 'error' : 'pending',
+      accessKey: source.xmlData?.accessKey,
+      nfNumber: source.xmlData?.nfNumber,
+      xmlData: source.xmlData,
+      error: source.error,
+    }));
+    setBatchItems(initialItems);
+
+    const updateItem = (id: string, changes: Partial<BatchItem>) => {
+      setBatchItems(prevItems => prevItems.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    await runWithConcurrency(initialItems, BATCH_CONCURRENCY, async (item, index) => {
+      const xmlData = sources[index].xmlData;
+      if (!xmlData) return;
+      updateItem(item.id, { status: 'processing' });
+      try {
+        const trackingInfo = await trackShipment(xmlData.accessKey, xmlData);
+        updateItem(item.id, { status: 'success', trackingInfo });
+        rememberShipment(trackingInfo);
+      } catch (itemError) {
+        console.error(`Batch item error (${item.fileName}):`, itemError);
+        updateItem(item.id, { status: 'error', error: toTrackingError(itemError).toMessage() });
+      }
+    });
+  };
+
+  const processBatchFiles = async (files: File[]) => {
+    resetState();
+    setIsBatchProcessing(true);
+
+    // Parsing is local and fast; only the tracking requests need bounded concurrency
+    const parseResults = await Promise.allSettled(files.map(file => parseUploadedFile(file)));
+    const sources = parseResults.flatMap((result, index): BatchSource[] => {
+      if (result.status === 'fulfilled') {
+        return toBatchSources(files[index].name, result.value);
+      }
+      return [{ fileName: files[index].name, error: toLocalizedMessage(result.reason, XML_UNKNOWN_ERROR) }];
+    });
+    await runBatch(sources);
+
+    setIsBatchProcessing(false);
+    setFileInputResetKey(Date.now().toString());
+  };
+
+  const handleSelectBatchItem = async (item: BatchItem) => {
+    if (!item.trackingInfo) return;
+    setSelectedBatchItemId(item.id);
+    setTrackingData(item.trackingInfo);
+    setCurrentXmlData(item.xmlData);
+    setTrackingIdInput(item.trackingInfo.id);
+    setTrackingSummary(null);
+    setShipmentAnalysis(null);
+    setGeneratePdfStatusMessage(null);
+    await loadTrackingInsights(item.trackingInfo);
+  };
+
+  const handleOpenWatchlistEntry = async (entry: WatchlistEntry) => {
+    setError(null);
+    setSelectedBatchItemId(null);
+    setTrackingData(entry.trackingInfo);
+    setCurrentXmlData(entry.xmlData);
+    setTrackingIdInput(entry.id);
+    setTrackingSummary(null);
+    setShipmentAnalysis(null);
+    setGeneratePdfStatusMessage(null);
+    updateUrl(entry.id);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    await watchlist.markViewed(entry.id);
+    await loadTrackingInsights(entry.trackingInfo);
+  };
+
+  const handleToggleWatch = async () => {
+    if (!trackingData) return;
+    if (watchlist.isWatched(trackingData.id)) {
+      await watchlist.removeEntry(trackingData.id);
+    } else {
+      await watchlist.addEntry(trackingData, currentXmlData);
+    }
+  };
+
+  // Watched notes open from the stored data; the others are looked up again with the XML parsed in this session
+  const handleOpenReceivableShipment = async (accessKey: string) => {
+    const watchlistEntry = watchlist.entries.find(entry => entry.id === accessKey);
+    if (watchlistEntry) {
+      await handleOpenWatchlistEntry(watchlistEntry);
+      return;
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    await processTrackingRequest(accessKey, xmlDataByKeyRef.current.get(accessKey));
+  };
+
+  // Adds the XML of the shown NF-e to a lookup made from the key alone. An NF-e XML must have the same key;
+  // a CT-e XML must reference it.
+  const handleUploadXmlForLookup = async (file: File) => {
+    if (!trackingData) return;
+    const accessKey = trackingData.id;
+    const xmlData = await parseXmlAndExtractAccessKey(file);
+    const matchingData = xmlData.documentType === 'cte'
+      ? getNfeDocumentsFromCte(xmlData).find(nfeData => nfeData.accessKey === accessKey)
+      : xmlData.accessKey === accessKey ? xmlData : undefined;
+    if (!matchingData) {
+      throw new LocalizedError('errors.xml.keyMismatch', { key: formatAccessKey(accessKey) });
+    }
+    await processTrackingRequest(accessKey, matchingData);
+  };
+
+  // Looks up the key in the URL (on load and on back/forward); a URL without a key goes back to the empty form
+  const lookupFromUrl = async () => {
+    const accessKey = getAccessKeyFromUrl();
+    if (!accessKey) {
+      resetState();
+      return;
+    }
+    if (accessKey === trackingData?.id) return;
+    const keyValidation = validateAccessKey(accessKey);
+    if (keyValidation.error) {
+      resetState();
+      setTrackingIdInput(accessKey);
+      setError(keyValidation.error);
+      return;
+    }
+    await processTrackingRequest(accessKey, xmlDataByKeyRef.current.get(accessKey) || watchlist.entries.find(entry => entry.id === accessKey)?.xmlData);
+  };
+  lookupFromUrlRef.current = lookupFromUrl;
+
+  useEffect(() => {
+    // "?chave=" links are rewritten to the hash route, so the address bar shows the same link the app shares
+    const initialKey = getAccessKeyFromUrl();
+    if (initialKey) window.history.replaceState(null, '', buildTrackingUrl(initialKey));
+    lookupFromUrlRef.current();
+
+    const handlePopState = () => { lookupFromUrlRef.current(); };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleSubmit = useCallback(async (submission: string | File | File[]) => {
     setGeneratePdfStatusMessage(null); 
     if (typeof submission === 'string') {
       if (!submission.trim()) {
-        setError("Por favor, insira uma Chave de Acesso da DANFE ou selecione um arquivo XML.");
+        setError({ code: 'app.errors.emptyInput' });
         resetState(); 
         setIsLoading(false);
         return;
       }
+      const keyValidation = validateAccessKey(submission);
+      if (keyValidation.error) {
+        resetState(true);
+        setError(keyValidation.error);
+        return;
+      }
       // For direct key input, xmlData will be undefined
-      await processTrackingRequest(submission.trim());
+      await processTrackingRequest(keyValidation.normalizedKey);
+    } else if (Array.isArray(submission)) {
+      await processBatchFiles(submission);
     } else {
       await processXmlFile(submission);
     }
   }, []);
 
-  const handleTriggerPdfDownload = async () => { // Renamed from handleTriggerShare
+  const handleTriggerPdfDownload = async (mode: PdfExportMode) => { // Renamed from handleTriggerShare
     if (!trackingData || !trackingDisplayRef.current) {
-      setGeneratePdfStatusMessage("Nenhum dado de rastreamento para gerar PDF ou referência de exibição ausente.");
+      setGeneratePdfStatusMessage({ text: t('app.pdf.noData'), isError: true });
       return;
     }
     setIsGeneratingPdfActive(true);
     setGeneratePdfStatusMessage(null);
     try {
-      const message = await trackingDisplayRef.current.triggerPdfDownload(); // Call renamed method
-      setGeneratePdfStatusMessage(message);
-    } catch (error: any) {
-      setGeneratePdfStatusMessage(error.message || "Falha ao gerar PDF.");
+      const message = await trackingDisplayRef.current.triggerPdfDownload(mode); // Call renamed method
+      setGeneratePdfStatusMessage({ text: message, isError: false });
+    } catch (error) {
+      setGeneratePdfStatusMessage({ text: translateMessage(toLocalizedMessage(error, { code: 'app.pdf.failed' })), isError: true });
     } finally {
       setIsGeneratingPdfActive(false);
       setTimeout(() => setGeneratePdfStatusMessage(null), 7000);
@@ -142,7 +408,7 @@ const App: React.FC = () => {
       <Navbar />
       <main className="container mx-auto p-4 sm:p-6 md:p-8 flex-grow w-full max-w-4xl">
         <h1 className="text-4xl sm:text-5xl font-bold text-center mb-8 bg-clip-text text-transparent bg-gradient-to-r from-sky-400 to-cyan-300">
-          Rastreie sua Encomenda
+          {t('app.title')}
         </h1>
         
         <InputForm
@@ -151,7 +417,7 @@ const App: React.FC = () => {
             setTrackingIdInput(id);
           }}
           onSubmit={handleSubmit}
-          isLoading={isLoading}
+          isLoading={isLoading || isBatchProcessing}
           fileInputKey={fileInputResetKey}
           onShareClick={handleTriggerPdfDownload} // Pass the renamed handler
           isSharingImageActive={isGeneratingPdfActive} // Pass renamed state
@@ -160,19 +426,54 @@ const App: React.FC = () => {
         />
 
         {isLoading && <LoadingSpinner />}
-        {error && !isLoading && <ErrorMessage message={error} />}
+        {error && !isLoading && (
+          <ErrorMessage
+            message={translateMessage(error)}
+            kind={errorKind}
+            onRetry={failedRequest ? () => processTrackingRequest(failedRequest.accessKey, failedRequest.xmlData) : undefined}
+          />
+        )}
+        {error && !isLoading && !trackingData && batchItems.length === 0 && validateAccessKey(trackingIdInput).isValid && (
+          // The key itself still tells us emitter, number and emission month when the carrier has nothing
+          <AccessKeyDetails accessKey={trackingIdInput} className="mt-4 p-6 bg-slate-800 rounded-xl shadow-2xl" />
+        )}
+
+        {batchItems.length > 0 && (
+          <BatchResultsTable
+            items={batchItems}
+            selectedItemId={selectedBatchItemId}
+            onSelectItem={handleSelectBatchItem}
+          />
+        )}
         
         {trackingData && !isLoading && (
           <TrackingDisplay 
             ref={trackingDisplayRef} 
             trackingInfo={trackingData} 
-            geminiSummary={geminiSummary} 
+            summary={trackingSummary}
+            analysis={shipmentAnalysis}
+            isWatched={watchlist.isWatched(trackingData.id)}
+            onToggleWatch={handleToggleWatch}
+            onUploadXml={handleUploadXmlForLookup}
           />
         )}
 
-        {!isLoading && !error && !trackingData && (
+        <WatchlistPanel
+          watchlist={watchlist}
+          selectedId={trackingData?.id || null}
+          onOpenEntry={handleOpenWatchlistEntry}
+        />
+
+        <ReceivablesCalendar
+          shipments={[...watchlist.entries.map(entry => entry.trackingInfo), ...sessionShipments]}
+          onOpenShipment={handleOpenReceivableShipment}
+        />
+
+        <CarrierPerformanceDashboard historyVersion={lookupHistoryVersion} />
+
+        {!isLoading && !error && !trackingData && batchItems.length === 0 && (
            <div className="mt-12 text-center text-slate-400">
-            <p className="text-lg">Digite uma Chave de Acesso da DANFE ou faça upload de um arquivo XML NF-e.</p>
+            <p className="text-lg">{t('app.emptyState')}</p>
           </div>
         )}
       </main>
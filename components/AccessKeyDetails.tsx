@@ -0,0 +1,36 @@
+import React from 'react';
+import { InfoPill } from './InfoPill';
+import { decodeAccessKey } from '../utils/accessKey';
+import { formatAccessKey, formatDocument } from '../utils/formatters';
+import { t } from '../i18n/i18n';
+
+interface AccessKeyDetailsProps {
+  accessKey: string;
+  className?: string;
+}
+
+// Shows the fields encoded in the access key itself, so they are available even when the carrier API has no data
+export const AccessKeyDetails: React.FC<AccessKeyDetailsProps> = ({ accessKey, className = "mt-6 pt-4 border-t border-slate-700" }) => {
+  const decoded = decodeAccessKey(accessKey);
+  if (!decoded) return null;
+
+  const emissionPeriod = `${decoded.emissionMonth.toString().padStart(2, '0')}/${decoded.emissionYear}`;
+
+  return (
+    <div className={className}>
+      <h3 className="text-xl font-semibold text-sky-300 mb-1">{t('accessKeyDetails.title')}</h3>
+      <p className="text-xs font-mono text-slate-400 mb-3 break-all">{formatAccessKey(decoded.key)}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        <InfoPill label={t('accessKeyDetails.emitterUf')} value={decoded.uf ? `${decoded.uf} (${decoded.ufCode})` : decoded.ufCode} />
+        <InfoPill label={t('accessKeyDetails.emissionMonth')} value={emissionPeriod} />
+        <InfoPill label={t('accessKeyDetails.emitterDocument', { type: decoded.emitterDocumentType })} value={formatDocument(decoded.emitterDocument)} />
+        <InfoPill label={t('accessKeyDetails.model')} value={decoded.modelDescription ? `${decoded.model} - ${decoded.modelDescription}` : decoded.model} />
+        <InfoPill label={t('accessKeyDetails.series')} value={decoded.series} />
+        <InfoPill label={t('accessKeyDetails.number')} value={decoded.number} />
+        <InfoPill label={t('accessKeyDetails.emissionType')} value={decoded.emissionTypeDescription ? `${decoded.emissionType} - ${decoded.emissionTypeDescription}` : decoded.emissionType} />
+        <InfoPill label={t('accessKeyDetails.numericCode')} value={decoded.numericCode} />
+        <InfoPill label={t('accessKeyDetails.checkDigit')} value={decoded.checkDigit} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isCameraScanAvailable, readAccessKeyFromImage, startCameraScan } from '../utils/barcodeReader';
+import { validateAccessKey } from '../utils/accessKey';
+import { LocalizedMessage, t, translateMessage } from '../i18n/i18n';
+import { toLocalizedMessage } from '../i18n/localizedError';
+
+interface BarcodeScannerProps {
+  onAccessKey: (accessKey: string) => void; // Called with a valid key only
+  disabled?: boolean;
+}
+
+const CameraIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 12.75a4.5 4.5 0 11-9 0 4.5 4.5 0 019 0z" />
+  </svg>
+);
+
+// Reads the access key from the DANFE barcode / QR code, from a photo or live from the camera
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onAccessKey, disabled = false }) => {
+  const [isReadingImage, setIsReadingImage] = useState<boolean>(false);
+  const [isCameraActive, setIsCameraActive] = useState<boolean>(false);
+  const [scanError, setScanError] = useState<LocalizedMessage | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const stopCameraRef = useRef<(() => void) | null>(null);
+
+  const handleAccessKey = (accessKey: string) => {
+    const keyValidation = validateAccessKey(accessKey);
+    if (keyValidation.error) {
+      setScanError(keyValidation.error);
+      return;
+    }
+    onAccessKey(keyValidation.normalizedKey);
+  };
+
+  const stopCamera = () => {
+    stopCameraRef.current?.();
+    stopCameraRef.current = null;
+    setIsCameraActive(false);
+  };
+
+  // The video element only exists once the camera view is rendered
+  useEffect(() => {
+    if (!isCameraActive || !videoRef.current) return;
+    stopCameraRef.current = startCameraScan(
+      videoRef.current,
+      (accessKey) => {
+        stopCamera();
+        handleAccessKey(accessKey);
+      },
+      (error) => {
+        stopCamera();
+        setScanError(error.toMessage());
+      },
+    );
+    return () => stopCameraRef.current?.();
+  }, [isCameraActive]);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allows reading the same file again
+    if (!file) return;
+    setScanError(null);
+    setIsReadingImage(true);
+    try {
+      handleAccessKey(await readAccessKeyFromImage(file));
+    } catch (error) {
+      console.error("Erro ao ler o código da imagem:", error);
+      setScanError(toLocalizedMessage(error, { code: 'errors.barcode.notFound' }));
+    } finally {
+      setIsReadingImage(false);
+    }
+  };
+
+  const buttonClassName = "inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-sky-300 rounded-lg transition-colors";
+  const isBusy = disabled || isReadingImage;
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap gap-2">
+        <label className={`${buttonClassName} ${isBusy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+          <CameraIcon className="h-4 w-4" />
+          {isReadingImage ? t('inputForm.scan.reading') : t('inputForm.scan.image')}
+          {/* "capture" opens the camera app directly on phones; desktops show the file picker */}
+          <input type="file" accept="image/*" capture="environment" className="sr-only" onChange={handleImageChange} disabled={isBusy} />
+        </label>
+        {isCameraScanAvailable() && !isCameraActive && (
+          <button
+            type="button"
+            onClick={() => {
+              setScanError(null);
+              setIsCameraActive(true);
+            }}
+            disabled={isBusy}
+            className={`${buttonClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {t('inputForm.scan.camera')}
+          </button>
+        )}
+      </div>
+
+      {isCameraActive && (
+        <div className="mt-3 space-y-2">
+          <p className="text-sm text-slate-300">{t('inputForm.scan.cameraHint')}</p>
+          <video ref={videoRef} className="w-full max-h-72 bg-black rounded-lg object-cover" muted playsInline />
+          <button type="button" onClick={stopCamera} className={buttonClassName}>
+            {t('inputForm.scan.stop')}
+          </button>
+        </div>
+      )}
+
+      {scanError && <p className="mt-2 text-sm text-red-300" role="alert">{translateMessage(scanError)}</p>}
+    </div>
+  );
+};
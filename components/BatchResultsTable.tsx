@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import type { BatchItem, BatchItemStatus } from '../types';
+import { decodeAccessKey } from '../utils/accessKey';
+import { deriveShipmentStatus } from '../utils/shipmentStatus';
+import { StatusBadge } from './StatusBadge';
+import { ExportButtons } from './ExportButtons';
+import { formatCurrentStatus, formatEstimatedDelivery, formatEventLocation } from '../utils/formatters';
+import { getIntlLocale, MessageKey, t, translateMessage } from '../i18n/i18n';
+
+interface BatchResultsTableProps {
+  items: BatchItem[];
+  selectedItemId: string | null;
+  onSelectItem: (item: BatchItem) => void;
+}
+
+type SortColumn = 'accessKey' | 'nfNumber' | 'carrier' | 'status' | 'estimatedDelivery' | 'lastEvent';
+type StatusFilter = 'all' | BatchItemStatus;
+
+const columns: { id: SortColumn; label: MessageKey }[] = [
+  { id: 'accessKey', label: 'batch.column.accessKey' },
+  { id: 'nfNumber', label: 'fields.nf' },
+  { id: 'carrier', label: 'fields.carrier' },
+  { id: 'status', label: 'fields.currentStatus' },
+  { id: 'estimatedDelivery', label: 'batch.column.estimatedDelivery' },
+  { id: 'lastEvent', label: 'batch.column.lastEvent' },
+];
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'pending', 'processing', 'success', 'error'];
+
+// NF number comes from the XML; fall back to the number reported by the carrier
+// and finally to the number encoded in the access key (e.g. NF-e referenced by a CT-e)
+const getNfNumber = (item: BatchItem): string | undefined =>
+  item.nfNumber || item.trackingInfo?.nfNumber || (item.accessKey ? decodeAccessKey(item.accessKey)?.number : undefined);
+
+const getRowStatus = (item: BatchItem): string => {
+  switch (item.status) {
+    case 'pending': return t('batch.row.pending');
+    case 'processing': return t('batch.row.processing');
+    case 'error': return item.error ? translateMessage(item.error) : t('common.unknownError');
+    case 'success': return item.trackingInfo ? formatCurrentStatus(item.trackingInfo) : t('common.notAvailable');
+  }
+};
+
+const getLastEventText = (item: BatchItem): string | undefined => {
+  const lastEvent = item.trackingInfo?.events[0];
+  if (!lastEvent) return undefined;
+  const eventDate = new Date(lastEvent.timestamp);
+  const dateText = eventDate.getTime() === 0
+    ? ''
+    : `${eventDate.toLocaleString(getIntlLocale(), { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })} - `;
+  return `${dateText}${formatEventLocation(lastEvent)}`;
+};
+
+// Sort by the parsed estimated delivery (unknown dates go last)
+const getEtaSortValue = (item: BatchItem): number => {
+  const time = item.trackingInfo?.estimatedDeliveryDate ? new Date(item.trackingInfo.estimatedDeliveryDate).getTime() : NaN;
+  return isNaN(time) ? Number.MAX_SAFE_INTEGER : time;
+};
+
+const getSortValue = (item: BatchItem, column: SortColumn): string | number => {
+  switch (column) {
+    case 'accessKey': return item.accessKey || item.fileName;
+    case 'nfNumber': {
+      const nf = getNfNumber(item);
+      return nf && /^\d+$/.test(nf) ? parseInt(nf, 10) : Number.MAX_SAFE_INTEGER;
+    }
+    case 'carrier': return item.trackingInfo?.carrier || '';
+    case 'status': return getRowStatus(item);
+    case 'estimatedDelivery': return getEtaSortValue(item);
+    case 'lastEvent': return item.trackingInfo?.events[0] ? new Date(item.trackingInfo.events[0].timestamp).getTime() : 0;
+  }
+};
+
+export const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, selectedItemId, onSelectItem }) => {
+  const [sortColumn, setSortColumn] = useState<SortColumn>('nfNumber');
+  const [sortAscending, setSortAscending] = useState<boolean>(true);
+  const [filterText, setFilterText] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const visibleItems = useMemo(() => {
+    const normalizedFilter = filterText.trim().toLowerCase();
+    const filtered = items.filter(item => {
+      if (statusFilter !== 'all' && item.status !== statusFilter) return false;
+      if (!normalizedFilter) return true;
+      const searchable = [
+        item.fileName,
+        item.accessKey,
+        getNfNumber(item),
+        item.trackingInfo?.carrier,
+        getRowStatus(item),
+        getLastEventText(item),
+      ].filter(Boolean).join(' ').toLowerCase();
+      return searchable.includes(normalizedFilter);
+    });
+
+    return filtered.sort((a, b) => {
+      const valueA = getSortValue(a, sortColumn);
+      const valueB = getSortValue(b, sortColumn);
+      const comparison = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB), getIntlLocale());
+      return sortAscending ? comparison : -comparison;
+    });
+  }, [items, sortColumn, sortAscending, filterText, statusFilter]);
+
+  const handleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortColumn(column);
+      setSortAscending(true);
+    }
+  };
+
+  // Exports follow the current filter and sort order
+  const exportableInfos = visibleItems.flatMap(item => (item.status === 'success' && item.trackingInfo ? [item.trackingInfo] : []));
+  const completedCount = items.filter(item => item.status === 'success' || item.status === 'error').length;
+  const errorCount = items.filter(item => item.status === 'error').length;
+
+  return (
+    <div className="mt-8 p-6 bg-slate-800 rounded-xl shadow-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 gap-2">
+        <h2 className="text-2xl font-bold text-sky-400">{t('batch.title')}</h2>
+        <div className="flex flex-col sm:items-end gap-2">
+          <p className="text-sm text-slate-400">
+            {errorCount > 0
+              ? t('batch.progressWithErrors', { completed: completedCount, total: items.length, errors: errorCount })
+              : t('batch.progress', { completed: completedCount, total: items.length })}
+          </p>
+          <ExportButtons trackingInfos={exportableInfos} fileBaseName="rastreio-lote" />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder={t('batch.filterPlaceholder')}
+          className="flex-grow p-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none"
+          aria-label={t('batch.filterLabel')}
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="p-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 outline-none"
+          aria-label={t('batch.statusFilterLabel')}
+        >
+          {STATUS_FILTERS.map(filter => (
+            <option key={filter} value={filter}>{t(`batch.filter.${filter}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-slate-600">
+              {columns.map(column => (
+                <th key={column.id} className="px-3 py-2 font-medium text-sky-300 whitespace-nowrap">
+                  <button type="button" onClick={() => handleSort(column.id)} className="hover:text-sky-200">
+                    {t(column.label)}
+                    {sortColumn === column.id && <span className="ml-1">{sortAscending ? '▲' : '▼'}</span>}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleItems.map(item => {
+              const isSelectable = item.status === 'success' && !!item.trackingInfo;
+              const isSelected = item.id === selectedItemId;
+              return (
+                <tr
+                  key={item.id}
+                  onClick={() => isSelectable && onSelectItem(item)}
+                  className={`border-b border-slate-700 ${isSelectable ? 'cursor-pointer hover:bg-slate-700/60' : ''} ${isSelected ? 'bg-sky-900/40' : ''}`}
+                >
+                  <td className="px-3 py-2 font-mono text-xs text-slate-300 break-all" title={item.fileName}>
+                    {item.accessKey || item.fileName}
+                  </td>
+                  <td className="px-3 py-2 text-slate-200">{getNfNumber(item) || '-'}</td>
+                  <td className="px-3 py-2 text-slate-200">{item.trackingInfo?.carrier || '-'}</td>
+                  <td className={`px-3 py-2 ${item.status === 'error' ? 'text-red-300' : 'text-slate-200'}`}>
+                    {item.status === 'success' && item.trackingInfo && (
+                      <StatusBadge
+                        status={item.trackingInfo.canonicalStatus || deriveShipmentStatus(item.trackingInfo.events)}
+                        className="mb-1"
+                      />
+                    )}
+                    <div>{getRowStatus(item)}</div>
+                  </td>
+                  <td className="px-3 py-2 text-slate-200 whitespace-nowrap">{item.trackingInfo ? formatEstimatedDelivery(item.trackingInfo) : '-'}</td>
+                  <td className="px-3 py-2 text-slate-400 text-xs">{getLastEventText(item) || '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleItems.length === 0 && (
+          <p className="text-slate-400 text-center py-4">{t('batch.noMatches')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
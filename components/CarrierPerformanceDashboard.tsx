@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { clearLookupHistory, loadLookupHistory, LookupHistoryEntry } from '../services/lookupHistoryService';
+import {
+  BRAZIL_REGIONS,
+  BrazilRegion,
+  PerformanceDimension,
+  PerformanceRow,
+  aggregatePerformance,
+  exportPerformanceToCsv,
+  getPerformanceGroupLabel,
+  getShipmentPerformanceFacts,
+} from '../utils/carrierPerformance';
+import { getIntlLocale, MessageKey, t, tp } from '../i18n/i18n';
+
+interface CarrierPerformanceDashboardProps {
+  historyVersion: number; // Bumped by the app after each recorded lookup, so an open dashboard reloads
+}
+
+const DIMENSIONS: { value: PerformanceDimension; label: MessageKey }[] = [
+  { value: 'carrier', label: 'performance.dimension.carrier' },
+  { value: 'uf', label: 'performance.dimension.uf' },
+  { value: 'region', label: 'performance.dimension.region' },
+  { value: 'month', label: 'performance.dimension.month' },
+];
+
+// Charts show the first groups only; the table below lists all of them
+const CHART_ROW_LIMIT = 10;
+
+const formatDays = (days: number): string =>
+  t('performance.days', { days: days.toLocaleString(getIntlLocale(), { minimumFractionDigits: 1, maximumFractionDigits: 1 }) });
+
+const formatRate = (rate: number): string => rate.toLocaleString(getIntlLocale(), { style: 'percent', maximumFractionDigits: 0 });
+
+const getOnTimeBarClassName = (rate: number): string => (rate >= 0.9 ? 'bg-green-500' : rate >= 0.75 ? 'bg-amber-500' : 'bg-red-500');
+
+// Horizontal bars scaled to the largest value (or to 100% for rates)
+const BarChart: React.FC<{
+  title: string;
+  rows: PerformanceRow[];
+  dimension: PerformanceDimension;
+  getValue: (row: PerformanceRow) => number | undefined;
+  formatValue: (value: number) => string;
+  getBarClassName: (value: number) => string;
+  maxValue?: number;
+}> = ({ title, rows, dimension, getValue, formatValue, getBarClassName, maxValue }) => {
+  const chartRows = rows.slice(0, CHART_ROW_LIMIT);
+  const scale = maxValue ?? Math.max(0, ...chartRows.map(row => getValue(row) ?? 0));
+  return (
+    <div className="p-4 bg-slate-900/40 rounded-lg">
+      <h4 className="text-sm font-semibold text-slate-300 mb-3">{title}</h4>
+      <ul className="space-y-2">
+        {chartRows.map(row => {
+          const value = getValue(row);
+          return (
+            <li key={row.key} className="text-sm">
+              <div className="flex justify-between gap-3">
+                <span className={`truncate ${row.key ? 'text-slate-200' : 'text-slate-400 italic'}`}>{getPerformanceGroupLabel(row.key, dimension)}</span>
+                <span className="text-slate-300 whitespace-nowrap">{value !== undefined ? formatValue(value) : t('performance.noData')}</span>
+              </div>
+              <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                {value !== undefined && (
+                  <div
+                    className={`h-full rounded-full ${getBarClassName(value)}`}
+                    style={{ width: `${scale > 0 ? Math.max(2, (value / scale) * 100) : 0}%` }}
+                  />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {rows.length > CHART_ROW_LIMIT && (
+        <p className="mt-2 text-xs text-slate-400">{tp('performance.chart.more', rows.length - CHART_ROW_LIMIT)}</p>
+      )}
+    </div>
+  );
+};
+
+// Lookup history aggregated by carrier, destination UF/region or month, loaded from IndexedDB when opened
+export const CarrierPerformanceDashboard: React.FC<CarrierPerformanceDashboardProps> = ({ historyVersion }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [entries, setEntries] = useState<LookupHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [storageError, setStorageError] = useState<MessageKey | null>(null);
+  const [dimension, setDimension] = useState<PerformanceDimension>('carrier');
+  const [regionFilter, setRegionFilter] = useState<BrazilRegion | ''>('');
+  const [carrierFilter, setCarrierFilter] = useState<string>('');
+  const [isConfirmingClear, setIsConfirmingClear] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+    setIsLoading(true);
+    loadLookupHistory()
+      .then(loadedEntries => {
+        if (isCancelled) return;
+        setEntries(loadedEntries);
+        setStorageError(null);
+      })
+      .catch(error => {
+        console.error("Falha ao carregar o histórico de consultas:", error);
+        if (!isCancelled) setStorageError('performance.loadFailed');
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, historyVersion]);
+
+  const facts = useMemo(() => {
+    const now = new Date();
+    return entries.map(entry => getShipmentPerformanceFacts(entry.trackingInfo, now));
+  }, [entries]);
+
+  // One option per carrier, matched case-insensitively like the grouping
+  const carriers = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const shipment of facts) {
+      if (shipment.carrier && !byKey.has(shipment.carrier.toUpperCase())) byKey.set(shipment.carrier.toUpperCase(), shipment.carrier);
+    }
+    return Array.from(byKey.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [facts]);
+
+  const rows = useMemo(() => {
+    const filteredFacts = facts.filter(shipment =>
+      (!regionFilter || shipment.region === regionFilter) && (!carrierFilter || shipment.carrier.toUpperCase() === carrierFilter));
+    return aggregatePerformance(filteredFacts, dimension);
+  }, [facts, regionFilter, carrierFilter, dimension]);
+
+  const handleExport = () => {
+    setStorageError(null);
+    try {
+      exportPerformanceToCsv(rows, dimension, `desempenho-transportadoras-${dimension}`);
+    } catch (error) {
+      console.error("Erro ao exportar o desempenho das transportadoras:", error);
+      setStorageError('performance.exportFailed');
+    }
+  };
+
+  const handleClear = async () => {
+    setIsConfirmingClear(false);
+    try {
+      await clearLookupHistory();
+      setEntries([]);
+      setStorageError(null);
+    } catch (error) {
+      console.error("Falha ao limpar o histórico de consultas:", error);
+      setStorageError('performance.clearFailed');
+    }
+  };
+
+  const selectClassName = "p-1 bg-slate-700 border border-slate-600 rounded text-slate-100";
+  const buttonClassName = "px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-sky-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="mt-8 p-6 bg-slate-800 rounded-xl shadow-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-2">
+        <h2 className="text-2xl font-bold text-sky-400">{t('performance.title')}</h2>
+        <button type="button" onClick={() => setIsOpen(!isOpen)} className={buttonClassName} aria-expanded={isOpen}>
+          {isOpen ? t('performance.hide') : t('performance.show')}
+        </button>
+      </div>
+      <p className="text-sm text-slate-400">{t('performance.description')}</p>
+
+      {isOpen && (
+        <div className="mt-4">
+          {storageError && <p className="mb-3 text-sm text-red-300">{t(storageError)}</p>}
+          {isLoading && entries.length === 0 ? (
+            <p className="text-slate-400">{t('performance.loading')}</p>
+          ) : entries.length === 0 ? (
+            !storageError && <p className="text-slate-400">{t('performance.empty')}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-slate-300">
+                <span className="px-3 py-1 rounded-full bg-slate-700 text-slate-200">{tp('performance.recorded', entries.length)}</span>
+                <label className="flex items-center gap-2">
+                  {t('performance.groupBy')}
+                  <select value={dimension} onChange={(e) => setDimension(e.target.value as PerformanceDimension)} className={selectClassName}>
+                    {DIMENSIONS.map(option => (
+                      <option key={option.value} value={option.value}>{t(option.label)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  {t('performance.filter.region')}
+                  <select value={regionFilter} onChange={(e) => setRegionFilter(e.target.value as BrazilRegion | '')} className={selectClassName}>
+                    <option value="">{t('performance.filter.allRegions')}</option>
+                    {BRAZIL_REGIONS.map(region => (
+                      <option key={region} value={region}>{t(`performance.region.${region}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  {t('performance.filter.carrier')}
+                  <select value={carrierFilter} onChange={(e) => setCarrierFilter(e.target.value)} className={selectClassName}>
+                    <option value="">{t('performance.filter.allCarriers')}</option>
+                    {carriers.map(([key, name]) => (
+                      <option key={key} value={key}>{name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-slate-400">{t('performance.noMatches')}</p>
+              ) : (
+                <>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <BarChart
+                      title={t('performance.chart.onTimeRate')}
+                      rows={rows}
+                      dimension={dimension}
+                      getValue={row => row.onTimeRate}
+                      formatValue={formatRate}
+                      getBarClassName={getOnTimeBarClassName}
+                      maxValue={1}
+                    />
+                    <BarChart
+                      title={t('performance.chart.averageTransitDays')}
+                      rows={rows}
+                      dimension={dimension}
+                      getValue={row => row.averageTransitDays}
+                      formatValue={formatDays}
+                      getBarClassName={() => 'bg-sky-500'}
+                    />
+                    <BarChart
+                      title={t('performance.chart.failedAttempts')}
+                      rows={rows}
+                      dimension={dimension}
+                      getValue={row => row.failedAttempts}
+                      formatValue={value => value.toLocaleString(getIntlLocale())}
+                      getBarClassName={() => 'bg-amber-500'}
+                    />
+                  </div>
+
+                  <div className="mt-6 overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-slate-400 border-b border-slate-700">
+                          <th className="py-2 pr-3 font-medium">{t(DIMENSIONS.find(option => option.value === dimension)!.label)}</th>
+                          <th className="py-2 px-3 font-medium text-right">{t('performance.column.shipments')}</th>
+                          <th className="py-2 px-3 font-medium text-right">{t('performance.column.delivered')}</th>
+                          <th className="py-2 px-3 font-medium text-right">{t('performance.column.averageTransitDays')}</th>
+                          <th className="py-2 px-3 font-medium text-right">{t('performance.column.onTimeRate')}</th>
+                          <th className="py-2 px-3 font-medium text-right">{t('performance.column.late')}</th>
+                          <th className="py-2 pl-3 font-medium text-right">{t('performance.column.failedAttempts')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map(row => (
+                          <tr key={row.key} className="border-b border-slate-700/50">
+                            <td className={`py-2 pr-3 ${row.key ? 'text-slate-200' : 'text-slate-400 italic'}`}>{getPerformanceGroupLabel(row.key, dimension)}</td>
+                            <td className="py-2 px-3 text-right text-slate-200">{row.shipments}</td>
+                            <td className="py-2 px-3 text-right text-slate-300">{row.delivered}</td>
+                            <td className="py-2 px-3 text-right text-slate-300">{row.averageTransitDays !== undefined ? formatDays(row.averageTransitDays) : '—'}</td>
+                            <td className="py-2 px-3 text-right text-slate-300">
+                              {row.onTimeRate !== undefined ? `${formatRate(row.onTimeRate)} (${row.onTimeCount}/${row.onTimeCount + row.lateCount})` : '—'}
+                            </td>
+                            <td className={`py-2 px-3 text-right ${row.lateCount > 0 ? 'text-red-300' : 'text-slate-300'}`}>{row.lateCount}</td>
+                            <td className={`py-2 pl-3 text-right ${row.failedAttempts > 0 ? 'text-amber-300' : 'text-slate-300'}`}>
+                              {row.failedAttempts}
+                              {row.shipmentsWithFailures > 0 && <span className="text-slate-400"> · {tp('performance.failedShipments', row.shipmentsWithFailures)}</span>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 mt-4">
+                <button type="button" onClick={handleExport} disabled={rows.length === 0} className={buttonClassName}>
+                  {t('performance.exportCsv')}
+                </button>
+                {isConfirmingClear ? (
+                  <>
+                    <span className="text-sm text-slate-300">{t('performance.clearConfirm')}</span>
+                    <button type="button" onClick={handleClear} className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-500 text-white rounded-lg">
+                      {t('performance.clearYes')}
+                    </button>
+                    <button type="button" onClick={() => setIsConfirmingClear(false)} className={buttonClassName}>
+                      {t('performance.clearNo')}
+                    </button>
+                  </>
+                ) : (
+                  <button type="button" onClick={() => setIsConfirmingClear(true)} className="px-3 py-1.5 text-sm text-slate-400 hover:text-red-300">
+                    {t('performance.clear')}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import type { DataQualityWarning } from '../types';
+import { isMessageKey, t, translateMessage } from '../i18n/i18n';
+
+// Entries saved by older versions carry a plain pt-BR message instead of a code
+const describeWarning = (warning: DataQualityWarning & { message?: string }): string =>
+  isMessageKey(warning.code) ? translateMessage(warning) : warning.message || warning.field;
+
+// Collapsible list of data-quality issues found in the carrier's response
+export const DataWarningsPanel: React.FC<{ warnings: DataQualityWarning[]; providerName: string }> = ({ warnings, providerName }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-amber-500/40 bg-amber-500/5 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-amber-200 hover:bg-amber-500/10 rounded-lg"
+        aria-expanded={isOpen}
+      >
+        <span className="font-semibold">
+          {t('dataWarnings.title', { count: warnings.length, provider: providerName })}
+        </span>
+        <span aria-hidden="true">{isOpen ? '▲' : '▼'}</span>
+      </button>
+      {isOpen && (
+        <ul className="px-4 pb-3 space-y-1 text-sm text-slate-300 list-disc list-inside">
+          {warnings.map((warning, index) => (
+            <li key={`${warning.field}-${index}`}>
+              {describeWarning(warning)} <span className="font-mono text-xs text-slate-500">({warning.field})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
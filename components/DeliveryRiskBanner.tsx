@@ -0,0 +1,25 @@
+import React from 'react';
+import type { DeliveryRiskAssessment, DeliveryRiskState } from '../utils/deliveryRisk';
+import { describeDeliveryRisk, getDeliveryRiskLabel } from '../utils/deliveryRisk';
+
+const RISK_STYLES: Record<DeliveryRiskState, string> = {
+  on_time: 'bg-green-500/10 border-green-600/60 text-green-200',
+  at_risk: 'bg-amber-500/10 border-amber-500/60 text-amber-200',
+  late: 'bg-red-500/10 border-red-500/60 text-red-200',
+  delivered_on_time: 'bg-green-500/10 border-green-600/60 text-green-200',
+  delivered_late: 'bg-orange-500/10 border-orange-500/60 text-orange-200',
+  unknown: 'bg-slate-700/50 border-slate-600 text-slate-300',
+};
+
+// Delay/SLA situation against the estimated delivery date. Nothing is shown when it cannot be assessed.
+export const DeliveryRiskBanner: React.FC<{ assessment: DeliveryRiskAssessment }> = ({ assessment }) => {
+  if (assessment.state === 'unknown') return null;
+  const isWarning = assessment.state === 'at_risk' || assessment.state === 'late' || assessment.state === 'delivered_late';
+
+  return (
+    <div role={isWarning ? 'alert' : 'status'} className={`mb-6 p-3 border rounded-lg ${RISK_STYLES[assessment.state]}`}>
+      <p className="font-semibold">{isWarning ? '⚠ ' : ''}{getDeliveryRiskLabel(assessment.state)}</p>
+      <p className="text-sm opacity-90">{describeDeliveryRisk(assessment)}</p>
+    </div>
+  );
+};
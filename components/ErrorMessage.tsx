@@ -1,20 +1,53 @@
-
 import React from 'react';
+import type { TrackingErrorKind } from '../services/trackingErrors';
+import { MessageKey, t } from '../i18n/i18n';
 
 interface ErrorMessageProps {
   message: string;
+  kind?: TrackingErrorKind; // Tracking failures get a specific title, hint and retry action
+  onRetry?: () => void;
+}
+
+interface ErrorKindPresentation {
+  title: MessageKey;
+  hint?: MessageKey;
+  canRetry: boolean;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
+const ERROR_KIND_PRESENTATION: Record<TrackingErrorKind, ErrorKindPresentation> = {
+  network: { title: 'errorMessage.network.title', hint: 'errorMessage.network.hint', canRetry: true },
+  // Retrying from the browser hits the same block
+  blocked: { title: 'errorMessage.blocked.title', hint: 'errorMessage.blocked.hint', canRetry: false },
+  http: { title: 'errorMessage.http.title', hint: 'errorMessage.http.hint', canRetry: true },
+  not_found: { title: 'errorMessage.not_found.title', hint: 'errorMessage.not_found.hint', canRetry: true },
+  malformed: { title: 'errorMessage.malformed.title', hint: 'errorMessage.malformed.hint', canRetry: true },
+  timeout: { title: 'errorMessage.timeout.title', hint: 'errorMessage.timeout.hint', canRetry: true },
+  unexpected: { title: 'errorMessage.defaultTitle', canRetry: true },
+};
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, kind, onRetry }) => {
+  const presentation = kind ? ERROR_KIND_PRESENTATION[kind] : undefined;
+  const showRetry = !!onRetry && (presentation?.canRetry ?? true);
+
   return (
-    <div className="my-8 p-4 bg-red-500/20 border border-red-500 text-red-300 rounded-lg shadow-lg text-left">
+    <div className="my-8 p-4 bg-red-500/20 border border-red-500 text-red-300 rounded-lg shadow-lg text-left" role="alert">
       <div className="flex items-center mb-2">
         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6 mr-2 text-red-400">
           <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
         </svg>
-        <p className="font-semibold text-red-200 text-lg">Ocorreu um Erro</p>
+        <p className="font-semibold text-red-200 text-lg">{t(presentation?.title || 'errorMessage.defaultTitle')}</p>
       </div>
       <p className="text-sm ml-8">{message}</p>
+      {presentation?.hint && <p className="text-xs ml-8 mt-1 text-red-200/80">{t(presentation.hint)}</p>}
+      {showRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="ml-8 mt-3 px-3 py-1.5 text-sm font-semibold bg-red-500/30 hover:bg-red-500/40 text-red-100 rounded-lg transition-colors"
+        >
+          {t('errorMessage.retry')}
+        </button>
+      )}
     </div>
   );
 };
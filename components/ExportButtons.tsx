@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import type { TrackingInfo } from '../types';
+import { exportTrackingToCsv, exportTrackingToXlsx } from '../utils/spreadsheetExport';
+import { t } from '../i18n/i18n';
+
+interface ExportButtonsProps {
+  trackingInfos: TrackingInfo[];
+  fileBaseName: string; // Without extension, e.g. "rastreio-lote"
+  className?: string;
+}
+
+// Spreadsheet export (shipments + events) of one or many tracking results
+export const ExportButtons: React.FC<ExportButtonsProps> = ({ trackingInfos, fileBaseName, className = "" }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
+  const isDisabled = trackingInfos.length === 0;
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExportError(null);
+    try {
+      if (format === 'csv') {
+        exportTrackingToCsv(trackingInfos, fileBaseName);
+      } else {
+        await exportTrackingToXlsx(trackingInfos, fileBaseName);
+      }
+    } catch (error) {
+      console.error(`Erro ao exportar ${format.toUpperCase()}:`, error);
+      setExportError(t('export.failed', { format: format.toUpperCase() }));
+    }
+  };
+
+  const buttonClassName = "px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-sky-300 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className={`flex flex-col items-end gap-1 ${className}`}>
+      <div className="flex gap-2">
+        <button type="button" onClick={() => handleExport('csv')} disabled={isDisabled} className={buttonClassName}>
+          {t('export.csv')}
+        </button>
+        <button type="button" onClick={() => handleExport('xlsx')} disabled={isDisabled} className={buttonClassName}>
+          {t('export.xlsx')}
+        </button>
+      </div>
+      {exportError && <p className="text-xs text-red-300">{exportError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+import React from 'react';
+import { t } from '../i18n/i18n';
+
+export const InfoPill: React.FC<{label: string; value: string | undefined; icon?: React.ReactNode; className?: string}> = ({ label, value, icon, className ="" }) => (
+  <div className={`bg-slate-700 p-3 rounded-lg shadow ${className}`}>
+    <div className="text-xs text-sky-300 mb-1 flex items-center">
+      {icon && <span className="mr-1.5">{icon}</span>}
+      {label}
+    </div>
+    <div className="text-sm font-semibold text-slate-100 break-words">{value || t('common.notAvailable')}</div>
+  </div>
+);
@@ -1,15 +1,19 @@
 import React, { useState, useRef } from 'react';
+import type { PdfExportMode, PdfStatusMessage } from '../types';
+import { validateAccessKey, ACCESS_KEY_LENGTH } from '../utils/accessKey';
+import { t, translateMessage } from '../i18n/i18n';
+import { BarcodeScanner } from './BarcodeScanner';
 
 interface InputFormProps {
   trackingId: string;
   onTrackingIdChange: (id: string) => void;
-  onSubmit: (submission: string | File) => void;
+  onSubmit: (submission: string | File | File[]) => void;
   isLoading: boolean;
   fileInputKey?: string; // Used to reset the file input
   // Props for the PDF download button
-  onShareClick: () => void; // This will now trigger PDF download
+  onShareClick: (mode: PdfExportMode) => void; // This will now trigger PDF download
   isSharingImageActive: boolean; // Will be isGeneratingPdfActive
-  shareImageStatusMessage: string | null; // Will be generatePdfStatusMessage
+  shareImageStatusMessage: PdfStatusMessage | null; // Will be generatePdfStatusMessage
   canShare: boolean;
 }
 
@@ -43,14 +47,24 @@ export const InputForm: React.FC<InputFormProps> = ({
   shareImageStatusMessage, // Renamed for clarity: generatePdfStatusMessage
   canShare
 }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [showKeyValidation, setShowKeyValidation] = useState<boolean>(false);
+  const [pdfMode, setPdfMode] = useState<PdfExportMode>('report');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Validate the typed key locally so typos never reach the carrier API
+  const keyValidation = trackingId.trim() ? validateAccessKey(trackingId) : null;
+  const keyValidationError = keyValidation?.error
+    && (showKeyValidation || keyValidation.normalizedKey.length >= ACCESS_KEY_LENGTH)
+    ? translateMessage(keyValidation.error)
+    : undefined;
+
   const handleIdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newTrackingId = e.target.value;
     onTrackingIdChange(newTrackingId);
-    if (newTrackingId && selectedFile) {
-      setSelectedFile(null);
+    setShowKeyValidation(false);
+    if (newTrackingId && selectedFiles.length > 0) {
+      setSelectedFiles([]);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
@@ -58,18 +72,34 @@ export const InputForm: React.FC<InputFormProps> = ({
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    setSelectedFile(file);
-    if (file) {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    setSelectedFiles(files);
+    if (files.length > 0) {
       onTrackingIdChange('');
     }
   };
 
+  // A key read from the DANFE barcode replaces any selected files and is tracked right away
+  const handleScannedKey = (accessKey: string) => {
+    setSelectedFiles([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    onTrackingIdChange(accessKey);
+    onSubmit(accessKey);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedFile) {
-      onSubmit(selectedFile);
+    if (selectedFiles.length > 1) {
+      onSubmit(selectedFiles); // Batch tracking
+    } else if (selectedFiles.length === 1) {
+      onSubmit(selectedFiles[0]);
     } else if (trackingId.trim()) {
+      if (keyValidation && !keyValidation.isValid) {
+        setShowKeyValidation(true);
+        return;
+      }
       onSubmit(trackingId.trim());
     } else {
        onSubmit(''); 
@@ -80,7 +110,7 @@ export const InputForm: React.FC<InputFormProps> = ({
     <form onSubmit={handleSubmit} className="mb-8 p-6 bg-slate-800 rounded-xl shadow-2xl space-y-6">
       <div>
         <label htmlFor="trackingId" className="block text-lg font-medium text-sky-300 mb-2">
-          Chave de Acesso da DANFE
+          {t('inputForm.accessKeyLabel')}
         </label>
         <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
           <input
@@ -88,23 +118,29 @@ export const InputForm: React.FC<InputFormProps> = ({
             id="trackingId"
             value={trackingId}
             onChange={handleIdChange}
-            placeholder="Digite a chave de acesso"
-            className="flex-grow p-3 bg-slate-700 border border-slate-600 rounded-lg text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all"
+            placeholder={t('inputForm.accessKeyPlaceholder')}
+            className={`flex-grow p-3 bg-slate-700 border ${keyValidationError ? 'border-red-500' : 'border-slate-600'} rounded-lg text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-all`}
             disabled={isLoading || isSharingImageActive}
-            aria-label="Chave de Acesso da DANFE"
+            aria-label={t('inputForm.accessKeyLabel')}
+            aria-invalid={!!keyValidationError}
+            aria-describedby={keyValidationError ? "trackingIdError" : undefined}
           />
         </div>
+        {keyValidationError && (
+          <p id="trackingIdError" className="mt-2 text-sm text-red-300">{keyValidationError}</p>
+        )}
+        <BarcodeScanner onAccessKey={handleScannedKey} disabled={isLoading || isSharingImageActive} />
       </div>
 
       <div className="flex items-center my-4">
         <hr className="flex-grow border-t border-slate-600" />
-        <span className="px-3 text-sm text-slate-400">OU</span>
+        <span className="px-3 text-sm text-slate-400">{t('inputForm.or')}</span>
         <hr className="flex-grow border-t border-slate-600" />
       </div>
       
       <div>
         <label htmlFor="xmlFile" className="block text-lg font-medium text-sky-300 mb-2">
-          Upload Arquivo XML da NF-e
+          {t('inputForm.uploadLabel')}
         </label>
         <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-600 border-dashed rounded-md hover:border-sky-500 transition-colors">
           <div className="space-y-1 text-center">
@@ -114,23 +150,28 @@ export const InputForm: React.FC<InputFormProps> = ({
                 htmlFor="xmlFile"
                 className="relative cursor-pointer bg-slate-700 rounded-md font-medium text-sky-400 hover:text-sky-300 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-offset-slate-800 focus-within:ring-sky-500 px-2 py-1"
               >
-                <span>Selecione o arquivo</span>
+                <span>{t('inputForm.selectFiles')}</span>
                 <input 
                   id="xmlFile" 
                   name="xmlFile" 
                   type="file" 
                   className="sr-only" 
-                  accept=".xml"
+                  accept=".xml,.pdf,application/pdf"
+                  multiple
                   onChange={handleFileChange}
                   ref={fileInputRef}
                   key={fileInputKey}
                   disabled={isLoading || isSharingImageActive}
                 />
               </label>
-              <p className="pl-1">ou arraste e solte</p>
+              <p className="pl-1">{t('inputForm.dragAndDrop')}</p>
             </div>
             <p className="text-xs text-slate-500">
-              {selectedFile ? selectedFile.name : 'Nenhum arquivo selecionado. Somente XML.'}
+              {selectedFiles.length > 1
+                ? t('inputForm.filesSelected', { count: selectedFiles.length })
+                : selectedFiles.length === 1
+                  ? selectedFiles[0].name
+                  : t('inputForm.noFileSelected')}
             </p>
           </div>
         </div>
@@ -140,7 +181,7 @@ export const InputForm: React.FC<InputFormProps> = ({
         <button
           type="submit"
           className="w-full flex items-center justify-center p-3 bg-sky-600 hover:bg-sky-500 text-white font-semibold rounded-lg shadow-md focus:outline-none focus:ring-2 focus:ring-sky-400 focus:ring-opacity-75 transition-all duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={isLoading || isSharingImageActive || (!selectedFile && !trackingId.trim())}
+          disabled={isLoading || isSharingImageActive || (selectedFiles.length === 0 && !trackingId.trim())}
         >
           {isLoading ? (
             <>
@@ -148,22 +189,22 @@ export const InputForm: React.FC<InputFormProps> = ({
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Processando...
+              {t('inputForm.processing')}
             </>
           ) : (
             <>
               <SearchIcon className="h-5 w-5 mr-2" />
-              Rastrear
+              {t('inputForm.track')}
             </>
           )}
         </button>
 
         <button
           type="button"
-          onClick={onShareClick} // This prop name is kept general in App.tsx, so it's fine
+          onClick={() => onShareClick(pdfMode)} // This prop name is kept general in App.tsx, so it's fine
           className="w-full flex items-center justify-center p-3 bg-green-600 hover:bg-green-500 text-white font-semibold rounded-lg shadow-md focus:outline-none focus:ring-2 focus:ring-green-400 focus:ring-opacity-75 transition-all duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
           disabled={isLoading || isSharingImageActive || !canShare}
-          aria-label="Baixar PDF do rastreio"
+          aria-label={t('inputForm.downloadPdf')}
         >
           {isSharingImageActive ? ( // Renamed prop used here
              <>
@@ -171,18 +212,42 @@ export const InputForm: React.FC<InputFormProps> = ({
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Gerando PDF...
+              {t('inputForm.generatingPdf')}
             </>
           ) : (
             <>
               <PdfFileIcon className="h-5 w-5 mr-2" />
-              Baixar PDF do Rastreio
+              {t('inputForm.downloadPdf')}
             </>
           )}
         </button>
+        <div className="mt-2 flex items-center justify-center gap-4 text-sm text-slate-300" role="radiogroup" aria-label={t('inputForm.pdfFormat')}>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="radio"
+              name="pdfMode"
+              value="report"
+              checked={pdfMode === 'report'}
+              onChange={() => setPdfMode('report')}
+              className="accent-green-500"
+            />
+            {t('inputForm.pdfModeReport')}
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="radio"
+              name="pdfMode"
+              value="screenshot"
+              checked={pdfMode === 'screenshot'}
+              onChange={() => setPdfMode('screenshot')}
+              className="accent-green-500"
+            />
+            {t('inputForm.pdfModeScreenshot')}
+          </label>
+        </div>
         {shareImageStatusMessage && ( // Renamed prop used here
-          <div className={`mt-2 p-2 text-sm rounded-md text-center ${shareImageStatusMessage.includes("Falha") || shareImageStatusMessage.includes("Erro") || shareImageStatusMessage.includes("cancelado") ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'}`}>
-            {shareImageStatusMessage}
+          <div className={`mt-2 p-2 text-sm rounded-md text-center ${shareImageStatusMessage.isError ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'}`}>
+            {shareImageStatusMessage.text}
           </div>
         )}
       </div>
@@ -1,11 +1,12 @@
 
 import React from 'react';
+import { t } from '../i18n/i18n';
 
 export const LoadingSpinner: React.FC = () => {
   return (
     <div className="flex justify-center items-center my-12">
       <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-sky-500"></div>
-      <p className="ml-4 text-xl text-slate-300">Loading...</p>
+      <p className="ml-4 text-xl text-slate-300">{t('loading.text')}</p>
     </div>
   );
 };
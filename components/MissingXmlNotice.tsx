@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import type { TrackingInfo } from '../types';
+import { LocalizedMessage, MessageKey, t, translateMessage } from '../i18n/i18n';
+import { toLocalizedMessage } from '../i18n/localizedError';
+
+interface MissingXmlNoticeProps {
+  trackingInfo: TrackingInfo;
+  onUploadXml: (file: File) => Promise<void>; // Rejects when the file is invalid or belongs to another NF-e
+}
+
+// Sections of the tracking display that only the NF-e XML can fill
+const XML_SECTIONS: MessageKey[] = [
+  'missingXml.section.parties',
+  'missingXml.section.items',
+  'missingXml.section.volumes',
+  'missingXml.section.invoice',
+  'missingXml.section.installments',
+];
+
+const hasXmlData = (trackingInfo: TrackingInfo): boolean =>
+  !!(trackingInfo.xmlEmitter || trackingInfo.xmlRecipient || trackingInfo.xmlItems || trackingInfo.xmlVolumes
+    || trackingInfo.xmlInvoiceInfo || trackingInfo.xmlInstallments || trackingInfo.xmlCteInfo);
+
+// Shown for lookups made from the access key alone (typed or opened from a link), offering to add the XML afterwards
+export const MissingXmlNotice: React.FC<MissingXmlNoticeProps> = ({ trackingInfo, onUploadXml }) => {
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [uploadError, setUploadError] = useState<LocalizedMessage | null>(null);
+
+  if (hasXmlData(trackingInfo)) return null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allows picking the same file again after an error
+    if (!file) return;
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      await onUploadXml(file);
+    } catch (error) {
+      console.error("Erro ao reenviar o XML:", error);
+      setUploadError(toLocalizedMessage(error, { code: 'app.errors.xmlUnknown' }));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-slate-700/40 border border-slate-600 rounded-lg">
+      <h3 className="text-lg font-semibold text-sky-300 mb-1">{t('missingXml.title')}</h3>
+      <p className="text-sm text-slate-300">{t('missingXml.description')}</p>
+      <ul className="mt-2 mb-3 text-sm text-slate-400 list-disc list-inside">
+        {XML_SECTIONS.map(section => <li key={section}>{t(section)}</li>)}
+      </ul>
+      <label
+        className={`inline-block px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+          isUploading ? 'bg-slate-600 text-slate-400 cursor-wait' : 'bg-sky-700 hover:bg-sky-600 text-white cursor-pointer'
+        }`}
+      >
+        {isUploading ? t('missingXml.uploading') : t('missingXml.upload')}
+        <input type="file" accept=".xml" className="sr-only" onChange={handleFileChange} disabled={isUploading} />
+      </label>
+      {uploadError && <p className="mt-2 text-sm text-red-300" role="alert">{translateMessage(uploadError)}</p>}
+    </div>
+  );
+};
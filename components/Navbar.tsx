@@ -1,18 +1,28 @@
-
 import React from 'react';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, isSupportedLocale, setLocale, t } from '../i18n/i18n';
+import { useLocale } from '../hooks/useLocale';
 
 export const Navbar: React.FC = () => {
+  const locale = useLocale();
+
   return (
     <nav className="w-full bg-slate-900/50 backdrop-blur-md shadow-lg p-4 sticky top-0 z-50">
       <div className="container mx-auto flex items-center justify-between max-w-4xl">
         <div className="text-2xl font-bold text-sky-400">
           IRR Rastreios
         </div>
-        {/* Future navigation links could go here */}
-        {/* <div className="space-x-4">
-          <a href="#home" className="text-slate-300 hover:text-sky-400 transition-colors">Home</a>
-          <a href="#about" className="text-slate-300 hover:text-sky-400 transition-colors">About</a>
-        </div> */}
+        <select
+          value={locale}
+          onChange={(e) => {
+            if (isSupportedLocale(e.target.value)) setLocale(e.target.value);
+          }}
+          aria-label={t('navbar.language')}
+          className="px-2 py-1 text-sm bg-slate-800 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        >
+          {SUPPORTED_LOCALES.map(option => (
+            <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+          ))}
+        </select>
       </div>
     </nav>
   );
@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import type { DeliveryBeforeDueState, ReceivableInstallment, TrackingInfo } from '../types';
+import {
+  ReceivablesGrouping,
+  addDays,
+  collectReceivables,
+  exportReceivablesToIcs,
+  isOverdue,
+  toLocalIsoDate,
+  totalReceivables,
+} from '../utils/receivables';
+import { formatCurrency, formatIsoDate } from '../utils/formatters';
+import { getIntlLocale, MessageKey, t, tp } from '../i18n/i18n';
+
+interface ReceivablesCalendarProps {
+  shipments: TrackingInfo[]; // Watched and looked-up shipments; for a repeated note the first one wins
+  onOpenShipment: (accessKey: string) => void;
+}
+
+const DELIVERY_BADGES: Record<DeliveryBeforeDueState, { label: MessageKey; className: string }> = {
+  delivered_before_due: { label: 'receivables.delivery.deliveredBeforeDue', className: 'bg-green-600/40 text-green-200' },
+  delivered_after_due: { label: 'receivables.delivery.deliveredAfterDue', className: 'bg-amber-500/30 text-amber-200' },
+  pending: { label: 'receivables.delivery.pending', className: 'bg-slate-600 text-slate-200' },
+  pending_past_due: { label: 'receivables.delivery.pendingPastDue', className: 'bg-red-600/40 text-red-200' },
+};
+
+const GROUPINGS: { value: ReceivablesGrouping; label: MessageKey }[] = [
+  { value: 'week', label: 'receivables.grouping.week' },
+  { value: 'month', label: 'receivables.grouping.month' },
+  { value: 'supplier', label: 'receivables.grouping.supplier' },
+];
+
+// 2024-01-01 was a Monday; the calendar weeks run Monday to Sunday like the weekly totals
+const WEEKDAY_REFERENCE = '2024-01-01';
+
+// Month names and weekdays are built from UTC dates, like the YYYY-MM-DD due dates themselves
+const formatMonth = (month: string): string =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString(getIntlLocale(), { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const formatWeekday = (isoDate: string): string =>
+  new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(getIntlLocale(), { weekday: 'short', timeZone: 'UTC' });
+
+const shiftMonth = (month: string, offset: number): string => {
+  const date = new Date(`${month}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + offset);
+  return date.toISOString().slice(0, 7);
+};
+
+// Day cells of the month, with leading blanks so the 1st falls on its weekday
+const getMonthDays = (month: string): (string | null)[] => {
+  const firstDay = `${month}-01`;
+  const leadingBlanks = (new Date(`${firstDay}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const days: (string | null)[] = Array(leadingBlanks).fill(null);
+  for (let day = firstDay; day.startsWith(month); day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+const formatGroupLabel = (key: string, grouping: ReceivablesGrouping): string => {
+  if (grouping === 'week') return t('receivables.weekOf', { date: formatIsoDate(key) });
+  if (grouping === 'month') return formatMonth(key);
+  return key;
+};
+
+const sumValues = (installments: ReceivableInstallment[]): number =>
+  installments.reduce((sum, installment) => sum + installment.value, 0);
+
+const InstallmentRow: React.FC<{
+  installment: ReceivableInstallment;
+  today: string;
+  onOpenShipment: (accessKey: string) => void;
+}> = ({ installment, today, onOpenShipment }) => {
+  const overdue = isOverdue(installment, today);
+  const deliveryBadge = installment.deliveryState ? DELIVERY_BADGES[installment.deliveryState] : undefined;
+  const nfNumber = installment.nfNumber || installment.accessKey;
+  return (
+    <li className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg ${
+      overdue ? 'bg-red-500/10 border border-red-500/60' : 'bg-slate-700/50 border border-transparent'
+    }`}>
+      <div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onOpenShipment(installment.accessKey)}
+            className="font-semibold text-sky-300 hover:text-sky-200 underline-offset-2 hover:underline"
+            aria-label={t('receivables.openShipment', { nf: nfNumber })}
+          >
+            {t('receivables.nf', { nf: nfNumber })}
+          </button>
+          {installment.installmentNumber && (
+            <span className="text-sm text-slate-400">{t('receivables.installment', { number: installment.installmentNumber })}</span>
+          )}
+          {overdue && (
+            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-600 text-white">{t('receivables.overdueBadge')}</span>
+          )}
+          {deliveryBadge && (
+            <span className={`px-2 py-0.5 text-xs rounded-full ${deliveryBadge.className}`}>{t(deliveryBadge.label)}</span>
+          )}
+        </div>
+        <p className="text-sm text-slate-300">{installment.supplier}</p>
+      </div>
+      <span className={`font-semibold whitespace-nowrap ${overdue ? 'text-red-300' : 'text-slate-100'}`}>{formatCurrency(installment.value)}</span>
+    </li>
+  );
+};
+
+// Duplicatas of every NF-e looked up in this session or watched: month calendar, list by due date and totals
+export const ReceivablesCalendar: React.FC<ReceivablesCalendarProps> = ({ shipments, onOpenShipment }) => {
+  const today = toLocalIsoDate(new Date());
+  const [month, setMonth] = useState<string>(today.slice(0, 7));
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<ReceivablesGrouping>('month');
+
+  const installments = useMemo(() => collectReceivables(shipments, today), [shipments, today]);
+  const totals = useMemo(() => totalReceivables(installments, grouping, today), [installments, grouping, today]);
+
+  if (installments.length === 0) return null;
+
+  const byDay = new Map<string, ReceivableInstallment[]>();
+  for (const installment of installments) {
+    byDay.set(installment.dueDate, [...(byDay.get(installment.dueDate) || []), installment]);
+  }
+  const overdueInstallments = installments.filter(installment => isOverdue(installment, today));
+  const listedInstallments = installments.filter(installment =>
+    selectedDay ? installment.dueDate === selectedDay : installment.dueDate.startsWith(month));
+  const listedDays = Array.from(new Set(listedInstallments.map(installment => installment.dueDate)));
+
+  const changeMonth = (newMonth: string) => {
+    setMonth(newMonth);
+    setSelectedDay(null);
+  };
+
+  const navButtonClassName = "px-2 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-sky-300 rounded-lg";
+
+  return (
+    <div className="mt-8 p-6 bg-slate-800 rounded-xl shadow-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-2">
+        <h2 className="text-2xl font-bold text-sky-400">{t('receivables.title')}</h2>
+        <button
+          type="button"
+          onClick={() => exportReceivablesToIcs(installments, 'duplicatas')}
+          className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 text-sky-300 rounded-lg"
+        >
+          {t('receivables.exportIcs')}
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">{t('receivables.description')}</p>
+
+      <div className="flex flex-wrap gap-2 mb-6 text-sm">
+        <span className="px-3 py-1 rounded-full bg-slate-700 text-slate-200">
+          {tp('receivables.total', installments.length, { value: formatCurrency(sumValues(installments)) })}
+        </span>
+        {overdueInstallments.length > 0 && (
+          <span className="px-3 py-1 rounded-full bg-red-600/40 text-red-200 font-semibold">
+            {tp('receivables.overdueTotal', overdueInstallments.length, { value: formatCurrency(sumValues(overdueInstallments)) })}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mb-3">
+        <button type="button" onClick={() => changeMonth(shiftMonth(month, -1))} className={navButtonClassName} aria-label={t('receivables.previousMonth')}>
+          ‹
+        </button>
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-semibold text-slate-100 capitalize">{formatMonth(month)}</h3>
+          {month !== today.slice(0, 7) && (
+            <button type="button" onClick={() => changeMonth(today.slice(0, 7))} className="text-xs text-sky-300 hover:text-sky-200">
+              {t('receivables.currentMonth')}
+            </button>
+          )}
+        </div>
+        <button type="button" onClick={() => changeMonth(shiftMonth(month, 1))} className={navButtonClassName} aria-label={t('receivables.nextMonth')}>
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {Array.from({ length: 7 }, (_, index) => (
+          <div key={index} className="text-xs uppercase text-slate-400 pb-1">{formatWeekday(addDays(WEEKDAY_REFERENCE, index))}</div>
+        ))}
+        {getMonthDays(month).map((day, index) => {
+          if (!day) return <div key={`blank-${index}`} />;
+          const dayInstallments = byDay.get(day) || [];
+          const hasOverdue = dayInstallments.some(installment => isOverdue(installment, today));
+          const dayClassName = dayInstallments.length === 0
+            ? 'bg-slate-900/40 text-slate-500'
+            : hasOverdue
+              ? 'bg-red-500/20 text-red-100 hover:bg-red-500/30'
+              : 'bg-sky-700/30 text-sky-100 hover:bg-sky-700/50';
+          return (
+            <button
+              key={day}
+              type="button"
+              onClick={() => setSelectedDay(selectedDay === day ? null : day)}
+              disabled={dayInstallments.length === 0}
+              className={`min-h-[3.5rem] p-1 rounded-md text-left transition-colors disabled:cursor-default ${dayClassName} ${
+                day === today ? 'ring-1 ring-slate-300' : ''
+              } ${day === selectedDay ? 'ring-2 ring-sky-400' : ''}`}
+              aria-label={dayInstallments.length > 0
+                ? `${formatIsoDate(day)}: ${tp('receivables.dayInstallments', dayInstallments.length, { value: formatCurrency(sumValues(dayInstallments)) })}`
+                : formatIsoDate(day)}
+            >
+              <span className="block text-xs font-semibold">{Number(day.slice(8))}</span>
+              {dayInstallments.length > 0 && (
+                <span className="hidden sm:block text-[0.7rem] leading-tight truncate">{formatCurrency(sumValues(dayInstallments))}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <h3 className="text-lg font-semibold text-slate-100">
+            {selectedDay
+              ? t('receivables.dueOn', { date: formatIsoDate(selectedDay) })
+              : t('receivables.dueIn', { month: formatMonth(month) })}
+          </h3>
+          {selectedDay && (
+            <button type="button" onClick={() => setSelectedDay(null)} className="text-sm text-sky-300 hover:text-sky-200">
+              {t('receivables.showMonth')}
+            </button>
+          )}
+        </div>
+        {listedDays.length > 0 ? (
+          <div className="space-y-4">
+            {listedDays.map(day => {
+              const dayInstallments = byDay.get(day) || [];
+              return (
+                <div key={day}>
+                  <p className={`text-sm font-semibold mb-1 ${day < today ? 'text-red-300' : 'text-slate-300'}`}>
+                    {formatIsoDate(day)} · {formatCurrency(sumValues(dayInstallments))}
+                  </p>
+                  <ul className="space-y-2">
+                    {dayInstallments.map((installment, index) => (
+                      <InstallmentRow key={`${installment.accessKey}-${index}`} installment={installment} today={today} onOpenShipment={onOpenShipment} />
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-slate-400">{t('receivables.emptyMonth')}</p>
+        )}
+      </div>
+
+      <div className="mt-6">
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <h3 className="text-lg font-semibold text-slate-100">{t('receivables.totals.title')}</h3>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            {t('receivables.totals.groupBy')}
+            <select
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as ReceivablesGrouping)}
+              className="p-1 bg-slate-700 border border-slate-600 rounded text-slate-100"
+            >
+              {GROUPINGS.map(option => (
+                <option key={option.value} value={option.value}>{t(option.label)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="py-2 pr-3 font-medium">{t(GROUPINGS.find(option => option.value === grouping)!.label)}</th>
+                <th className="py-2 px-3 font-medium text-right">{t('receivables.totals.count')}</th>
+                <th className="py-2 px-3 font-medium text-right">{t('receivables.totals.value')}</th>
+                <th className="py-2 pl-3 font-medium text-right">{t('receivables.totals.overdue')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totals.map(total => (
+                <tr key={total.key} className="border-b border-slate-700/50">
+                  <td className="py-2 pr-3 text-slate-200">{formatGroupLabel(total.key, grouping)}</td>
+                  <td className="py-2 px-3 text-right text-slate-300">{total.count}</td>
+                  <td className="py-2 px-3 text-right text-slate-100">{formatCurrency(total.value)}</td>
+                  <td className={`py-2 pl-3 text-right ${total.overdueValue > 0 ? 'text-red-300 font-semibold' : 'text-slate-500'}`}>
+                    {formatCurrency(total.overdueValue)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import type { AnalysisRiskLevel, ShipmentAnalysisResult } from '../types';
+import { getAnalysisRiskLevelLabel, getShipmentProblemKindLabel } from '../services/analysis/analysisSchema';
+import { t, tp } from '../i18n/i18n';
+
+const RISK_LEVEL_STYLES: Record<AnalysisRiskLevel, string> = {
+  low: 'bg-green-500/20 text-green-200 border-green-600/60',
+  medium: 'bg-amber-500/20 text-amber-200 border-amber-500/60',
+  high: 'bg-red-500/20 text-red-200 border-red-500/60',
+};
+
+type CopyState = 'idle' | 'copied' | 'failed';
+
+// Risk level, next step and problems as badges, plus a customer message ready to copy
+export const ShipmentAnalysisPanel: React.FC<{ result: ShipmentAnalysisResult }> = ({ result }) => {
+  const [copyState, setCopyState] = useState<CopyState>('idle');
+  const { analysis } = result;
+
+  const handleCopyMessage = async () => {
+    try {
+      await navigator.clipboard.writeText(analysis.customerMessage);
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Falha ao copiar a mensagem:', error);
+      setCopyState('failed');
+    }
+    setTimeout(() => setCopyState('idle'), 2000);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-slate-700/50 border border-slate-600 rounded-lg shadow-lg">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="text-xl font-semibold text-sky-300 mr-2">{result.generatedByAi ? t('analysis.titleAi') : t('analysis.title')}</h3>
+        <span className={`px-2 py-0.5 text-xs font-semibold border rounded-full ${RISK_LEVEL_STYLES[analysis.riskLevel]}`}>{getAnalysisRiskLevelLabel(analysis.riskLevel)}</span>
+        {analysis.problems.map((problem, index) => (
+          <span
+            key={`${problem.kind}-${index}`}
+            title={problem.description}
+            className="px-2 py-0.5 text-xs font-semibold border rounded-full bg-orange-500/20 text-orange-200 border-orange-500/60"
+          >
+            {getShipmentProblemKindLabel(problem.kind)}{problem.days !== undefined ? ` (${tp('common.days', problem.days)})` : ''}
+          </span>
+        ))}
+      </div>
+
+      <p className="text-sm text-slate-200 mb-2">
+        <span className="font-semibold text-slate-400">{t('analysis.nextStep')} </span>{analysis.nextStep}
+      </p>
+      {analysis.problems.length > 0 && (
+        <ul className="mb-3 text-sm text-slate-300 list-disc list-inside space-y-0.5">
+          {analysis.problems.map((problem, index) => <li key={`${problem.kind}-${index}`}>{problem.description}</li>)}
+        </ul>
+      )}
+
+      <div className="p-3 bg-slate-800/70 border border-slate-600 rounded-lg">
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">{t('analysis.customerMessage')}</span>
+          <button
+            type="button"
+            onClick={handleCopyMessage}
+            className="px-2 py-1 text-xs font-semibold bg-sky-600 hover:bg-sky-700 text-white rounded transition-colors"
+          >
+            {copyState === 'copied' ? t('analysis.copied') : copyState === 'failed' ? t('analysis.copyFailed') : t('analysis.copy')}
+          </button>
+        </div>
+        <p className="text-slate-200 text-sm whitespace-pre-wrap">{analysis.customerMessage}</p>
+      </div>
+
+      <p className="mt-2 text-xs text-slate-400">
+        {t('analysis.generatedBy', { name: result.analyzerName })}
+        {result.fallbackReason && <span className="block text-amber-300/80">{result.fallbackReason}</span>}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import type { ShipmentStatus } from '../types';
+import { getShipmentStatusLabel } from '../utils/shipmentStatus';
+
+interface StatusStyle {
+  badgeClassName: string; // Badge background/text
+  dotClassName: string; // Timeline dot and stepper circle
+  iconPath: string; // Heroicons outline path
+}
+
+export const STATUS_STYLES: Record<ShipmentStatus, StatusStyle> = {
+  emitted: {
+    badgeClassName: 'bg-slate-600/60 text-slate-200',
+    dotClassName: 'bg-slate-400',
+    iconPath: 'M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z',
+  },
+  collected: {
+    badgeClassName: 'bg-indigo-500/30 text-indigo-200',
+    dotClassName: 'bg-indigo-400',
+    iconPath: 'M20.25 7.5l-.625 10.632a2.25 2.25 0 01-2.247 2.118H6.622a2.25 2.25 0 01-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125z',
+  },
+  in_transit: {
+    badgeClassName: 'bg-sky-500/30 text-sky-200',
+    dotClassName: 'bg-sky-500',
+    iconPath: 'M8.25 18.75a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 01-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 00-3.213-9.193 2.056 2.056 0 00-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.106a48.554 48.554 0 00-10.026 0 1.106 1.106 0 00-.987 1.106v7.635m12-6.677v6.677m0 4.5v-4.5m0 0h-12',
+  },
+  at_destination_hub: {
+    badgeClassName: 'bg-cyan-500/30 text-cyan-200',
+    dotClassName: 'bg-cyan-400',
+    iconPath: 'M3.75 21h16.5M4.5 3h15M5.25 3v18m13.5-18v18M9 6.75h1.5m-1.5 3h1.5m-1.5 3h1.5m3-6H15m-1.5 3H15m-1.5 3H15M9 21v-3.375c0-.621.504-1.125 1.125-1.125h3.75c.621 0 1.125.504 1.125 1.125V21',
+  },
+  out_for_delivery: {
+    badgeClassName: 'bg-teal-500/30 text-teal-200',
+    dotClassName: 'bg-teal-400',
+    iconPath: 'M15 10.5a3 3 0 11-6 0 3 3 0 016 0z M19.5 10.5c0 7.142-7.5 11.25-7.5 11.25S4.5 17.642 4.5 10.5a7.5 7.5 0 1115 0z',
+  },
+  delivered: {
+    badgeClassName: 'bg-green-500/30 text-green-200',
+    dotClassName: 'bg-green-500',
+    iconPath: 'M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+  },
+  delivery_failed: {
+    badgeClassName: 'bg-red-500/30 text-red-200',
+    dotClassName: 'bg-red-500',
+    iconPath: 'M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z',
+  },
+  returned: {
+    badgeClassName: 'bg-orange-500/30 text-orange-200',
+    dotClassName: 'bg-orange-500',
+    iconPath: 'M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3',
+  },
+  exception: {
+    badgeClassName: 'bg-amber-500/30 text-amber-200',
+    dotClassName: 'bg-amber-500',
+    iconPath: 'M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z',
+  },
+  unknown: {
+    badgeClassName: 'bg-slate-600/60 text-slate-300',
+    dotClassName: 'bg-slate-500',
+    iconPath: 'M9.879 7.519c1.171-1.025 3.071-1.025 4.242 0 1.172 1.025 1.172 2.687 0 3.712-.203.179-.43.326-.67.442-.745.361-1.45.999-1.45 1.827v.75M21 12a9 9 0 11-18 0 9 9 0 0118 0zm-9 5.25h.008v.008H12v-.008z',
+  },
+};
+
+export const StatusIcon: React.FC<{ status: ShipmentStatus } & React.SVGProps<SVGSVGElement>> = ({ status, ...props }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d={STATUS_STYLES[status].iconPath} />
+  </svg>
+);
+
+export const StatusBadge: React.FC<{ status: ShipmentStatus; className?: string }> = ({ status, className = "" }) => (
+  <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[status].badgeClassName} ${className}`}>
+    <StatusIcon status={status} className="w-3.5 h-3.5" />
+    {getShipmentStatusLabel(status)}
+  </span>
+);
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ShipmentStatus, TrackingEvent } from '../types';
+import { getShipmentStatusLabel, SHIPMENT_STATUS_STEPS, getReachedStepIndex, isProblemStatus } from '../utils/shipmentStatus';
+import { STATUS_STYLES, StatusBadge, StatusIcon } from './StatusBadge';
+import { t } from '../i18n/i18n';
+
+interface StatusStepperProps {
+  status: ShipmentStatus;
+  events: TrackingEvent[];
+}
+
+// Progress of the shipment along the normal flow (emitted -> delivered)
+export const StatusStepper: React.FC<StatusStepperProps> = ({ status, events }) => {
+  const reachedIndex = status === 'delivered' ? SHIPMENT_STATUS_STEPS.length - 1 : getReachedStepIndex(events);
+  const hasProblem = isProblemStatus(status);
+
+  return (
+    <div className="mb-6 p-4 bg-slate-900/40 rounded-lg">
+      <ol className="flex items-start justify-between">
+        {SHIPMENT_STATUS_STEPS.map((step, index) => {
+          const isReached = index <= reachedIndex;
+          const isCurrent = index === reachedIndex;
+          return (
+            <li key={step} className="flex-1 flex flex-col items-center relative">
+              {index > 0 && (
+                <div className={`absolute top-4 right-1/2 w-full h-0.5 ${isReached ? 'bg-sky-500' : 'bg-slate-600'}`} />
+              )}
+              <div
+                className={`relative z-10 w-8 h-8 rounded-full flex items-center justify-center border-2 ${
+                  isReached ? `${STATUS_STYLES[step].dotClassName} border-transparent text-slate-900` : 'bg-slate-800 border-slate-600 text-slate-500'
+                } ${isCurrent && hasProblem ? 'ring-2 ring-red-500 ring-offset-2 ring-offset-slate-800' : ''}`}
+              >
+                <StatusIcon status={step} className="w-4 h-4" />
+              </div>
+              <span className={`mt-2 text-[11px] sm:text-xs text-center ${isReached ? 'text-slate-100' : 'text-slate-500'}`}>
+                {getShipmentStatusLabel(step)}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      {hasProblem && (
+        <div className="mt-3 flex items-center justify-center gap-2 text-sm text-slate-300">
+          {t('stepper.currentSituation')} <StatusBadge status={status} />
+        </div>
+      )}
+    </div>
+  );
+};
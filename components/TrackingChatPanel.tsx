@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TrackingInfo } from '../types';
+import { useTrackingChat } from '../hooks/useTrackingChat';
+import { MessageKey, t, translateMessage } from '../i18n/i18n';
+
+const EXAMPLE_QUESTIONS: MessageKey[] = ['chat.example.location', 'chat.example.idleDays', 'chat.example.secondInstallment'];
+
+const ChatBubble: React.FC<{ role: 'user' | 'assistant'; text: string }> = ({ role, text }) => (
+  <div className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+    <p className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+      role === 'user' ? 'bg-sky-600 text-white' : 'bg-slate-800 text-slate-200 border border-slate-600'
+    }`}>
+      {text}
+    </p>
+  </div>
+);
+
+// Follow-up questions about the displayed shipment, answered from its tracking and XML data only
+export const TrackingChatPanel: React.FC<{ trackingInfo: TrackingInfo }> = ({ trackingInfo }) => {
+  const chat = useTrackingChat(trackingInfo);
+  const [question, setQuestion] = useState<string>('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [chat.messages, chat.streamingAnswer]);
+
+  if (!chat.isAvailable) {
+    return (
+      <p className="mb-6 -mt-4 text-xs text-slate-400">
+        {t('chat.unavailable')}
+      </p>
+    );
+  }
+
+  const submitQuestion = async (text: string) => {
+    setQuestion('');
+    const answered = await chat.askQuestion(text);
+    if (!answered) setQuestion(currentQuestion => currentQuestion || text); // Let the user try again
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submitQuestion(question);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-slate-700/50 border border-slate-600 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-sky-300">{t('chat.title')}</h3>
+        {chat.messages.length > 0 && (
+          <button
+            type="button"
+            onClick={chat.clearConversation}
+            className="text-xs text-slate-400 hover:text-slate-200 underline"
+          >
+            {t('chat.clear')}
+          </button>
+        )}
+      </div>
+
+      {chat.messages.length === 0 && !chat.isAnswering && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {EXAMPLE_QUESTIONS.map(exampleKey => t(exampleKey)).map(example => (
+            <button
+              key={example}
+              type="button"
+              onClick={() => submitQuestion(example)}
+              className="px-2 py-1 text-xs bg-slate-800 hover:bg-slate-600 text-slate-300 border border-slate-600 rounded-full transition-colors"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(chat.messages.length > 0 || chat.streamingAnswer !== null) && (
+        <div className="max-h-80 overflow-y-auto space-y-2 mb-3 pr-1" aria-live="polite">
+          {chat.messages.map((message, index) => <ChatBubble key={index} role={message.role} text={message.text} />)}
+          {chat.streamingAnswer !== null && <ChatBubble role="assistant" text={chat.streamingAnswer || t('chat.thinking')} />}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
+
+      {chat.error && <p className="mb-2 text-sm text-red-300" role="alert">{translateMessage(chat.error)}</p>}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t('chat.placeholder')}
+          className="flex-grow p-2 bg-slate-800 border border-slate-600 rounded-lg text-sm text-slate-100 placeholder-slate-500 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none"
+          disabled={chat.isAnswering}
+          aria-label={t('chat.inputLabel')}
+        />
+        <button
+          type="submit"
+          disabled={chat.isAnswering || !question.trim()}
+          className="px-4 py-2 text-sm font-semibold bg-sky-600 hover:bg-sky-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {chat.isAnswering ? t('chat.answering') : t('chat.ask')}
+        </button>
+      </form>
+      <p className="mt-2 text-xs text-slate-500">{t('chat.disclaimer')}</p>
+    </div>
+  );
+};
@@ -1,97 +1,158 @@
 import React, { useEffect, useState, useRef, useImperativeHandle, forwardRef } from 'react';
-import type { TrackingInfo, TrackingEvent, XmlVolumeInfo, XmlInvoiceInfo, XmlInstallmentInfo } from '../types';
+import type { PdfExportMode, ShipmentAnalysisResult, TrackingInfo, TrackingSummary, TrackingEvent, XmlVolumeSummary, XmlInvoiceInfo, XmlInstallmentInfo, XmlCteInfo, XmlPartyInfo, XmlProductItem } from '../types';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
+import { InfoPill } from './InfoPill';
+import { AccessKeyDetails } from './AccessKeyDetails';
+import { STATUS_STYLES, StatusBadge } from './StatusBadge';
+import { StatusStepper } from './StatusStepper';
+import { DeliveryRiskBanner } from './DeliveryRiskBanner';
+import { ExportButtons } from './ExportButtons';
+import { DataWarningsPanel } from './DataWarningsPanel';
+import { ShipmentAnalysisPanel } from './ShipmentAnalysisPanel';
+import { TrackingChatPanel } from './TrackingChatPanel';
+import { MissingXmlNotice } from './MissingXmlNotice';
+import { TransitTimeline } from './TransitTimeline';
+import { deriveShipmentStatus, getEventShipmentStatus } from '../utils/shipmentStatus';
+import { assessDeliveryRisk } from '../utils/deliveryRisk';
+import { buildTrackingReportPdf, getReportFileName } from '../utils/pdfReport';
+import { buildTrackingUrl } from '../utils/deepLink';
+import { formatCep, formatCityUf, formatCurrency, formatDocument, formatCurrentStatus, formatEstimatedDelivery, formatEventLocation, formatEventStatus, formatEventTimestamp, formatIsoDate, formatPartySummary, formatPhone, formatQuantity, formatStreetAddress, formatWeight } from '../utils/formatters';
+import { plural, t } from '../i18n/i18n';
+import { LocalizedError } from '../i18n/localizedError';
 
 interface TrackingDisplayProps {
   trackingInfo: TrackingInfo;
-  geminiSummary: string | null;
+  summary: TrackingSummary | null;
+  analysis: ShipmentAnalysisResult | null;
+  isWatched?: boolean;
+  onToggleWatch?: () => void;
+  onUploadXml?: (file: File) => Promise<void>; // Adds the XML-only sections to a lookup made from the key alone
 }
 
 export interface TrackingDisplayHandle {
-  triggerPdfDownload: () => Promise<string>; 
+  triggerPdfDownload: (mode?: PdfExportMode) => Promise<string>;
 }
 
-// Helper function to format currency
-const formatCurrency = (value?: number): string => {
-  if (value === undefined || value === null) return 'N/A';
-  return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
-};
-
-// Helper function to format dates (YYYY-MM-DD to DD/MM/YYYY)
-const formatDate = (dateString?: string): string => {
-  if (!dateString) return 'N/A';
-  const parts = dateString.split('-');
-  if (parts.length !== 3) return dateString; // Return original if not YYYY-MM-DD
-  return `${parts[2]}/${parts[1]}/${parts[0]}`;
-};
-
-const InfoPill: React.FC<{label: string; value: string | undefined; icon?: React.ReactNode; className?: string}> = ({ label, value, icon, className ="" }) => (
-  <div className={`bg-slate-700 p-3 rounded-lg shadow ${className}`}>
-    <div className="text-xs text-sky-300 mb-1 flex items-center">
-      {icon && <span className="mr-1.5">{icon}</span>}
-      {label}
-    </div>
-    <div className="text-sm font-semibold text-slate-100 break-words">{value || 'N/A'}</div>
-  </div>
-);
-
 const EventCard: React.FC<{event: TrackingEvent; isLast: boolean}> = ({ event, isLast }) => {
-  let displayTimestamp = "Data inválida";
-  try {
-    if (new Date(event.timestamp).getTime() === new Date(0).getTime() && event.timestamp !== new Date(0).toISOString()) {
-        displayTimestamp = "Data do evento não disponível";
-    } else if (new Date(event.timestamp).getTime() === new Date(0).getTime()) { 
-        displayTimestamp = "Data do evento não fornecida";
-    }
-    else {
-        displayTimestamp = new Date(event.timestamp).toLocaleString('pt-BR', {
-            day: '2-digit', month: '2-digit', year: 'numeric',
-            hour: '2-digit', minute: '2-digit', second: '2-digit'
-        });
-    }
-  } catch (e) {
-    console.warn("Falha ao formatar o timestamp do evento:", event.timestamp, e);
-  }
+  const displayTimestamp = formatEventTimestamp(event.timestamp);
+
+  const canonicalStatus = getEventShipmentStatus(event);
 
   return (
     <li className="relative pb-8 pl-6 border-l-2 border-slate-600">
       {!isLast && <div className="absolute w-px h-full bg-slate-600 left-[-1px] top-2"></div>}
-      <div className="absolute -left-[9px] top-0.5 w-4 h-4 bg-sky-500 rounded-full border-2 border-slate-800"></div>
+      <div className={`absolute -left-[9px] top-0.5 w-4 h-4 ${STATUS_STYLES[canonicalStatus].dotClassName} rounded-full border-2 border-slate-800`}></div>
       <div className="ml-4">
-        <h4 className="font-semibold text-sky-400">{event.status}</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <h4 className="font-semibold text-sky-400">{formatEventStatus(event)}</h4>
+          <StatusBadge status={canonicalStatus} />
+        </div>
         <p className="text-xs text-slate-400">{displayTimestamp}</p>
-        <p className="text-sm text-slate-300">{event.location}</p>
+        <p className="text-sm text-slate-300">{formatEventLocation(event)}</p>
         {event.details && <p className="text-xs text-slate-400 mt-1">{event.details}</p>}
       </div>
     </li>
   );
 };
 
-// Section for XML Volume Details
-const XmlVolumeDetails: React.FC<{ volumeInfo: XmlVolumeInfo }> = ({ volumeInfo }) => (
+// Section for XML Volume Details: one row per vol group plus the totals
+const XmlVolumeDetails: React.FC<{ volumes: XmlVolumeSummary }> = ({ volumes }) => (
   <div className="mt-6 pt-4 border-t border-slate-700">
-    <h3 className="text-xl font-semibold text-sky-300 mb-3">Volumes Transportados (do XML)</h3>
-    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-      <InfoPill label="Quantidade" value={volumeInfo.quantity?.toString()} />
-      <InfoPill label="Espécie" value={volumeInfo.species} />
-      <InfoPill label="Peso Líquido" value={volumeInfo.netWeight ? `${volumeInfo.netWeight.toFixed(3)} kg` : undefined} />
-      <InfoPill label="Peso Bruto" value={volumeInfo.grossWeight ? `${volumeInfo.grossWeight.toFixed(3)} kg` : undefined} />
+    <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.volumes.title')}</h3>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <InfoPill label={t('xml.volumes.totalQuantity')} value={volumes.totals.quantity?.toString()} />
+      <InfoPill label={t('xml.volumes.totalNetWeight')} value={formatWeight(volumes.totals.netWeight)} />
+      <InfoPill label={t('xml.volumes.totalGrossWeight')} value={formatWeight(volumes.totals.grossWeight)} />
+    </div>
+    <div className="overflow-x-auto mt-4">
+      <table className="min-w-full text-xs text-left">
+        <thead>
+          <tr className="border-b border-slate-600 text-sky-300">
+            <th className="px-2 py-2 font-medium text-right">{t('fields.quantityShort')}</th>
+            <th className="px-2 py-2 font-medium">{t('fields.species')}</th>
+            <th className="px-2 py-2 font-medium">{t('fields.brand')}</th>
+            <th className="px-2 py-2 font-medium">{t('fields.numbering')}</th>
+            <th className="px-2 py-2 font-medium text-right">{t('fields.netWeight')}</th>
+            <th className="px-2 py-2 font-medium text-right">{t('fields.grossWeight')}</th>
+            <th className="px-2 py-2 font-medium">{t('fields.seals')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {volumes.groups.map((group, index) => (
+            <tr key={index} className="border-b border-slate-700 text-slate-200">
+              <td className="px-2 py-2 text-right">{group.quantity ?? '-'}</td>
+              <td className="px-2 py-2">{group.species || '-'}</td>
+              <td className="px-2 py-2">{group.brand || '-'}</td>
+              <td className="px-2 py-2">{group.numbering || '-'}</td>
+              <td className="px-2 py-2 text-right whitespace-nowrap">{formatWeight(group.netWeight) || '-'}</td>
+              <td className="px-2 py-2 text-right whitespace-nowrap">{formatWeight(group.grossWeight) || '-'}</td>
+              <td className="px-2 py-2">{group.seals?.join(', ') || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   </div>
 );
 
+// Section for XML Items (Produtos)
+const XmlItemsDetails: React.FC<{ items: XmlProductItem[] }> = ({ items }) => {
+  const totalValue = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-700">
+      <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.items.title')}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs text-left">
+          <thead>
+            <tr className="border-b border-slate-600 text-sky-300">
+              <th className="px-2 py-2 font-medium">{t('fields.code')}</th>
+              <th className="px-2 py-2 font-medium">{t('fields.description')}</th>
+              <th className="px-2 py-2 font-medium">{t('fields.ncm')}</th>
+              <th className="px-2 py-2 font-medium">{t('fields.cfop')}</th>
+              <th className="px-2 py-2 font-medium text-right">{t('fields.quantityShort')}</th>
+              <th className="px-2 py-2 font-medium">{t('fields.unitShort')}</th>
+              <th className="px-2 py-2 font-medium text-right">{t('fields.unitPrice')}</th>
+              <th className="px-2 py-2 font-medium text-right">{t('fields.totalValue')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, index) => (
+              <tr key={item.itemNumber || index} className="border-b border-slate-700 text-slate-200">
+                <td className="px-2 py-2 font-mono">{item.code || '-'}</td>
+                <td className="px-2 py-2">{item.description || '-'}</td>
+                <td className="px-2 py-2 font-mono">{item.ncm || '-'}</td>
+                <td className="px-2 py-2 font-mono">{item.cfop || '-'}</td>
+                <td className="px-2 py-2 text-right">{item.quantity !== undefined ? formatQuantity(item.quantity) : '-'}</td>
+                <td className="px-2 py-2">{item.unit || '-'}</td>
+                <td className="px-2 py-2 text-right whitespace-nowrap">{formatCurrency(item.unitPrice)}</td>
+                <td className="px-2 py-2 text-right whitespace-nowrap">{formatCurrency(item.totalValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="text-slate-100 font-semibold">
+              <td className="px-2 py-2" colSpan={7}>{t('xml.items.total', { items: plural('common.items', items.length) })}</td>
+              <td className="px-2 py-2 text-right whitespace-nowrap">{formatCurrency(totalValue)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
 // Section for XML Invoice Details
 const XmlInvoiceDetails: React.FC<{ invoiceInfo: XmlInvoiceInfo }> = ({ invoiceInfo }) => (
   <div className="mt-6 pt-4 border-t border-slate-700">
-    <h3 className="text-xl font-semibold text-sky-300 mb-3">Fatura (do XML)</h3>
+    <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.invoice.title')}</h3>
     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-      <InfoPill label="Número da Fatura" value={invoiceInfo.number} />
-      <InfoPill label="Valor Original" value={formatCurrency(invoiceInfo.originalValue)} />
+      <InfoPill label={t('xml.invoice.number')} value={invoiceInfo.number} />
+      <InfoPill label={t('fields.originalValue')} value={formatCurrency(invoiceInfo.originalValue)} />
       {invoiceInfo.discountValue !== undefined && (
-        <InfoPill label="Valor do Desconto" value={formatCurrency(invoiceInfo.discountValue)} />
+        <InfoPill label={t('xml.invoice.discount')} value={formatCurrency(invoiceInfo.discountValue)} />
       )}
-      <InfoPill label="Valor Líquido" value={formatCurrency(invoiceInfo.netValue)} />
+      <InfoPill label={t('fields.netValue')} value={formatCurrency(invoiceInfo.netValue)} />
     </div>
   </div>
 );
@@ -99,28 +160,133 @@ const XmlInvoiceDetails: React.FC<{ invoiceInfo: XmlInvoiceInfo }> = ({ invoiceI
 // Section for XML Installments
 const XmlInstallmentsDetails: React.FC<{ installments: XmlInstallmentInfo[] }> = ({ installments }) => (
   <div className="mt-6 pt-4 border-t border-slate-700">
-    <h3 className="text-xl font-semibold text-sky-300 mb-3">Duplicatas (do XML)</h3>
+    <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.installments.title')}</h3>
     {installments.length > 0 ? (
       <div className="space-y-4">
         {installments.map((dup, index) => (
           <div key={index} className="p-3 bg-slate-700/50 rounded-lg shadow">
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2">
-              <InfoPill label="Duplicata Nº" value={dup.number} className="bg-transparent shadow-none p-0"/>
-              <InfoPill label="Vencimento" value={formatDate(dup.dueDate)} className="bg-transparent shadow-none p-0"/>
-              <InfoPill label="Valor" value={formatCurrency(dup.value)} className="bg-transparent shadow-none p-0"/>
+              <InfoPill label={t('xml.installments.number')} value={dup.number} className="bg-transparent shadow-none p-0"/>
+              <InfoPill label={t('fields.dueDate')} value={formatIsoDate(dup.dueDate)} className="bg-transparent shadow-none p-0"/>
+              <InfoPill label={t('fields.value')} value={formatCurrency(dup.value)} className="bg-transparent shadow-none p-0"/>
             </div>
           </div>
         ))}
       </div>
     ) : (
-      <p className="text-slate-400">Nenhuma duplicata encontrada no XML.</p>
+      <p className="text-slate-400">{t('xml.installments.empty')}</p>
     )}
   </div>
 );
 
+const formatCteParty = (party?: XmlPartyInfo): string | undefined => {
+  const summary = formatPartySummary(party);
+  if (!summary || !party?.document) return summary;
+  return `${summary} (${formatDocument(party.document)})`;
+};
+
+// Card with the full identification and address of one party
+const PartyCard: React.FC<{ title: string; party: XmlPartyInfo }> = ({ title, party }) => {
+  const streetAddress = formatStreetAddress(party.address);
+  const cityUf = formatCityUf(party.address?.city, party.address?.uf);
+  return (
+    <div className="p-4 bg-slate-700/50 rounded-lg shadow space-y-1 text-sm">
+      <h4 className="text-xs uppercase tracking-wide text-sky-300 mb-2">{title}</h4>
+      <p className="font-semibold text-slate-100">{party.name || t('common.notAvailable')}</p>
+      {party.fantasyName && party.fantasyName !== party.name && <p className="text-slate-300">{party.fantasyName}</p>}
+      {party.document && (
+        <p className="text-slate-300">{party.documentType || 'CNPJ/CPF'}: {formatDocument(party.document)}</p>
+      )}
+      {party.stateRegistration && <p className="text-slate-300">{t('xml.parties.stateRegistration', { value: party.stateRegistration })}</p>}
+      {streetAddress && <p className="text-slate-400">{streetAddress}</p>}
+      {(cityUf || party.address?.cep) && (
+        <p className="text-slate-400">
+          {cityUf}{party.address?.cep ? `${cityUf ? ' - ' : ''}${t('xml.parties.cep', { value: formatCep(party.address.cep) })}` : ''}
+        </p>
+      )}
+      {party.address?.phone && <p className="text-slate-400">{t('xml.parties.phone', { value: formatPhone(party.address.phone) })}</p>}
+    </div>
+  );
+};
+
+// Section for XML Parties (emit / dest)
+const XmlPartiesDetails: React.FC<{ emitter?: XmlPartyInfo; recipient?: XmlPartyInfo }> = ({ emitter, recipient }) => (
+  <div className="mt-6 pt-4 border-t border-slate-700">
+    <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.parties.title')}</h3>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {emitter && <PartyCard title={t('fields.emitter')} party={emitter} />}
+      {recipient && <PartyCard title={t('fields.recipient')} party={recipient} />}
+    </div>
+  </div>
+);
 
-const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(({ trackingInfo, geminiSummary }, ref) => {
+// CT-e cUnid codes
+const CTE_UNIT_LABELS: Record<string, string> = {
+  '00': 'm³',
+  '01': 'kg',
+  '02': 't',
+  '03': 'un',
+  '04': 'l',
+  '05': 'MMBTU',
+};
+
+// Section for CT-e freight data (when the NF-e was tracked from a CT-e file)
+const XmlCteDetails: React.FC<{ cteInfo: XmlCteInfo }> = ({ cteInfo }) => {
+  const route = [
+    cteInfo.originCity ? `${cteInfo.originCity}/${cteInfo.originUf || ''}` : undefined,
+    cteInfo.destinationCity ? `${cteInfo.destinationCity}/${cteInfo.destinationUf || ''}` : undefined,
+  ].filter(Boolean).join(' → ');
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-700">
+      <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('xml.cte.title')}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        <InfoPill label={t('xml.cte.number')} value={cteInfo.number && cteInfo.series ? t('xml.cte.numberWithSeries', { number: cteInfo.number, series: cteInfo.series }) : cteInfo.number} />
+        <InfoPill label={t('xml.cte.route')} value={route || undefined} />
+        <InfoPill label={t('xml.cte.nfeCount')} value={cteInfo.referencedNfeKeys.length.toString()} />
+        <InfoPill label={t('xml.cte.freightTotal')} value={formatCurrency(cteInfo.freight?.totalValue)} />
+        <InfoPill label={t('xml.cte.receivable')} value={formatCurrency(cteInfo.freight?.receivableValue)} />
+        <InfoPill label={t('xml.cte.cargoValue')} value={formatCurrency(cteInfo.cargo?.value)} />
+        <InfoPill label={t('xml.cte.sender')} value={formatCteParty(cteInfo.sender)} />
+        <InfoPill label={t('fields.recipient')} value={formatCteParty(cteInfo.recipient)} />
+        {cteInfo.expeditor && <InfoPill label={t('xml.cte.expeditor')} value={formatCteParty(cteInfo.expeditor)} />}
+        {cteInfo.cargo?.predominantProduct && <InfoPill label={t('xml.cte.predominantProduct')} value={cteInfo.cargo.predominantProduct} />}
+      </div>
+
+      {cteInfo.freight && cteInfo.freight.components.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-semibold text-sky-300 mb-2">{t('xml.cte.components')}</h4>
+          <ul className="text-sm text-slate-300 space-y-1">
+            {cteInfo.freight.components.map((component, index) => (
+              <li key={index} className="flex justify-between bg-slate-700/50 px-3 py-1 rounded">
+                <span>{component.name || t('xml.cte.componentFallback')}</span>
+                <span>{formatCurrency(component.value)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {cteInfo.cargo && cteInfo.cargo.quantities.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-semibold text-sky-300 mb-2">{t('xml.cte.quantities')}</h4>
+          <ul className="text-sm text-slate-300 space-y-1">
+            {cteInfo.cargo.quantities.map((quantity, index) => (
+              <li key={index} className="flex justify-between bg-slate-700/50 px-3 py-1 rounded">
+                <span>{quantity.measureType || t('xml.cte.measureFallback')}</span>
+                <span>{quantity.quantity !== undefined ? `${formatQuantity(quantity.quantity)} ${CTE_UNIT_LABELS[quantity.unitCode || ''] || ''}` : t('common.notAvailable')}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(({ trackingInfo, summary, analysis, isWatched, onToggleWatch, onUploadXml }, ref) => {
   const [isVisible, setIsVisible] = useState(false);
+  const [linkCopyState, setLinkCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
   const displayRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -131,9 +297,21 @@ const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(
   }, []); 
 
   useImperativeHandle(ref, () => ({
-    triggerPdfDownload: async (): Promise<string> => { 
+    triggerPdfDownload: async (mode: PdfExportMode = 'report'): Promise<string> => {
+      const filename = getReportFileName(trackingInfo);
+
+      if (mode === 'report') {
+        try {
+          buildTrackingReportPdf(trackingInfo, summary, analysis).save(filename);
+          return t('trackingDisplay.pdfDownloaded', { fileName: filename });
+        } catch (error) {
+          console.error("Erro ao gerar o relatório PDF:", error);
+          throw new LocalizedError('trackingDisplay.pdfFailed');
+        }
+      }
+
       if (!displayRef.current) {
-        throw new Error("Elemento de exibição não encontrado para captura.");
+        throw new LocalizedError('trackingDisplay.captureTargetMissing');
       }
       
       try {
@@ -164,25 +342,29 @@ const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(
         // Add image to cover the entire custom page
         pdf.addImage(imgData, 'PNG', 0, 0, pdfPageWidthMm, pdfPageHeightMm);
 
-        let nfIdentifier = trackingInfo.id; // Fallback to DANFE key
-        if (trackingInfo.productName) {
-          const nfMatch = trackingInfo.productName.match(/Nota Fiscal:\s*(\S+)/i);
-          if (nfMatch && nfMatch[1]) {
-            nfIdentifier = nfMatch[1];
-          }
-        }
-        const filename = `rastreio-nf${nfIdentifier}.pdf`;
-        
         pdf.save(filename);
-        return `PDF '${filename}' baixado com sucesso.`;
+        return t('trackingDisplay.pdfDownloaded', { fileName: filename });
 
       } catch (error) {
         console.error("Erro ao gerar ou baixar PDF:", error);
-        throw new Error("Falha ao gerar ou baixar PDF. Tente novamente.");
+        throw new LocalizedError('trackingDisplay.pdfFailed');
       }
     }
   }));
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildTrackingUrl(trackingInfo.id));
+      setLinkCopyState('copied');
+    } catch (error) {
+      console.error('Falha ao copiar o link:', error);
+      setLinkCopyState('failed');
+    }
+    setTimeout(() => setLinkCopyState('idle'), 2000);
+  };
+
+  const providerName = trackingInfo.providerName || 'SSW';
+  const canonicalStatus = trackingInfo.canonicalStatus || deriveShipmentStatus(trackingInfo.events);
   const baseClasses = "mt-8 p-6 bg-slate-800 rounded-xl shadow-2xl transition-all duration-500 ease-out";
   const animationClasses = isVisible 
     ? 'opacity-100 translate-y-0' 
@@ -191,35 +373,85 @@ const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(
   return (
     <div ref={displayRef} className={`${baseClasses} ${animationClasses}`}>
       <div className="flex justify-between items-start mb-6">
-        <h2 className="text-2xl font-bold text-sky-400">Detalhes do Rastreio para {trackingInfo.id}</h2>
+        <h2 className="text-2xl font-bold text-sky-400">{t('trackingDisplay.title', { id: trackingInfo.id })}</h2>
+        <div className="ml-4 flex shrink-0 flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={handleCopyLink}
+            className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-slate-700 text-sky-300 hover:bg-slate-600 transition-colors"
+          >
+            {linkCopyState === 'copied'
+              ? t('trackingDisplay.linkCopied')
+              : linkCopyState === 'failed' ? t('trackingDisplay.copyLinkFailed') : t('trackingDisplay.copyLink')}
+          </button>
+          {onToggleWatch && (
+            <button
+              type="button"
+              onClick={onToggleWatch}
+              className={`px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors ${
+                isWatched ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'bg-slate-700 text-sky-300 hover:bg-slate-600'
+              }`}
+              aria-pressed={isWatched}
+            >
+              {isWatched ? t('trackingDisplay.watching') : t('trackingDisplay.watch')}
+            </button>
+          )}
+        </div>
       </div>
 
-      {geminiSummary && (
+      {trackingInfo.events.length > 0 && <StatusStepper status={canonicalStatus} events={trackingInfo.events} />}
+
+      <DeliveryRiskBanner assessment={assessDeliveryRisk(trackingInfo)} />
+
+      {trackingInfo.dataWarnings && <DataWarningsPanel warnings={trackingInfo.dataWarnings} providerName={providerName} />}
+
+      {summary && (
         <div className="mb-6 p-4 bg-sky-800/50 border border-sky-700 rounded-lg shadow-lg">
-          <h3 className="text-xl font-semibold text-sky-300 mb-2">Resumo da IA ✨</h3>
-          <p className="text-slate-200 whitespace-pre-wrap">{geminiSummary}</p>
+          <h3 className="text-xl font-semibold text-sky-300 mb-2">{summary.generatedByAi ? t('summary.titleAi') : t('summary.title')}</h3>
+          <p className="text-slate-200 whitespace-pre-wrap">{summary.text}</p>
+          <p className="mt-2 text-xs text-slate-400">
+            {t('summary.generatedBy', { name: summary.summarizerName })}
+            {summary.fallbackReason && <span className="block text-amber-300/80">{summary.fallbackReason}</span>}
+          </p>
         </div>
       )}
 
+      {summary && <TrackingChatPanel trackingInfo={trackingInfo} />}
+
+      {analysis && <ShipmentAnalysisPanel result={analysis} />}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-        <InfoPill label="Status Atual (SSW)" value={trackingInfo.currentStatus} />
-        <InfoPill label="Transportadora" value={trackingInfo.carrier} />
-        <InfoPill label="Prev. Entrega (SSW)" value={trackingInfo.estimatedDelivery} />
-        <InfoPill label="Origem" value={trackingInfo.origin} />
-        <InfoPill label="Destino" value={trackingInfo.destination} />
-        {trackingInfo.productName && <InfoPill label="Produto/NF" value={trackingInfo.productName} />}
-        {trackingInfo.weight && <InfoPill label="Peso (SSW)" value={trackingInfo.weight} />}
+        <InfoPill label={t('trackingDisplay.providerStatus', { provider: providerName })} value={formatCurrentStatus(trackingInfo)} />
+        <InfoPill label={t('fields.carrier')} value={trackingInfo.carrier} />
+        <InfoPill label={t('trackingDisplay.providerEstimatedDelivery', { provider: providerName })} value={formatEstimatedDelivery(trackingInfo)} />
+        <InfoPill label={t('fields.origin')} value={trackingInfo.origin || t('common.notInformed')} />
+        <InfoPill label={t('fields.destination')} value={trackingInfo.destination || t('common.notInformed')} />
+        {trackingInfo.nfNumber && <InfoPill label={t('fields.nf')} value={trackingInfo.nfNumber} />}
+        {trackingInfo.weight && <InfoPill label={t('trackingDisplay.providerWeight', { provider: providerName })} value={trackingInfo.weight} />}
       </div>
       
+      <ExportButtons trackingInfos={[trackingInfo]} fileBaseName={getReportFileName(trackingInfo).replace(/\.pdf$/, '')} className="mb-6" />
+
+      <AccessKeyDetails accessKey={trackingInfo.id} />
+
+      {onUploadXml && <MissingXmlNotice trackingInfo={trackingInfo} onUploadXml={onUploadXml} />}
+
       {/* Display XML Specific Data if available */}
-      {trackingInfo.xmlVolumeInfo && <XmlVolumeDetails volumeInfo={trackingInfo.xmlVolumeInfo} />}
+      {(trackingInfo.xmlEmitter || trackingInfo.xmlRecipient) && (
+        <XmlPartiesDetails emitter={trackingInfo.xmlEmitter} recipient={trackingInfo.xmlRecipient} />
+      )}
+      {trackingInfo.xmlItems && trackingInfo.xmlItems.length > 0 && <XmlItemsDetails items={trackingInfo.xmlItems} />}
+      {trackingInfo.xmlVolumes && <XmlVolumeDetails volumes={trackingInfo.xmlVolumes} />}
       {trackingInfo.xmlInvoiceInfo && <XmlInvoiceDetails invoiceInfo={trackingInfo.xmlInvoiceInfo} />}
       {trackingInfo.xmlInstallments && trackingInfo.xmlInstallments.length > 0 && (
         <XmlInstallmentsDetails installments={trackingInfo.xmlInstallments} />
       )}
+      {trackingInfo.xmlCteInfo && <XmlCteDetails cteInfo={trackingInfo.xmlCteInfo} />}
+
 
+      <TransitTimeline events={trackingInfo.events} />
 
-      <h3 className="text-xl font-semibold text-sky-300 mb-4 mt-8">Histórico de Rastreio (SSW)</h3>
+      <h3 className="text-xl font-semibold text-sky-300 mb-4 mt-8">{t('trackingDisplay.history', { provider: providerName })}</h3>
       {trackingInfo.events.length > 0 ? (
         <ol className="relative">
           {trackingInfo.events.map((event, index) => (
@@ -227,7 +459,7 @@ const TrackingDisplay = forwardRef<TrackingDisplayHandle, TrackingDisplayProps>(
           ))}
         </ol>
       ) : (
-        <p className="text-slate-400">Nenhum evento de rastreamento SSW disponível.</p>
+        <p className="text-slate-400">{t('trackingDisplay.noEvents', { provider: providerName })}</p>
       )}
     </div>
   );
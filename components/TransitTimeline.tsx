@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import type { TrackingEvent } from '../types';
+import { analyzeTransit, IDLE_GAP_MS, TransitLeg } from '../utils/transitAnalytics';
+import { getEventShipmentStatus } from '../utils/shipmentStatus';
+import { STATUS_STYLES } from './StatusBadge';
+import { formatDuration, formatEventLocation, formatEventStatus } from '../utils/formatters';
+import { getIntlLocale, t, tp } from '../i18n/i18n';
+
+// SVG user units; the chart scales to the width of the panel
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 56;
+const CHART_PADDING = 10;
+const LINE_Y = 36;
+
+const formatShortTimestamp = (isoString: string): string =>
+  new Date(isoString).toLocaleString(getIntlLocale(), { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Horizontal timeline: one segment per leg, idle gaps in amber, the ongoing stay dashed
+const TimelineChart: React.FC<{ legs: TransitLeg[]; events: TrackingEvent[] }> = ({ legs, events }) => {
+  const startTime = new Date(events[0].timestamp).getTime();
+  const endTime = legs.length > 0 ? new Date(legs[legs.length - 1].endedAt).getTime() : startTime;
+  const span = endTime - startTime;
+  const toX = (isoString: string): number =>
+    span > 0
+      ? CHART_PADDING + ((new Date(isoString).getTime() - startTime) / span) * (CHART_WIDTH - 2 * CHART_PADDING)
+      : CHART_WIDTH / 2;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={t('transit.chartLabel')}>
+        {legs.map((leg, index) => {
+          const x1 = toX(leg.startedAt);
+          const x2 = toX(leg.endedAt);
+          return (
+            <g key={index}>
+              <line
+                x1={x1}
+                x2={x2}
+                y1={LINE_Y}
+                y2={LINE_Y}
+                strokeWidth={leg.isIdleGap ? 6 : 3}
+                strokeDasharray={leg.to ? undefined : '6 4'}
+                className={leg.isIdleGap ? 'stroke-amber-500' : 'stroke-sky-600'}
+              >
+                <title>{`${leg.location}: ${formatDuration(leg.durationMs)}`}</title>
+              </line>
+              {leg.isIdleGap && (
+                <text x={(x1 + x2) / 2} y={LINE_Y - 14} textAnchor="middle" fontSize={12} className="fill-amber-300">
+                  {formatDuration(leg.durationMs)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+        {events.map((event, index) => (
+          <circle
+            key={index}
+            cx={toX(event.timestamp)}
+            cy={LINE_Y}
+            r={5}
+            // Same colors as the dots of the event list
+            className={`${STATUS_STYLES[getEventShipmentStatus(event)].dotClassName.replace('bg-', 'fill-')} stroke-slate-800`}
+            strokeWidth={2}
+          >
+            <title>{`${formatEventStatus(event)} · ${formatEventLocation(event)} · ${formatShortTimestamp(event.timestamp)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>{formatShortTimestamp(events[0].timestamp)}</span>
+        {legs.length > 0 && (
+          <span>{legs[legs.length - 1].to ? formatShortTimestamp(legs[legs.length - 1].endedAt) : t('transit.now')}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Dwell times between events and per location, computed from the dated events only
+export const TransitTimeline: React.FC<{ events: TrackingEvent[] }> = ({ events }) => {
+  const [showLegs, setShowLegs] = useState<boolean>(false);
+  const analytics = analyzeTransit(events);
+  const { legs, locations, idleGaps, excludedEvents } = analytics;
+  if (legs.length === 0 && excludedEvents.length === 0) return null;
+
+  const datedEvents = legs.length > 0 ? [legs[0].from, ...legs.flatMap(leg => (leg.to ? [leg.to] : []))] : [];
+  const longestDwell = locations[0]?.durationMs || 0;
+
+  return (
+    <div className="mt-8 mb-6 p-4 bg-slate-900/40 rounded-lg">
+      <h3 className="text-xl font-semibold text-sky-300 mb-3">{t('transit.title')}</h3>
+
+      {legs.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4 text-sm">
+            {analytics.totalElapsedMs !== undefined && (
+              <span className="px-3 py-1 rounded-full bg-slate-700 text-slate-200">
+                {t(analytics.isDelivered ? 'transit.totalDelivered' : 'transit.totalInTransit', { duration: formatDuration(analytics.totalElapsedMs) })}
+              </span>
+            )}
+            <span className={`px-3 py-1 rounded-full ${idleGaps.length > 0 ? 'bg-amber-500/30 text-amber-200' : 'bg-slate-700 text-slate-300'}`}>
+              {idleGaps.length > 0 ? tp('transit.idleGaps', idleGaps.length, { duration: formatDuration(IDLE_GAP_MS) }) : t('transit.noIdleGaps')}
+            </span>
+          </div>
+
+          <TimelineChart legs={legs} events={datedEvents} />
+
+          {idleGaps.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-amber-200">
+              {idleGaps.map((gap, index) => (
+                <li key={index}>
+                  {t(gap.to ? 'transit.idleGap' : 'transit.idleGapOngoing', {
+                    duration: formatDuration(gap.durationMs),
+                    location: gap.location,
+                    start: formatShortTimestamp(gap.startedAt),
+                    end: formatShortTimestamp(gap.endedAt),
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 className="text-sm font-semibold text-slate-300 mt-4 mb-2">{t('transit.byLocation')}</h4>
+          <ul className="space-y-1.5">
+            {locations.map(dwell => (
+              <li key={dwell.location} className="text-sm">
+                <div className="flex justify-between gap-3">
+                  <span className="text-slate-200 truncate">
+                    {dwell.location}
+                    {dwell.stayCount > 1 && <span className="text-slate-400"> · {tp('transit.stays', dwell.stayCount)}</span>}
+                    {dwell.isCurrent && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-sky-600/40 text-sky-200">{t('transit.current')}</span>}
+                  </span>
+                  <span className="text-slate-300 whitespace-nowrap">{formatDuration(dwell.durationMs)}</span>
+                </div>
+                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-sky-500 rounded-full"
+                    style={{ width: `${longestDwell > 0 ? Math.max(2, (dwell.durationMs / longestDwell) * 100) : 0}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            onClick={() => setShowLegs(!showLegs)}
+            className="mt-4 text-sm text-sky-300 hover:text-sky-200"
+            aria-expanded={showLegs}
+          >
+            {showLegs ? t('transit.hideLegs') : tp('transit.showLegs', legs.length)}
+          </button>
+          {showLegs && (
+            <div className="mt-2 overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th className="py-2 pr-3 font-medium">{t('transit.legFrom')}</th>
+                    <th className="py-2 px-3 font-medium">{t('transit.legTo')}</th>
+                    <th className="py-2 px-3 font-medium">{t('fields.location')}</th>
+                    <th className="py-2 pl-3 font-medium text-right">{t('transit.legDuration')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {legs.map((leg, index) => (
+                    <tr key={index} className={`border-b border-slate-700/50 ${leg.isIdleGap ? 'bg-amber-500/10' : ''}`}>
+                      <td className="py-2 pr-3 text-slate-200">
+                        {formatEventStatus(leg.from)}
+                        <span className="block text-xs text-slate-400">{formatShortTimestamp(leg.startedAt)}</span>
+                      </td>
+                      <td className="py-2 px-3 text-slate-200">
+                        {leg.to ? formatEventStatus(leg.to) : t('transit.now')}
+                        {leg.to && <span className="block text-xs text-slate-400">{formatShortTimestamp(leg.endedAt)}</span>}
+                      </td>
+                      <td className="py-2 px-3 text-slate-300">{leg.location}</td>
+                      <td className={`py-2 pl-3 text-right whitespace-nowrap ${leg.isIdleGap ? 'text-amber-300 font-semibold' : 'text-slate-200'}`}>
+                        {formatDuration(leg.durationMs)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {excludedEvents.length > 0 && (
+        <div className="mt-4 p-3 border border-amber-500/40 bg-amber-500/5 rounded-lg text-sm">
+          <p className="text-amber-200">{tp('transit.excludedEvents', excludedEvents.length)}</p>
+          <ul className="mt-1 list-disc list-inside text-slate-300">
+            {excludedEvents.map((event, index) => (
+              <li key={index}>{formatEventStatus(event)}{event.location && ` · ${event.location}`}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import type { WatchlistState } from '../hooks/useWatchlist';
+import type { WatchlistEntry } from '../services/watchlistService';
+import { ExportButtons } from './ExportButtons';
+import { formatCurrentStatus } from '../utils/formatters';
+import { getIntlLocale, t, tp, translateMessage } from '../i18n/i18n';
+
+interface WatchlistPanelProps {
+  watchlist: WatchlistState;
+  selectedId: string | null;
+  onOpenEntry: (entry: WatchlistEntry) => void;
+}
+
+const POLL_INTERVAL_OPTIONS = [5, 15, 30, 60, 120];
+
+const formatDateTime = (isoString?: string): string => {
+  if (!isoString) return t('watchlist.never');
+  return new Date(isoString).toLocaleString(getIntlLocale(), { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+const WatchlistRow: React.FC<{
+  entry: WatchlistEntry;
+  isSelected: boolean;
+  onOpen: () => void;
+  onRemove: () => void;
+}> = ({ entry, isSelected, onOpen, onRemove }) => {
+  const hasChanges = entry.newEventCount > 0;
+  return (
+    <li
+      className={`flex items-start justify-between gap-3 p-3 rounded-lg transition-colors ${
+        hasChanges ? 'bg-amber-500/10 border border-amber-500/60' : 'bg-slate-700/50 border border-transparent'
+      } ${isSelected ? 'ring-2 ring-sky-500' : ''}`}
+    >
+      <button type="button" onClick={onOpen} className="flex-grow text-left">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-slate-100">{entry.trackingInfo.nfNumber ? `${t('fields.nf')} ${entry.trackingInfo.nfNumber}` : entry.id}</span>
+          {hasChanges && (
+            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-500 text-slate-900">
+              {tp('watchlist.newEvents', entry.newEventCount)}
+            </span>
+          )}
+          {entry.deliveredAt && !entry.archivedAt && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-green-600/40 text-green-200">{t('watchlist.delivered')}</span>
+          )}
+        </div>
+        <p className="text-sm text-slate-300">{entry.trackingInfo.carrier} · {formatCurrentStatus(entry.trackingInfo)}</p>
+        <p className="text-xs text-slate-400">
+          {t('watchlist.updatedAt', { date: formatDateTime(entry.lastCheckedAt) })}
+          {entry.lastError && (
+            <span className="text-red-300"> · {typeof entry.lastError === 'string' ? entry.lastError : translateMessage(entry.lastError)}</span>
+          )}
+        </p>
+      </button>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="text-xs text-slate-400 hover:text-red-300"
+        aria-label={t('watchlist.removeLabel', { id: entry.id })}
+      >
+        {t('watchlist.remove')}
+      </button>
+    </li>
+  );
+};
+
+export const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ watchlist, selectedId, onOpenEntry }) => {
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const { entries, settings, isRefreshing, storageError } = watchlist;
+
+  if (entries.length === 0 && !storageError) return null;
+
+  const activeEntries = entries.filter(entry => !entry.archivedAt);
+  const archivedEntries = entries.filter(entry => entry.archivedAt);
+
+  return (
+    <div className="mt-8 p-6 bg-slate-800 rounded-xl shadow-2xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t('watchlist.title')}</h2>
+        <div className="flex flex-wrap items-start gap-2">
+          <ExportButtons trackingInfos={activeEntries.map(entry => entry.trackingInfo)} fileBaseName="rastreios-acompanhados" />
+          <button
+            type="button"
+            onClick={watchlist.refreshAll}
+            disabled={isRefreshing || activeEntries.length === 0}
+            className="px-3 py-1.5 text-sm bg-sky-700 hover:bg-sky-600 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRefreshing ? t('watchlist.refreshing') : t('watchlist.refreshNow')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          {t('watchlist.pollEvery')}
+          <select
+            value={settings.pollIntervalMinutes}
+            onChange={(e) => watchlist.updateSettings({ ...settings, pollIntervalMinutes: parseInt(e.target.value, 10) })}
+            className="p-1 bg-slate-700 border border-slate-600 rounded text-slate-100"
+          >
+            {POLL_INTERVAL_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{t('watchlist.minutes', { count: minutes })}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('watchlist.archiveAfter')}
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={settings.archiveAfterDays}
+            onChange={(e) => {
+              const days = parseInt(e.target.value, 10);
+              if (!isNaN(days) && days > 0) watchlist.updateSettings({ ...settings, archiveAfterDays: days });
+            }}
+            className="w-16 p-1 bg-slate-700 border border-slate-600 rounded text-slate-100"
+          />
+          {t('watchlist.days')}
+        </label>
+      </div>
+
+      {storageError && <p className="mb-3 text-sm text-red-300">{t(storageError)}</p>}
+
+      {activeEntries.length > 0 ? (
+        <ul className="space-y-2">
+          {activeEntries.map(entry => (
+            <WatchlistRow
+              key={entry.id}
+              entry={entry}
+              isSelected={entry.id === selectedId}
+              onOpen={() => onOpenEntry(entry)}
+              onRemove={() => watchlist.removeEntry(entry.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-400">{t('watchlist.empty')}</p>
+      )}
+
+      {archivedEntries.length > 0 && (
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-sm text-sky-300 hover:text-sky-200"
+          >
+            {t(showArchived ? 'watchlist.hideArchived' : 'watchlist.showArchived', { count: archivedEntries.length })}
+          </button>
+          {showArchived && (
+            <ul className="space-y-2 mt-2 opacity-75">
+              {archivedEntries.map(entry => (
+                <WatchlistRow
+                  key={entry.id}
+                  entry={entry}
+                  isSelected={entry.id === selectedId}
+                  onOpen={() => onOpenEntry(entry)}
+                  onRemove={() => watchlist.removeEntry(entry.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
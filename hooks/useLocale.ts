@@ -0,0 +1,6 @@
+// hooks/useLocale.ts
+import { useSyncExternalStore } from 'react';
+import { Locale, getLocale, subscribeToLocale } from '../i18n/i18n';
+
+// Current locale; re-renders the component when the user switches language
+export const useLocale = (): Locale => useSyncExternalStore(subscribeToLocale, getLocale, getLocale);
@@ -0,0 +1,80 @@
+// hooks/useTrackingChat.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TrackingChatMessage, TrackingInfo } from '../types';
+import { isTrackingChatAvailable, streamTrackingChatAnswer } from '../services/chat/trackingChat';
+import type { LocalizedMessage } from '../i18n/i18n';
+import { toLocalizedMessage } from '../i18n/localizedError';
+
+export interface TrackingChatState {
+  isAvailable: boolean;
+  messages: TrackingChatMessage[];
+  streamingAnswer: string | null; // Partial answer while the model is still writing
+  isAnswering: boolean;
+  error: LocalizedMessage | null;
+  askQuestion: (question: string) => Promise<boolean>; // False when the question was not answered
+  clearConversation: () => void;
+}
+
+export const useTrackingChat = (trackingInfo: TrackingInfo): TrackingChatState => {
+  const [messages, setMessages] = useState<TrackingChatMessage[]>([]);
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null);
+  const [isAnswering, setIsAnswering] = useState<boolean>(false);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  // Bumped whenever the conversation is discarded, so answers still streaming for it are ignored
+  const conversationIdRef = useRef<number>(0);
+
+  const clearConversation = useCallback(() => {
+    conversationIdRef.current += 1;
+    setMessages([]);
+    setStreamingAnswer(null);
+    setIsAnswering(false);
+    setError(null);
+  }, []);
+
+  // A new shipment starts a new conversation
+  useEffect(() => {
+    clearConversation();
+  }, [trackingInfo.id, clearConversation]);
+
+  const askQuestion = useCallback(async (question: string) => {
+    const trimmedQuestion = question.trim();
+    if (!trimmedQuestion || isAnswering) return false;
+
+    const conversationId = conversationIdRef.current;
+    const history = messages;
+    setMessages([...history, { role: 'user', text: trimmedQuestion }]);
+    setIsAnswering(true);
+    setStreamingAnswer('');
+    setError(null);
+
+    try {
+      const answer = await streamTrackingChatAnswer(trackingInfo, history, trimmedQuestion, answerSoFar => {
+        if (conversationIdRef.current === conversationId) setStreamingAnswer(answerSoFar);
+      });
+      if (conversationIdRef.current !== conversationId) return false;
+      setMessages(prevMessages => [...prevMessages, { role: 'assistant', text: answer }]);
+      return true;
+    } catch (chatError) {
+      if (conversationIdRef.current !== conversationId) return false;
+      // The unanswered question is removed so the next one is not sent after it
+      setMessages(history);
+      setError(toLocalizedMessage(chatError, { code: 'chat.errors.noAnswer' }));
+      return false;
+    } finally {
+      if (conversationIdRef.current === conversationId) {
+        setStreamingAnswer(null);
+        setIsAnswering(false);
+      }
+    }
+  }, [trackingInfo, messages, isAnswering]);
+
+  return {
+    isAvailable: isTrackingChatAvailable(),
+    messages,
+    streamingAnswer,
+    isAnswering,
+    error,
+    askQuestion,
+    clearConversation,
+  };
+};
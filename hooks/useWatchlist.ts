@@ -0,0 +1,143 @@
+// hooks/useWatchlist.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TrackingInfo } from '../types';
+import type { MessageKey } from '../i18n/i18n';
+import type { ParsedXmlData } from '../utils/xmlParser';
+import { runWithConcurrency } from '../utils/concurrency';
+import {
+  WatchlistEntry,
+  WatchlistSettings,
+  applyTrackingUpdate,
+  createWatchlistEntry,
+  loadWatchlist,
+  loadWatchlistSettings,
+  refreshWatchlistEntry,
+  removeWatchlistEntry,
+  saveWatchlistEntry,
+  saveWatchlistSettings,
+  shouldAutoArchive,
+} from '../services/watchlistService';
+
+// Re-polls run a couple of entries at a time to avoid hammering the carrier API
+const REFRESH_CONCURRENCY = 2;
+
+export interface WatchlistState {
+  entries: WatchlistEntry[];
+  settings: WatchlistSettings;
+  isRefreshing: boolean;
+  storageError: MessageKey | null;
+  isWatched: (id: string) => boolean;
+  addEntry: (trackingInfo: TrackingInfo, xmlData?: ParsedXmlData) => Promise<void>;
+  removeEntry: (id: string) => Promise<void>;
+  markViewed: (id: string) => Promise<void>;
+  updateFromLookup: (trackingInfo: TrackingInfo, xmlData?: ParsedXmlData) => Promise<void>;
+  refreshAll: () => Promise<void>;
+  updateSettings: (settings: WatchlistSettings) => void;
+}
+
+export const useWatchlist = (): WatchlistState => {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [settings, setSettings] = useState<WatchlistSettings>(loadWatchlistSettings);
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const [storageError, setStorageError] = useState<MessageKey | null>(null);
+
+  // The polling timer reads the latest values through refs so it does not restart on every change
+  const entriesRef = useRef<WatchlistEntry[]>(entries);
+  const settingsRef = useRef<WatchlistSettings>(settings);
+  entriesRef.current = entries;
+  settingsRef.current = settings;
+
+  const persistEntry = useCallback(async (entry: WatchlistEntry) => {
+    setEntries(prevEntries => {
+      const exists = prevEntries.some(e => e.id === entry.id);
+      return exists ? prevEntries.map(e => (e.id === entry.id ? entry : e)) : [entry, ...prevEntries];
+    });
+    try {
+      await saveWatchlistEntry(entry);
+    } catch (error) {
+      console.error("Falha ao salvar o acompanhamento:", error);
+      setStorageError('watchlist.errors.save');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatchlist()
+      .then(async loadedEntries => {
+        const now = new Date();
+        const checkedEntries = loadedEntries.map(entry =>
+          shouldAutoArchive(entry, settingsRef.current.archiveAfterDays, now) ? { ...entry, archivedAt: now.toISOString() } : entry
+        );
+        setEntries(checkedEntries);
+        await Promise.all(checkedEntries.filter((entry, index) => entry !== loadedEntries[index]).map(saveWatchlistEntry));
+      })
+      .catch(error => {
+        console.error("Falha ao carregar o acompanhamento:", error);
+        setStorageError('watchlist.errors.load');
+      });
+  }, []);
+
+  const refreshAll = useCallback(async () => {
+    const activeEntries = entriesRef.current.filter(entry => !entry.archivedAt);
+    if (activeEntries.length === 0) return;
+    setIsRefreshing(true);
+    await runWithConcurrency(activeEntries, REFRESH_CONCURRENCY, async entry => {
+      const updated = await refreshWatchlistEntry(entry, settingsRef.current);
+      setEntries(prevEntries => prevEntries.map(e => (e.id === updated.id ? updated : e)));
+    });
+    setIsRefreshing(false);
+  }, []);
+
+  useEffect(() => {
+    const intervalId = setInterval(refreshAll, settings.pollIntervalMinutes * 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [settings.pollIntervalMinutes, refreshAll]);
+
+  const isWatched = useCallback((id: string) => entries.some(entry => entry.id === id), [entries]);
+
+  const addEntry = useCallback(async (trackingInfo: TrackingInfo, xmlData?: ParsedXmlData) => {
+    await persistEntry(createWatchlistEntry(trackingInfo, xmlData));
+  }, [persistEntry]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    setEntries(prevEntries => prevEntries.filter(entry => entry.id !== id));
+    try {
+      await removeWatchlistEntry(id);
+    } catch (error) {
+      console.error("Falha ao remover do acompanhamento:", error);
+      setStorageError('watchlist.errors.remove');
+    }
+  }, []);
+
+  const markViewed = useCallback(async (id: string) => {
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!entry) return;
+    await persistEntry({ ...entry, newEventCount: 0, lastViewedAt: new Date().toISOString() });
+  }, [persistEntry]);
+
+  // A manual lookup of a watched shipment counts as a re-poll that the user has already seen
+  const updateFromLookup = useCallback(async (trackingInfo: TrackingInfo, xmlData?: ParsedXmlData) => {
+    const entry = entriesRef.current.find(e => e.id === trackingInfo.id);
+    if (!entry) return;
+    const updated = applyTrackingUpdate({ ...entry, xmlData: xmlData || entry.xmlData }, trackingInfo);
+    await persistEntry({ ...updated, newEventCount: 0, lastViewedAt: new Date().toISOString() });
+  }, [persistEntry]);
+
+  const updateSettings = useCallback((newSettings: WatchlistSettings) => {
+    setSettings(newSettings);
+    saveWatchlistSettings(newSettings);
+  }, []);
+
+  return {
+    entries,
+    settings,
+    isRefreshing,
+    storageError,
+    isWatched,
+    addEntry,
+    removeEntry,
+    markViewed,
+    updateFromLookup,
+    refreshAll,
+    updateSettings,
+  };
+};
@@ -0,0 +1,114 @@
+// i18n/i18n.ts
+import { ptBR, MessageKey } from './messages/ptBR';
+import { en } from './messages/en';
+import { es } from './messages/es';
+
+export type { MessageKey };
+
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+export const SUPPORTED_LOCALES: readonly Locale[] = ['pt-BR', 'en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Shown in the language switch, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'pt-BR': 'Português',
+  en: 'English',
+  es: 'Español',
+};
+
+// Locale passed to Intl / toLocaleString for dates and numbers
+const INTL_LOCALES: Record<Locale, string> = {
+  'pt-BR': 'pt-BR',
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en, es };
+
+const STORAGE_KEY = 'locale';
+
+// A parameter is either plain text/number or another message, translated in the same locale
+export type MessageParam = string | number | LocalizedMessage;
+export type MessageParams = Record<string, MessageParam>;
+
+// Message kept as code + params (e.g. in state or error objects), so it is translated when displayed
+export interface LocalizedMessage {
+  code: MessageKey;
+  params?: MessageParams;
+}
+
+export const isSupportedLocale = (value: unknown): value is Locale => SUPPORTED_LOCALES.includes(value as Locale);
+
+// Own keys only: "toString", "constructor" and other inherited names are not messages
+export const isMessageKey = (value: unknown): value is MessageKey =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ptBR, value);
+
+// The stored choice wins; otherwise the browser language picks the closest supported locale
+const detectLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE; // Tracking proxy (Node)
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isSupportedLocale(stored)) return stored;
+  } catch (e) { /* Storage disabled; fall back to the browser language */ }
+  for (const language of navigator.languages || [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (isSupportedLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getIntlLocale = (locale: Locale = currentLocale): string => INTL_LOCALES[locale];
+
+export const setLocale = (locale: Locale): void => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("Falha ao salvar o idioma escolhido.", e);
+  }
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale][key] ?? ptBR[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'object' ? translate(locale, value.code, value.params) : String(value);
+  });
+};
+
+// Translates into the current locale
+export const t = (key: MessageKey, params?: MessageParams): string => translate(currentLocale, key, params);
+
+export const translateMessage = (message: LocalizedMessage, locale: Locale = currentLocale): string =>
+  translate(locale, message.code, message.params);
+
+// Keys with ".one" / ".other" variants, e.g. "common.days"
+type PluralBaseKey = { [K in MessageKey]: K extends `${infer Base}.one` ? Base : never }[MessageKey];
+
+// pt-BR, en and es all use the singular for exactly 1, so the variant does not depend on the locale
+export const plural = (baseKey: PluralBaseKey, count: number, params?: MessageParams): LocalizedMessage => ({
+  code: `${baseKey}.${count === 1 ? 'one' : 'other'}` as MessageKey,
+  params: { count, ...params },
+});
+
+export const tp = (baseKey: PluralBaseKey, count: number, params?: MessageParams): string => translateMessage(plural(baseKey, count, params));
+
+if (typeof document !== 'undefined') document.documentElement.lang = currentLocale;
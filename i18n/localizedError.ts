@@ -0,0 +1,26 @@
+// i18n/localizedError.ts
+import { LocalizedMessage, MessageKey, MessageParams, t } from './i18n';
+
+// Error with a message code. `message` holds the text in the locale active when it was thrown (for logs);
+// the UI translates code + params again, so it follows later language changes.
+export class LocalizedError extends Error {
+  readonly code: MessageKey;
+  readonly params?: MessageParams;
+
+  constructor(code: MessageKey, params?: MessageParams) {
+    super(t(code, params));
+    this.name = 'LocalizedError';
+    this.code = code;
+    this.params = params;
+  }
+
+  toMessage(): LocalizedMessage {
+    return { code: this.code, params: this.params };
+  }
+}
+
+export const isLocalizedError = (error: unknown): error is LocalizedError => error instanceof LocalizedError;
+
+// Code + params of a LocalizedError; anything else is reported with the fallback message
+export const toLocalizedMessage = (error: unknown, fallback: LocalizedMessage): LocalizedMessage =>
+  isLocalizedError(error) ? error.toMessage() : fallback;
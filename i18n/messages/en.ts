@@ -0,0 +1,576 @@
+// i18n/messages/en.ts
+import type { MessageKey } from './ptBR';
+
+export const en: Record<MessageKey, string> = {
+  // Shared
+  'common.notAvailable': 'N/A',
+  'common.unavailable': 'Not available',
+  'common.unknownError': 'Unknown error',
+  'common.unknownLocation': 'Location not provided',
+  'common.notInformed': 'Not provided',
+  'common.unknownStatus': 'Occurrence not provided',
+  'common.noTrackingEvents': 'No tracking events found.',
+  'common.days.one': '{count} day',
+  'common.days.other': '{count} days',
+  'common.items.one': '{count} item',
+  'common.items.other': '{count} items',
+
+  // Field labels shared by the screen, the PDF report and the spreadsheets
+  'fields.accessKey': 'Access Key',
+  'fields.nf': 'Invoice',
+  'fields.carrier': 'Carrier',
+  'fields.currentStatus': 'Current Status',
+  'fields.classification': 'Classification',
+  'fields.estimatedDelivery': 'Estimated Delivery',
+  'fields.deadlineStatus': 'Deadline Status',
+  'fields.origin': 'Origin',
+  'fields.destination': 'Destination',
+  'fields.emitter': 'Issuer',
+  'fields.recipient': 'Recipient',
+  'fields.code': 'Code',
+  'fields.description': 'Description',
+  'fields.ncm': 'NCM',
+  'fields.cfop': 'CFOP',
+  'fields.quantityShort': 'Qty.',
+  'fields.unitShort': 'Unit',
+  'fields.unitPrice': 'Unit Price',
+  'fields.totalValue': 'Total Value',
+  'fields.species': 'Type',
+  'fields.brand': 'Brand',
+  'fields.numbering': 'Numbering',
+  'fields.netWeight': 'Net Weight',
+  'fields.grossWeight': 'Gross Weight',
+  'fields.seals': 'Seals',
+  'fields.originalValue': 'Original Value',
+  'fields.discount': 'Discount',
+  'fields.netValue': 'Net Value',
+  'fields.dueDate': 'Due Date',
+  'fields.value': 'Value',
+  'fields.dateTime': 'Date/Time',
+  'fields.occurrence': 'Occurrence',
+  'fields.location': 'Location',
+  'fields.details': 'Details',
+  'fields.total': 'Total',
+
+  // Formatters
+  'formatters.invalidDate': 'Invalid date',
+  'formatters.eventDateUnavailable': 'Event date not available',
+  'formatters.eventDateNotProvided': 'Event date not provided',
+  'formatters.duration.daysHours': '{days}d {hours}h',
+  'formatters.duration.hoursMinutes': '{hours}h {minutes}m',
+  'formatters.duration.minutes': '{minutes} min',
+
+  // Canonical shipment statuses
+  'shipmentStatus.emitted': 'Issued',
+  'shipmentStatus.collected': 'Picked up',
+  'shipmentStatus.in_transit': 'In transit',
+  'shipmentStatus.at_destination_hub': 'At destination hub',
+  'shipmentStatus.out_for_delivery': 'Out for delivery',
+  'shipmentStatus.delivered': 'Delivered',
+  'shipmentStatus.delivery_failed': 'Delivery failed',
+  'shipmentStatus.returned': 'Returned',
+  'shipmentStatus.exception': 'Exception',
+  'shipmentStatus.unknown': 'Unclassified',
+
+  // Delivery deadline assessment
+  'deliveryRisk.label.on_time': 'On time',
+  'deliveryRisk.label.at_risk': 'At risk of delay',
+  'deliveryRisk.label.late': 'Late',
+  'deliveryRisk.label.delivered_on_time': 'Delivered on time',
+  'deliveryRisk.label.delivered_late': 'Delivered late',
+  'deliveryRisk.label.unknown': 'Deadline unknown',
+  'deliveryRisk.late': '{duration} late compared to the estimated delivery.',
+  'deliveryRisk.deliveredLate': 'Delivered {duration} after the estimated date.',
+  'deliveryRisk.deliveredOnTime': 'Delivered within the estimated deadline.',
+  'deliveryRisk.problem': 'The latest occurrence indicates a problem that may delay the delivery.',
+  'deliveryRisk.stalled': 'No new movement for {duration}.',
+  'deliveryRisk.dueToday': 'Delivery is expected today and the goods are not out for delivery yet.',
+  'deliveryRisk.dueTomorrow': 'Delivery is expected tomorrow and the goods are not out for delivery yet.',
+  'deliveryRisk.onTimeDueToday': 'Delivery expected today.',
+  'deliveryRisk.onTime': 'On time: {duration} left until the estimated delivery.',
+  'deliveryRisk.unknown': 'There is no estimated delivery to assess the deadline.',
+
+  // App shell
+  'app.title': 'Track your Shipment',
+  'app.emptyState': 'Enter a DANFE Access Key or upload one or more NF-e XML files.',
+  'app.errors.emptyInput': 'Please enter a DANFE Access Key or select an XML file.',
+  'app.errors.xmlUnknown': 'Unknown error while processing the file.',
+  'app.pdf.noData': 'No tracking data to generate the PDF, or the display reference is missing.',
+  'app.pdf.failed': 'Failed to generate the PDF.',
+  'navbar.language': 'Language',
+  'loading.text': 'Loading...',
+
+  // Input form
+  'inputForm.accessKeyLabel': 'DANFE Access Key',
+  'inputForm.accessKeyPlaceholder': 'Enter the access key',
+  'inputForm.or': 'OR',
+  'inputForm.uploadLabel': 'Upload NF-e or CT-e XML File(s), or DANFE PDF',
+  'inputForm.selectFiles': 'Select files',
+  'inputForm.dragAndDrop': 'or drag and drop',
+  'inputForm.filesSelected': '{count} files selected (batch tracking).',
+  'inputForm.noFileSelected': 'No file selected. NF-e or CT-e XML, or DANFE PDF (one or several).',
+  'inputForm.processing': 'Processing...',
+  'inputForm.track': 'Track',
+  'inputForm.generatingPdf': 'Generating PDF...',
+  'inputForm.downloadPdf': 'Download Tracking PDF',
+  'inputForm.pdfFormat': 'PDF format',
+  'inputForm.pdfModeReport': 'A4 report (text)',
+  'inputForm.pdfModeScreenshot': 'Screenshot',
+  'inputForm.scan.image': 'Read barcode or QR code (photo)',
+  'inputForm.scan.camera': 'Scan with the camera',
+  'inputForm.scan.reading': 'Reading the code...',
+  'inputForm.scan.cameraHint': 'Point the camera at the DANFE barcode or QR code.',
+  'inputForm.scan.stop': 'Cancel scan',
+
+  // Error box, by TrackingErrorKind
+  'errorMessage.defaultTitle': 'An Error Occurred',
+  'errorMessage.retry': 'Try again',
+  'errorMessage.network.title': 'No connection to the tracking service',
+  'errorMessage.network.hint': 'Check your internet connection and try again.',
+  'errorMessage.blocked.title': 'Request blocked by the browser',
+  'errorMessage.blocked.hint': "The carrier's API may not accept requests made directly from the browser (CORS). Use the tracking proxy (TRACKING_MODE=proxy) to get around the block.",
+  'errorMessage.http.title': 'The carrier responded with an error',
+  'errorMessage.http.hint': 'The service may be unstable right now. Try again in a few minutes.',
+  'errorMessage.not_found.title': 'Tracking not found',
+  'errorMessage.not_found.hint': 'The carrier may not have registered this invoice yet. Check the access key or try again later.',
+  'errorMessage.malformed.title': 'Unexpected response from the carrier',
+  'errorMessage.malformed.hint': 'The data received is not in the expected format. If the problem persists, check the console for details.',
+  'errorMessage.timeout.title': 'The request took too long',
+  'errorMessage.timeout.hint': 'The tracking service did not respond in time. Try again.',
+
+  // Access key validation
+  'errors.accessKey.empty': 'Enter the access key.',
+  'errors.accessKey.nonDigits': 'The access key must contain digits only.',
+  'errors.accessKey.length': 'The access key must have {expected} digits (entered: {length}).',
+  'errors.accessKey.invalidUf': 'Invalid state (UF) code in the key: {ufCode}.',
+  'errors.accessKey.checkDigit': 'Invalid check digit (entered: {informed}, expected: {expected}). Check that the key was typed correctly.',
+
+  // XML files
+  'errors.xml.emptyFile': 'Failed to read the content of the XML file.',
+  'errors.xml.malformed': 'Invalid or malformed XML file. Check the browser console for more details.',
+  'errors.xml.documentNotFound': "Element 'infNFe' (NF-e) or 'infCte' (CT-e) not found in the XML. The information cannot be extracted.",
+  'errors.xml.invalidKeyFormat': 'Key found ("{keyStart}...") but it is not a valid access key (44 numeric digits).',
+  'errors.xml.keyNotFound': 'Access key (chNFe or NFe Id) not found in the XML. Check that the file is a valid NF-e XML and contains the key.',
+  'errors.xml.invalidKey': 'Invalid access key in the XML: {reason}',
+  'errors.xml.processing': 'Error while processing the XML file: {detail}',
+  'errors.xml.readFailed': 'Failed to read the XML file. Make sure the file is valid and try again.',
+  'errors.xml.keyMismatch': 'The uploaded XML does not belong to this invoice (expected key: {key}).',
+  'errors.cte.keyNotFound': 'CT-e key (chCTe or infCte Id) not found in the XML.',
+  'errors.cte.invalidKey': 'Invalid CT-e key: {reason}',
+  'errors.cte.noReferencedNfe': 'The CT-e does not reference any NF-e (infDoc > infNFe) to track.',
+  'errors.barcode.imageLoad': 'The image could not be opened. Use a JPG, PNG or WebP file.',
+  'errors.barcode.notFound': 'No readable barcode or QR code was found in the image. Try a sharper, well-lit photo showing the whole code.',
+  'errors.barcode.noAccessKey': 'The code that was read does not contain a 44-digit access key.',
+  'errors.barcode.camera': 'The camera could not be accessed. Check the browser permission.',
+  'errors.danfePdf.readFailed': 'The PDF could not be opened. Make sure the file is a valid PDF and is not password protected.',
+  'errors.danfePdf.noText': 'The PDF has no selectable text (it is probably a scan). Read the DANFE barcode or type the key.',
+  'errors.danfePdf.keyNotFound': 'Access key not found in the PDF. Make sure the file is the DANFE of an NF-e.',
+  'errors.danfePdf.invalidKey': 'Invalid access key in the PDF: {reason}',
+
+  // Tracking services
+  'services.trackingProxy': 'tracking proxy',
+  'services.llmServer': 'language model server',
+  'errors.tracking.blocked': 'The request to {service} was blocked by the browser. The API may not allow requests made directly from the browser (CORS).',
+  'errors.tracking.network': 'Could not connect to {service}. Check your connection.',
+  'errors.tracking.timeout': '{service} did not respond within {seconds} seconds.',
+  'errors.tracking.unexpected': 'An unexpected error occurred while fetching the tracking information. Check the console for details.',
+  'errors.tracking.proxyHttp': 'The tracking proxy responded with an error (Status: {status}).',
+  'errors.tracking.proxyMalformed': 'The tracking proxy returned a response in an unexpected format.',
+  'errors.tracking.providerMalformed': 'The response from {provider} is not in the expected format.',
+  'errors.ssw.http': 'The SSW API responded with an error (Status: {status}).',
+  'errors.ssw.httpWithMessage': 'The SSW API responded with an error (Status: {status}): {message}',
+  'errors.ssw.notFound': 'Tracking key not found or invalid at SSW.',
+  'errors.ssw.notFoundWithMessage': 'SSW did not find the tracking: {message}',
+  'errors.ssw.malformed': 'The SSW API returned a response in an unexpected format.',
+  'errors.proxy.routeNotFound': 'Route not found.',
+  'errors.proxy.methodNotAllowed': 'Method not allowed.',
+  'errors.proxy.rateLimited': 'Too many requests in a short time. Try again in {seconds} seconds.',
+  'errors.proxy.internal': 'Internal error in the tracking proxy.',
+  'errors.proxy.llmNotConfigured': 'The proxy has no language model server configured (OPENAI_BASE_URL and OPENAI_MODEL).',
+  'errors.proxy.invalidBody': 'Request body is invalid or too large.',
+
+  // Language models
+  'errors.gemini.invalidKey': 'Invalid Gemini API key. Please check your configuration.',
+  'errors.gemini.quota': 'Gemini API usage limit reached. Try again later.',
+  'errors.gemini.unexpected': 'Gemini did not respond as expected. (Detail: {detail})',
+  'errors.gemini.emptySummary': 'Received an empty summary from Gemini.',
+  'errors.gemini.emptyAnswer': 'Gemini did not return an answer.',
+  'errors.llm.http': 'The {service} responded with error {status}.',
+  'errors.llm.httpWithDetail': 'The {service} responded with error {status}: {detail}',
+  'errors.llm.emptySummary': 'Received an empty summary from the {service}.',
+  'errors.analysis.invalidJson': 'The analysis response is not valid JSON.',
+  'errors.analysis.notObject': 'The analysis response is not a JSON object.',
+  'errors.analysis.invalidRiskLevel': 'Invalid risk level in the analysis: {value}.',
+  'errors.analysis.problemsNotList': "Field 'problems' of the analysis is not a list.",
+  'errors.analysis.missingField': "Field '{field}' missing or empty in the analysis.",
+
+  // Summary
+  'summary.titleAi': 'AI Summary ✨',
+  'summary.title': 'Summary',
+  'summary.generatedBy': 'Generated by: {name}',
+  'summary.unavailable': '{name} unavailable: {detail}',
+  'summarizers.template.name': 'Automatic text (no AI)',
+  'summarizers.openai.genericName': 'OpenAI-compatible LLM',
+
+  // Offline template summary
+  'template.noEvents': '{carrier} has not recorded any movement for this shipment yet.',
+  'template.status.emitted': 'The shipment sent by {carrier} was issued and is waiting to be picked up by the carrier.',
+  'template.status.collected': 'The shipment sent by {carrier} was picked up by the carrier.',
+  'template.status.in_transit': 'The shipment sent by {carrier} is in transit.',
+  'template.status.at_destination_hub': 'The shipment sent by {carrier} arrived at the destination hub.',
+  'template.status.out_for_delivery': 'The shipment sent by {carrier} is out for delivery.',
+  'template.status.delivery_failed': 'The shipment sent by {carrier} had an unsuccessful delivery attempt.',
+  'template.status.returned': 'The shipment sent by {carrier} is being returned to the sender.',
+  'template.status.exception': 'The shipment sent by {carrier} had an occurrence recorded by the carrier.',
+  'template.status.unknown': 'The shipment sent by {carrier} has the status "{status}".',
+  'template.delivered': 'The shipment sent by {carrier} was delivered{place}{moment}.',
+  'template.atPlace': ' in {location}',
+  'template.onMoment': ', on {moment}',
+  'template.moment': '{date} at {time}',
+  'template.event': '"{status}"{place}{moment}',
+  'template.lastEvent': 'Last movement: {event}.',
+  'template.deadline': 'Estimated delivery: {date}. {assessment}',
+  'template.noDeadline': 'The carrier has not provided an estimated delivery date yet.',
+
+  // Shipment analysis
+  'analysis.titleAi': 'AI Analysis ✨',
+  'analysis.title': 'Shipment analysis',
+  'analysis.nextStep': 'Likely next step:',
+  'analysis.customerMessage': 'Suggested message for the customer',
+  'analysis.copy': 'Copy message',
+  'analysis.copied': 'Copied!',
+  'analysis.copyFailed': 'Copy failed',
+  'analysis.generatedBy': 'Generated by: {name}',
+  'analysis.rulesName': 'Automatic rules (no AI)',
+  'analysis.riskLevel.low': 'Low risk',
+  'analysis.riskLevel.medium': 'Medium risk',
+  'analysis.riskLevel.high': 'High risk',
+  'analysis.problemKind.failed_delivery_attempt': 'Delivery attempt',
+  'analysis.problemKind.address_issue': 'Address',
+  'analysis.problemKind.stuck_at_hub': 'Stuck at hub',
+  'analysis.problemKind.delayed': 'Delay',
+  'analysis.problemKind.returned': 'Return',
+  'analysis.problemKind.other': 'Other',
+  'analysis.rules.nextStep.emitted': 'Pickup of the goods by the carrier.',
+  'analysis.rules.nextStep.collected': 'Transfer to the destination hub.',
+  'analysis.rules.nextStep.in_transit': 'Arrival at the destination hub.',
+  'analysis.rules.nextStep.at_destination_hub': 'Departure for delivery to the recipient.',
+  'analysis.rules.nextStep.out_for_delivery': 'Delivery to the recipient.',
+  'analysis.rules.nextStep.delivered': 'None: the delivery is complete.',
+  'analysis.rules.nextStep.delivery_failed': 'A new delivery attempt, or the carrier contacting the recipient.',
+  'analysis.rules.nextStep.returned': 'Return of the goods to the sender.',
+  'analysis.rules.nextStep.exception': 'Contact the carrier to clarify the occurrence.',
+  'analysis.rules.nextStep.unknown': "Wait for the carrier's next update.",
+  'analysis.rules.addressIssue': 'Problem with the delivery address: "{status}".',
+  'analysis.rules.failedAttempts.one': 'Unsuccessful delivery attempt: "{status}".',
+  'analysis.rules.failedAttempts.other': '{count} unsuccessful delivery attempts; the latest: "{status}".',
+  'analysis.rules.returned': 'The goods are being returned to the sender.',
+  'analysis.rules.stuck': 'No movement in {location} for {duration}.',
+  'analysis.rules.customerMessage': 'Hello! {summary}',
+  'analysis.rules.followUp': 'We are following up with the carrier and will let you know as soon as there is news.',
+
+  // Q&A chat
+  'chat.unavailable': 'Questions about the shipment require Gemini: set GEMINI_API_KEY to enable the chat.',
+  'chat.title': 'Questions about the shipment',
+  'chat.clear': 'Clear conversation',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'E.g.: Why is the cargo stuck?',
+  'chat.inputLabel': 'Question about the shipment',
+  'chat.answering': 'Answering...',
+  'chat.ask': 'Ask',
+  'chat.disclaimer': 'Answers only use the data of this shipment; missing information is not made up.',
+  'chat.example.location': 'Where are the goods now?',
+  'chat.example.idleDays': 'How many days without movement?',
+  'chat.example.secondInstallment': 'What is the value of the second installment?',
+  'chat.errors.noAnswer': 'Could not get the answer.',
+
+  // Tracking details
+  'trackingDisplay.title': 'Tracking Details for {id}',
+  'trackingDisplay.watching': '★ Watching',
+  'trackingDisplay.watch': '☆ Watch',
+  'trackingDisplay.providerStatus': 'Current Status ({provider})',
+  'trackingDisplay.providerEstimatedDelivery': 'Est. Delivery ({provider})',
+  'trackingDisplay.providerWeight': 'Weight ({provider})',
+  'trackingDisplay.history': 'Tracking History ({provider})',
+  'trackingDisplay.noEvents': 'No {provider} tracking events available.',
+  'trackingDisplay.pdfDownloaded': "PDF '{fileName}' downloaded successfully.",
+  'trackingDisplay.pdfFailed': 'Failed to generate or download the PDF. Try again.',
+  'trackingDisplay.captureTargetMissing': 'Display element not found for capture.',
+  'trackingDisplay.copyLink': 'Copy link',
+  'trackingDisplay.linkCopied': 'Link copied!',
+  'trackingDisplay.copyLinkFailed': 'Failed to copy the link',
+  'missingXml.title': 'XML sections unavailable',
+  'missingXml.description': 'This lookup used only the access key (for example, from a link), so the information that comes from the XML is not shown:',
+  'missingXml.section.parties': 'Issuer and recipient',
+  'missingXml.section.items': 'Products',
+  'missingXml.section.volumes': 'Shipped packages',
+  'missingXml.section.invoice': 'Invoice',
+  'missingXml.section.installments': 'Installments (duplicatas)',
+  'missingXml.upload': "Upload this invoice's XML",
+  'missingXml.uploading': 'Processing XML...',
+  'stepper.currentSituation': 'Current situation:',
+  'dataWarnings.title': 'Data warnings ({count}) - incomplete or invalid information received from {provider}',
+  'dataWarnings.unexpectedType': 'Field \'{field}\' has an unexpected type ({type}); value ignored.',
+  'dataWarnings.documentMissing': 'The carrier confirmed the lookup but did not send the document data.',
+  'dataWarnings.documentInvalid': 'Document data in an invalid format; information ignored.',
+  'dataWarnings.headerMissing': 'Document header missing: sender, recipient and NF number not provided.',
+  'dataWarnings.senderMissing': 'Sender not provided by the carrier.',
+  'dataWarnings.recipientMissing': 'Recipient not provided by the carrier.',
+  'dataWarnings.nfNumberMissing': 'Invoice (NF) number not provided by the carrier.',
+  'dataWarnings.trackingInvalid': 'Event list missing or in an invalid format.',
+  'dataWarnings.trackingEmpty': 'The carrier did not send any tracking events.',
+  'dataWarnings.eventInvalid': 'Event {event}: record in an invalid format; event ignored.',
+  'dataWarnings.eventDateMissing': 'Event {event}: date/time not provided; the event is shown without a date.',
+  'dataWarnings.eventDateInvalid': 'Event {event}: invalid date/time ("{value}"); the event is shown without a date.',
+  'dataWarnings.eventOccurrenceMissing': 'Event {event}: occurrence description not provided.',
+  'dataWarnings.eventLocationMissing': 'Event {event}: location not provided.',
+  'dataWarnings.occurrenceUnrecognized': 'Event {event}: occurrence "{occurrence}" not recognized; no status classification.',
+  'dataWarnings.occurrenceUnrecognizedWithCode': 'Event {event}: occurrence "{occurrence}" (code {code}) not recognized; no status classification.',
+  'dataWarnings.emissionEventMissing': 'Transport document emission event not found; estimated delivery and weight unavailable.',
+  'dataWarnings.estimatedDeliveryInvalid': 'Estimated delivery in an invalid format ("{value}").',
+  'dataWarnings.estimatedDeliveryMissing': 'Estimated delivery not provided in the emission event.',
+  'xml.volumes.title': 'Transported Volumes (from XML)',
+  'xml.volumes.totalQuantity': 'Total Quantity',
+  'xml.volumes.totalNetWeight': 'Total Net Weight',
+  'xml.volumes.totalGrossWeight': 'Total Gross Weight',
+  'xml.items.title': 'Products (from XML)',
+  'xml.items.total': 'Products Total ({items})',
+  'xml.invoice.title': 'Bill (from XML)',
+  'xml.invoice.number': 'Bill Number',
+  'xml.invoice.discount': 'Discount Value',
+  'xml.installments.title': 'Installments (from XML)',
+  'xml.installments.number': 'Installment No.',
+  'xml.installments.empty': 'No installments found in the XML.',
+  'xml.parties.title': 'Issuer and Recipient (from XML)',
+  'xml.parties.stateRegistration': 'State reg. (IE): {value}',
+  'xml.parties.cep': 'ZIP {value}',
+  'xml.parties.phone': 'Phone: {value}',
+  'xml.cte.title': 'Freight (from CT-e)',
+  'xml.cte.number': 'CT-e No.',
+  'xml.cte.numberWithSeries': '{number} (series {series})',
+  'xml.cte.route': 'Route',
+  'xml.cte.nfeCount': 'NF-e in the CT-e',
+  'xml.cte.freightTotal': 'Total Freight Value',
+  'xml.cte.receivable': 'Amount Receivable',
+  'xml.cte.cargoValue': 'Cargo Value',
+  'xml.cte.sender': 'Sender',
+  'xml.cte.expeditor': 'Shipper',
+  'xml.cte.predominantProduct': 'Predominant Product',
+  'xml.cte.components': 'Freight Components',
+  'xml.cte.componentFallback': 'Component',
+  'xml.cte.quantities': 'Cargo Quantities',
+  'xml.cte.measureFallback': 'Measure',
+  'accessKeyDetails.title': 'Access Key Data',
+  'accessKeyDetails.emitterUf': 'Issuer State (UF)',
+  'accessKeyDetails.emissionMonth': 'Issue Month',
+  'accessKeyDetails.emitterDocument': 'Issuer {type}',
+  'accessKeyDetails.model': 'Model',
+  'accessKeyDetails.series': 'Series',
+  'accessKeyDetails.number': 'Number',
+  'accessKeyDetails.emissionType': 'Issue Type',
+  'accessKeyDetails.numericCode': 'Numeric Code (cNF)',
+  'accessKeyDetails.checkDigit': 'Check Digit',
+
+  // Spreadsheet export
+  'export.csv': 'Export CSV',
+  'export.xlsx': 'Export XLSX',
+  'export.failed': 'Failed to export {format}. Try again.',
+  'export.sheet.shipments': 'Shipments',
+  'export.sheet.events': 'Events',
+  'export.carrierWeight': 'Weight (Carrier)',
+  'export.volumeCount': 'Volume Qty.',
+  'export.netWeightKg': 'Net Weight (kg)',
+  'export.grossWeightKg': 'Gross Weight (kg)',
+  'export.invoice': 'Bill',
+  'export.eventCount': 'Event Qty.',
+  'export.lastEvent': 'Last Event',
+
+  // Transit time analytics
+  'transit.title': 'Transit Time',
+  'transit.chartLabel': 'Timeline of the events',
+  'transit.now': 'Now',
+  'transit.totalDelivered': 'From the first event to delivery: {duration}',
+  'transit.totalInTransit': 'Elapsed so far: {duration}',
+  'transit.idleGaps.one': '{count} long stop (≥ {duration} without events)',
+  'transit.idleGaps.other': '{count} long stops (≥ {duration} without events)',
+  'transit.noIdleGaps': 'No long stops',
+  'transit.idleGap': 'Stopped for {duration} at {location} ({start} → {end})',
+  'transit.idleGapOngoing': 'Stopped for {duration} at {location}, since {start}',
+  'transit.byLocation': 'Time per location',
+  'transit.stays.one': '{count} stay',
+  'transit.stays.other': '{count} stays',
+  'transit.current': 'Current',
+  'transit.showLegs.one': 'Show {count} leg',
+  'transit.showLegs.other': 'Show the {count} legs',
+  'transit.hideLegs': 'Hide legs',
+  'transit.legFrom': 'From',
+  'transit.legTo': 'To',
+  'transit.legDuration': 'Duration',
+  'transit.excludedEvents.one': '{count} event without a date was left out of the calculations:',
+  'transit.excludedEvents.other': '{count} events without a date were left out of the calculations:',
+
+  // Batch tracking
+  'batch.title': 'Batch Tracking',
+  'batch.progress': '{completed} of {total} processed',
+  'batch.progressWithErrors': '{completed} of {total} processed ({errors} with errors)',
+  'batch.filterPlaceholder': 'Filter by key, invoice, carrier, status...',
+  'batch.filterLabel': 'Filter batch results',
+  'batch.statusFilterLabel': 'Filter by situation',
+  'batch.filter.all': 'All',
+  'batch.filter.pending': 'Queued',
+  'batch.filter.processing': 'Processing',
+  'batch.filter.success': 'Tracked',
+  'batch.filter.error': 'With errors',
+  'batch.column.accessKey': 'Key',
+  'batch.column.estimatedDelivery': 'Est. Delivery',
+  'batch.column.lastEvent': 'Last Event',
+  'batch.row.pending': 'Queued',
+  'batch.row.processing': 'Processing...',
+  'batch.noMatches': 'No results match the filter.',
+
+  // Watchlist
+  'watchlist.title': 'Watched Shipments',
+  'watchlist.refreshing': 'Refreshing...',
+  'watchlist.refreshNow': 'Refresh now',
+  'watchlist.pollEvery': 'Check every',
+  'watchlist.minutes': '{count} min',
+  'watchlist.archiveAfter': 'Archive delivered after',
+  'watchlist.days': 'days',
+  'watchlist.empty': 'No active shipments being watched.',
+  'watchlist.showArchived': 'Show archived ({count})',
+  'watchlist.hideArchived': 'Hide archived ({count})',
+  'watchlist.newEvents.one': '{count} new event',
+  'watchlist.newEvents.other': '{count} new events',
+  'watchlist.delivered': 'Delivered',
+  'watchlist.updatedAt': 'Updated on {date}',
+  'watchlist.never': 'never',
+  'watchlist.remove': 'Remove',
+  'watchlist.removeLabel': 'Stop watching {id}',
+  'watchlist.errors.save': 'Could not save the watched shipment in this browser.',
+  'watchlist.errors.load': 'Could not load the watched shipments in this browser.',
+  'watchlist.errors.remove': 'Could not remove the shipment from the watchlist.',
+  'watchlist.errors.refresh': 'Failed to refresh the tracking.',
+
+  // Receivables calendar
+  'receivables.title': 'Installments Calendar',
+  'receivables.description': 'Installments (duplicatas) of the invoices looked up in this session and of the watched ones.',
+  'receivables.exportIcs': 'Export due dates (.ics)',
+  'receivables.total.one': '{count} installment · {value}',
+  'receivables.total.other': '{count} installments · {value}',
+  'receivables.overdueTotal.one': '{count} overdue · {value}',
+  'receivables.overdueTotal.other': '{count} overdue · {value}',
+  'receivables.dayInstallments.one': '{count} installment, {value}',
+  'receivables.dayInstallments.other': '{count} installments, {value}',
+  'receivables.previousMonth': 'Previous month',
+  'receivables.nextMonth': 'Next month',
+  'receivables.currentMonth': 'Current month',
+  'receivables.dueIn': 'Due in {month}',
+  'receivables.dueOn': 'Due on {date}',
+  'receivables.showMonth': 'Show the whole month',
+  'receivables.emptyMonth': 'No installments are due this month.',
+  'receivables.nf': 'Invoice {nf}',
+  'receivables.openShipment': 'Open the tracking of invoice {nf}',
+  'receivables.installment': 'Installment {number}',
+  'receivables.overdueBadge': 'Overdue',
+  'receivables.delivery.deliveredBeforeDue': 'Delivered before the 1st due date',
+  'receivables.delivery.deliveredAfterDue': 'Delivered after the 1st due date',
+  'receivables.delivery.pending': 'Not delivered yet',
+  'receivables.delivery.pendingPastDue': 'Not delivered and past the 1st due date',
+  'receivables.totals.title': 'Totals',
+  'receivables.totals.groupBy': 'Group by',
+  'receivables.totals.count': 'Installments',
+  'receivables.totals.value': 'Amount',
+  'receivables.totals.overdue': 'Overdue',
+  'receivables.grouping.week': 'Week',
+  'receivables.grouping.month': 'Month',
+  'receivables.grouping.supplier': 'Supplier',
+  'receivables.weekOf': 'Week of {date}',
+  'receivables.ics.summary': 'Installment {number} · Invoice {nf} · {supplier} · {value}',
+  'receivables.ics.description': 'NF-e access key: {key}',
+
+  // Carrier performance dashboard
+  'performance.title': 'Carrier Performance',
+  'performance.description': 'Every note you look up is recorded in this browser with its latest tracking data. On time = delivered by the estimated delivery date; open shipments past the estimate count as late.',
+  'performance.show': 'Show dashboard',
+  'performance.hide': 'Hide dashboard',
+  'performance.loading': 'Loading history...',
+  'performance.loadFailed': 'Could not read the lookup history of this browser.',
+  'performance.empty': 'No notes recorded yet. Lookups made from now on will show up here.',
+  'performance.recorded.one': '{count} note recorded',
+  'performance.recorded.other': '{count} notes recorded',
+  'performance.groupBy': 'Group by',
+  'performance.dimension.carrier': 'Carrier',
+  'performance.dimension.uf': 'Destination state',
+  'performance.dimension.region': 'Destination region',
+  'performance.dimension.month': 'Month',
+  'performance.filter.region': 'Region',
+  'performance.filter.carrier': 'Carrier',
+  'performance.filter.allRegions': 'All regions',
+  'performance.filter.allCarriers': 'All carriers',
+  'performance.region.N': 'North',
+  'performance.region.NE': 'Northeast',
+  'performance.region.CO': 'Center-West',
+  'performance.region.SE': 'Southeast',
+  'performance.region.S': 'South',
+  'performance.unknown': 'Unidentified',
+  'performance.column.shipments': 'Shipments',
+  'performance.column.delivered': 'Delivered',
+  'performance.column.averageTransitDays': 'Average transit (days)',
+  'performance.column.onTimeRate': 'On time (%)',
+  'performance.column.onTime': 'On time',
+  'performance.column.late': 'Late',
+  'performance.column.failedAttempts': 'Failed attempts',
+  'performance.column.shipmentsWithFailures': 'Shipments with a failed attempt',
+  'performance.chart.onTimeRate': 'On-time deliveries',
+  'performance.chart.averageTransitDays': 'Average transit time',
+  'performance.chart.failedAttempts': 'Failed delivery attempts',
+  'performance.chart.more.one': '+{count} group in the table below',
+  'performance.chart.more.other': '+{count} groups in the table below',
+  'performance.failedShipments.one': '{count} shipment',
+  'performance.failedShipments.other': '{count} shipments',
+  'performance.days': '{days} d',
+  'performance.noData': 'Not enough data',
+  'performance.noMatches': 'No notes match the filters.',
+  'performance.exportCsv': 'Export CSV',
+  'performance.exportFailed': 'Failed to export the CSV. Please try again.',
+  'performance.clear': 'Clear history',
+  'performance.clearConfirm': 'Delete the whole history of this browser?',
+  'performance.clearYes': 'Delete',
+  'performance.clearNo': 'Cancel',
+  'performance.clearFailed': 'Could not clear the history.',
+
+  // PDF report
+  'pdf.header': 'Tracking Report',
+  'pdf.generatedAt': 'Generated on {date}',
+  'pdf.footerAccessKey': 'Access key: {key}',
+  'pdf.page': 'Page {page} of {total}',
+  'pdf.title': 'Invoice Tracking',
+  'pdf.shipmentSection': 'Shipment Summary',
+  'pdf.providerStatus': 'Status ({provider})',
+  'pdf.providerWeight': 'Weight ({provider})',
+  'pdf.summaryAi': 'AI Summary ({name})',
+  'pdf.summary': 'Summary',
+  'pdf.analysisAi': 'AI Analysis ({name})',
+  'pdf.analysis': 'Shipment Analysis',
+  'pdf.riskLevel': 'Risk level',
+  'pdf.nextStep': 'Likely next step',
+  'pdf.problems': 'Problems',
+  'pdf.noProblems': 'None identified',
+  'pdf.customerMessage': 'Customer message',
+  'pdf.partiesSection': 'Issuer and Recipient',
+  'pdf.documentFallback': 'Doc.',
+  'pdf.itemsSection': 'Invoice Items',
+  'pdf.itemsTotal': 'Total ({items})',
+  'pdf.volumesSection': 'Transported Volumes',
+  'pdf.invoiceSection': 'Bill',
+  'pdf.invoiceNumber': 'Number',
+  'pdf.installmentsSection': 'Installments',
+  'pdf.installment': 'Installment',
+  'pdf.cteSection': 'Transport Document (CT-e)',
+  'pdf.cteNumberSeries': 'Number/Series',
+  'pdf.cteKey': 'CT-e key',
+  'pdf.cteRoute': 'Route',
+  'pdf.freightValue': 'Freight value',
+  'pdf.cargoValue': 'Cargo value',
+  'pdf.historySection': 'Tracking History ({provider})',
+};
@@ -0,0 +1,576 @@
+// i18n/messages/es.ts
+import type { MessageKey } from './ptBR';
+
+export const es: Record<MessageKey, string> = {
+  // Shared
+  'common.notAvailable': 'N/D',
+  'common.unavailable': 'No disponible',
+  'common.unknownError': 'Error desconocido',
+  'common.unknownLocation': 'Lugar no informado',
+  'common.notInformed': 'No informado',
+  'common.unknownStatus': 'Ocurrencia no informada',
+  'common.noTrackingEvents': 'No se encontraron eventos de rastreo.',
+  'common.days.one': '{count} día',
+  'common.days.other': '{count} días',
+  'common.items.one': '{count} artículo',
+  'common.items.other': '{count} artículos',
+
+  // Field labels shared by the screen, the PDF report and the spreadsheets
+  'fields.accessKey': 'Clave de Acceso',
+  'fields.nf': 'Factura',
+  'fields.carrier': 'Transportista',
+  'fields.currentStatus': 'Estado Actual',
+  'fields.classification': 'Clasificación',
+  'fields.estimatedDelivery': 'Entrega Prevista',
+  'fields.deadlineStatus': 'Situación del Plazo',
+  'fields.origin': 'Origen',
+  'fields.destination': 'Destino',
+  'fields.emitter': 'Emisor',
+  'fields.recipient': 'Destinatario',
+  'fields.code': 'Código',
+  'fields.description': 'Descripción',
+  'fields.ncm': 'NCM',
+  'fields.cfop': 'CFOP',
+  'fields.quantityShort': 'Cant.',
+  'fields.unitShort': 'Ud.',
+  'fields.unitPrice': 'Precio Unit.',
+  'fields.totalValue': 'Valor Total',
+  'fields.species': 'Tipo',
+  'fields.brand': 'Marca',
+  'fields.numbering': 'Numeración',
+  'fields.netWeight': 'Peso Neto',
+  'fields.grossWeight': 'Peso Bruto',
+  'fields.seals': 'Precintos',
+  'fields.originalValue': 'Valor Original',
+  'fields.discount': 'Descuento',
+  'fields.netValue': 'Valor Neto',
+  'fields.dueDate': 'Vencimiento',
+  'fields.value': 'Valor',
+  'fields.dateTime': 'Fecha/Hora',
+  'fields.occurrence': 'Incidencia',
+  'fields.location': 'Lugar',
+  'fields.details': 'Detalles',
+  'fields.total': 'Total',
+
+  // Formatters
+  'formatters.invalidDate': 'Fecha no válida',
+  'formatters.eventDateUnavailable': 'Fecha del evento no disponible',
+  'formatters.eventDateNotProvided': 'Fecha del evento no informada',
+  'formatters.duration.daysHours': '{days} d {hours} h',
+  'formatters.duration.hoursMinutes': '{hours} h {minutes} min',
+  'formatters.duration.minutes': '{minutes} min',
+
+  // Canonical shipment statuses
+  'shipmentStatus.emitted': 'Emitido',
+  'shipmentStatus.collected': 'Recogido',
+  'shipmentStatus.in_transit': 'En tránsito',
+  'shipmentStatus.at_destination_hub': 'En la unidad de destino',
+  'shipmentStatus.out_for_delivery': 'En reparto',
+  'shipmentStatus.delivered': 'Entregado',
+  'shipmentStatus.delivery_failed': 'Entrega fallida',
+  'shipmentStatus.returned': 'Devuelto',
+  'shipmentStatus.exception': 'Incidencia',
+  'shipmentStatus.unknown': 'Sin clasificar',
+
+  // Delivery deadline assessment
+  'deliveryRisk.label.on_time': 'En plazo',
+  'deliveryRisk.label.at_risk': 'Riesgo de retraso',
+  'deliveryRisk.label.late': 'Retrasado',
+  'deliveryRisk.label.delivered_on_time': 'Entregado en plazo',
+  'deliveryRisk.label.delivered_late': 'Entregado con retraso',
+  'deliveryRisk.label.unknown': 'Plazo indeterminado',
+  'deliveryRisk.late': 'Retrasado {duration} respecto a la entrega prevista.',
+  'deliveryRisk.deliveredLate': 'Entregado con {duration} de retraso respecto a lo previsto.',
+  'deliveryRisk.deliveredOnTime': 'Entregado dentro del plazo previsto.',
+  'deliveryRisk.problem': 'La última incidencia indica un problema que puede retrasar la entrega.',
+  'deliveryRisk.stalled': 'Sin nuevos movimientos desde hace {duration}.',
+  'deliveryRisk.dueToday': 'La entrega está prevista para hoy y la mercancía aún no ha salido a reparto.',
+  'deliveryRisk.dueTomorrow': 'La entrega está prevista para mañana y la mercancía aún no ha salido a reparto.',
+  'deliveryRisk.onTimeDueToday': 'Entrega prevista para hoy.',
+  'deliveryRisk.onTime': 'En plazo: faltan {duration} para la entrega prevista.',
+  'deliveryRisk.unknown': 'No hay una entrega prevista para evaluar el plazo.',
+
+  // App shell
+  'app.title': 'Rastrea tu Envío',
+  'app.emptyState': 'Introduce una Clave de Acceso de la DANFE o sube uno o más archivos XML de NF-e.',
+  'app.errors.emptyInput': 'Introduce una Clave de Acceso de la DANFE o selecciona un archivo XML.',
+  'app.errors.xmlUnknown': 'Error desconocido al procesar el archivo.',
+  'app.pdf.noData': 'No hay datos de seguimiento para generar el PDF o falta la referencia de visualización.',
+  'app.pdf.failed': 'Error al generar el PDF.',
+  'navbar.language': 'Idioma',
+  'loading.text': 'Cargando...',
+
+  // Input form
+  'inputForm.accessKeyLabel': 'Clave de Acceso de la DANFE',
+  'inputForm.accessKeyPlaceholder': 'Introduce la clave de acceso',
+  'inputForm.or': 'O',
+  'inputForm.uploadLabel': 'Subir Archivo(s) XML de NF-e o CT-e, o PDF del DANFE',
+  'inputForm.selectFiles': 'Selecciona los archivos',
+  'inputForm.dragAndDrop': 'o arrástralos aquí',
+  'inputForm.filesSelected': '{count} archivos seleccionados (seguimiento por lotes).',
+  'inputForm.noFileSelected': 'Ningún archivo seleccionado. XML de NF-e o CT-e, o PDF del DANFE (uno o varios).',
+  'inputForm.processing': 'Procesando...',
+  'inputForm.track': 'Rastrear',
+  'inputForm.generatingPdf': 'Generando PDF...',
+  'inputForm.downloadPdf': 'Descargar PDF del Seguimiento',
+  'inputForm.pdfFormat': 'Formato del PDF',
+  'inputForm.pdfModeReport': 'Informe A4 (texto)',
+  'inputForm.pdfModeScreenshot': 'Captura de pantalla',
+  'inputForm.scan.image': 'Leer código de barras o QR (foto)',
+  'inputForm.scan.camera': 'Leer con la cámara',
+  'inputForm.scan.reading': 'Leyendo el código...',
+  'inputForm.scan.cameraHint': 'Apunte la cámara al código de barras o código QR de la DANFE.',
+  'inputForm.scan.stop': 'Cancelar lectura',
+
+  // Error box, by TrackingErrorKind
+  'errorMessage.defaultTitle': 'Se Produjo un Error',
+  'errorMessage.retry': 'Reintentar',
+  'errorMessage.network.title': 'Sin conexión con el servicio de seguimiento',
+  'errorMessage.network.hint': 'Comprueba tu conexión a internet e inténtalo de nuevo.',
+  'errorMessage.blocked.title': 'Consulta bloqueada por el navegador',
+  'errorMessage.blocked.hint': 'Es posible que la API del transportista no acepte consultas directas desde el navegador (CORS). Usa el proxy de seguimiento (TRACKING_MODE=proxy) para evitar el bloqueo.',
+  'errorMessage.http.title': 'El transportista respondió con un error',
+  'errorMessage.http.hint': 'El servicio puede estar inestable en este momento. Inténtalo de nuevo en unos minutos.',
+  'errorMessage.not_found.title': 'Seguimiento no encontrado',
+  'errorMessage.not_found.hint': 'Es posible que el transportista aún no haya registrado esta factura. Revisa la clave de acceso o inténtalo más tarde.',
+  'errorMessage.malformed.title': 'Respuesta inesperada del transportista',
+  'errorMessage.malformed.hint': 'Los datos recibidos no tienen el formato esperado. Si el problema persiste, revisa la consola para más detalles.',
+  'errorMessage.timeout.title': 'La consulta tardó demasiado',
+  'errorMessage.timeout.hint': 'El servicio de seguimiento no respondió a tiempo. Inténtalo de nuevo.',
+
+  // Access key validation
+  'errors.accessKey.empty': 'Introduce la clave de acceso.',
+  'errors.accessKey.nonDigits': 'La clave de acceso solo puede contener dígitos.',
+  'errors.accessKey.length': 'La clave de acceso debe tener {expected} dígitos (introducidos: {length}).',
+  'errors.accessKey.invalidUf': 'Código de estado (UF) no válido en la clave: {ufCode}.',
+  'errors.accessKey.checkDigit': 'Dígito verificador no válido (introducido: {informed}, esperado: {expected}). Comprueba que la clave se haya escrito correctamente.',
+
+  // XML files
+  'errors.xml.emptyFile': 'Error al leer el contenido del archivo XML.',
+  'errors.xml.malformed': 'Archivo XML no válido o mal formado. Revisa la consola del navegador para más detalles.',
+  'errors.xml.documentNotFound': "Elemento 'infNFe' (NF-e) o 'infCte' (CT-e) no encontrado en el XML. No se puede extraer la información.",
+  'errors.xml.invalidKeyFormat': 'Se encontró una clave ("{keyStart}...") pero no es una clave de acceso válida (44 dígitos numéricos).',
+  'errors.xml.keyNotFound': 'Clave de acceso (chNFe o Id de la NFe) no encontrada en el XML. Comprueba que el archivo sea un XML de NF-e válido y contenga la clave.',
+  'errors.xml.invalidKey': 'Clave de acceso del XML no válida: {reason}',
+  'errors.xml.processing': 'Error al procesar el archivo XML: {detail}',
+  'errors.xml.readFailed': 'Error al leer el archivo XML. Asegúrate de que el archivo sea válido e inténtalo de nuevo.',
+  'errors.xml.keyMismatch': 'El XML enviado no pertenece a esta nota (clave esperada: {key}).',
+  'errors.cte.keyNotFound': 'Clave del CT-e (chCTe o Id del infCte) no encontrada en el XML.',
+  'errors.cte.invalidKey': 'Clave del CT-e no válida: {reason}',
+  'errors.cte.noReferencedNfe': 'El CT-e no hace referencia a ninguna NF-e (infDoc > infNFe) que rastrear.',
+  'errors.barcode.imageLoad': 'No se pudo abrir la imagen. Use un archivo JPG, PNG o WebP.',
+  'errors.barcode.notFound': 'No se encontró ningún código de barras o código QR legible en la imagen. Pruebe con una foto más nítida, bien iluminada y con el código completo.',
+  'errors.barcode.noAccessKey': 'El código leído no contiene una clave de acceso de 44 dígitos.',
+  'errors.barcode.camera': 'No se pudo acceder a la cámara. Verifique el permiso del navegador.',
+  'errors.danfePdf.readFailed': 'No se pudo abrir el PDF. Verifique que el archivo sea un PDF válido y no esté protegido con contraseña.',
+  'errors.danfePdf.noText': 'El PDF no tiene texto seleccionable (probablemente es un escaneo). Lea el código de barras del DANFE o escriba la clave.',
+  'errors.danfePdf.keyNotFound': 'Clave de acceso no encontrada en el PDF. Verifique que el archivo sea el DANFE de una NF-e.',
+  'errors.danfePdf.invalidKey': 'Clave de acceso del PDF inválida: {reason}',
+
+  // Tracking services
+  'services.trackingProxy': 'proxy de seguimiento',
+  'services.llmServer': 'servidor de modelo de lenguaje',
+  'errors.tracking.blocked': 'El navegador bloqueó la consulta a {service}. Es posible que la API no permita solicitudes directas desde el navegador (CORS).',
+  'errors.tracking.network': 'No se pudo conectar con {service}. Comprueba tu conexión.',
+  'errors.tracking.timeout': '{service} no respondió en {seconds} segundos.',
+  'errors.tracking.unexpected': 'Se produjo un error inesperado al obtener la información de seguimiento. Revisa la consola para más detalles.',
+  'errors.tracking.proxyHttp': 'El proxy de seguimiento respondió con un error (Estado: {status}).',
+  'errors.tracking.proxyMalformed': 'El proxy de seguimiento devolvió una respuesta con un formato inesperado.',
+  'errors.tracking.providerMalformed': 'La respuesta de {provider} no tiene el formato esperado.',
+  'errors.ssw.http': 'La API de SSW respondió con un error (Estado: {status}).',
+  'errors.ssw.httpWithMessage': 'La API de SSW respondió con un error (Estado: {status}): {message}',
+  'errors.ssw.notFound': 'Clave de seguimiento no encontrada o no válida en SSW.',
+  'errors.ssw.notFoundWithMessage': 'SSW no encontró el seguimiento: {message}',
+  'errors.ssw.malformed': 'La API de SSW devolvió una respuesta con un formato inesperado.',
+  'errors.proxy.routeNotFound': 'Ruta no encontrada.',
+  'errors.proxy.methodNotAllowed': 'Método no permitido.',
+  'errors.proxy.rateLimited': 'Demasiadas consultas en poco tiempo. Inténtalo de nuevo en {seconds} segundos.',
+  'errors.proxy.internal': 'Error interno del proxy de seguimiento.',
+  'errors.proxy.llmNotConfigured': 'El proxy no tiene un servidor de modelo de lenguaje configurado (OPENAI_BASE_URL y OPENAI_MODEL).',
+  'errors.proxy.invalidBody': 'Cuerpo de la solicitud inválido o demasiado grande.',
+
+  // Language models
+  'errors.gemini.invalidKey': 'Clave de la API de Gemini no válida. Revisa tu configuración.',
+  'errors.gemini.quota': 'Se alcanzó el límite de uso de la API de Gemini. Inténtalo más tarde.',
+  'errors.gemini.unexpected': 'Gemini no respondió como se esperaba. (Detalle: {detail})',
+  'errors.gemini.emptySummary': 'Se recibió un resumen vacío de Gemini.',
+  'errors.gemini.emptyAnswer': 'Gemini no devolvió ninguna respuesta.',
+  'errors.llm.http': 'El {service} respondió con el error {status}.',
+  'errors.llm.httpWithDetail': 'El {service} respondió con el error {status}: {detail}',
+  'errors.llm.emptySummary': 'Se recibió un resumen vacío del {service}.',
+  'errors.analysis.invalidJson': 'La respuesta del análisis no es un JSON válido.',
+  'errors.analysis.notObject': 'La respuesta del análisis no es un objeto JSON.',
+  'errors.analysis.invalidRiskLevel': 'Nivel de riesgo no válido en el análisis: {value}.',
+  'errors.analysis.problemsNotList': "El campo 'problems' del análisis no es una lista.",
+  'errors.analysis.missingField': "Campo '{field}' ausente o vacío en el análisis.",
+
+  // Summary
+  'summary.titleAi': 'Resumen de la IA ✨',
+  'summary.title': 'Resumen',
+  'summary.generatedBy': 'Generado por: {name}',
+  'summary.unavailable': '{name} no disponible: {detail}',
+  'summarizers.template.name': 'Texto automático (sin IA)',
+  'summarizers.openai.genericName': 'LLM compatible con OpenAI',
+
+  // Offline template summary
+  'template.noEvents': '{carrier} aún no ha registrado movimientos para este envío.',
+  'template.status.emitted': 'El envío de {carrier} fue emitido y está a la espera de la recogida por el transportista.',
+  'template.status.collected': 'El envío de {carrier} fue recogido por el transportista.',
+  'template.status.in_transit': 'El envío de {carrier} está en tránsito.',
+  'template.status.at_destination_hub': 'El envío de {carrier} llegó a la unidad de destino.',
+  'template.status.out_for_delivery': 'El envío de {carrier} salió a reparto.',
+  'template.status.delivery_failed': 'El envío de {carrier} tuvo un intento de entrega fallido.',
+  'template.status.returned': 'El envío de {carrier} se está devolviendo al remitente.',
+  'template.status.exception': 'El envío de {carrier} tuvo una incidencia registrada por el transportista.',
+  'template.status.unknown': 'El envío de {carrier} tiene el estado "{status}".',
+  'template.delivered': 'El envío de {carrier} fue entregado{place}{moment}.',
+  'template.atPlace': ' en {location}',
+  'template.onMoment': ', el {moment}',
+  'template.moment': '{date} a las {time}',
+  'template.event': '"{status}"{place}{moment}',
+  'template.lastEvent': 'Último movimiento: {event}.',
+  'template.deadline': 'Entrega prevista: {date}. {assessment}',
+  'template.noDeadline': 'El transportista aún no ha informado una fecha de entrega prevista.',
+
+  // Shipment analysis
+  'analysis.titleAi': 'Análisis de la IA ✨',
+  'analysis.title': 'Análisis del envío',
+  'analysis.nextStep': 'Próximo paso probable:',
+  'analysis.customerMessage': 'Mensaje sugerido para el cliente',
+  'analysis.copy': 'Copiar mensaje',
+  'analysis.copied': '¡Copiado!',
+  'analysis.copyFailed': 'Error al copiar',
+  'analysis.generatedBy': 'Generado por: {name}',
+  'analysis.rulesName': 'Reglas automáticas (sin IA)',
+  'analysis.riskLevel.low': 'Riesgo bajo',
+  'analysis.riskLevel.medium': 'Riesgo medio',
+  'analysis.riskLevel.high': 'Riesgo alto',
+  'analysis.problemKind.failed_delivery_attempt': 'Intento de entrega',
+  'analysis.problemKind.address_issue': 'Dirección',
+  'analysis.problemKind.stuck_at_hub': 'Detenido en la unidad',
+  'analysis.problemKind.delayed': 'Retraso',
+  'analysis.problemKind.returned': 'Devolución',
+  'analysis.problemKind.other': 'Otro',
+  'analysis.rules.nextStep.emitted': 'Recogida de la mercancía por el transportista.',
+  'analysis.rules.nextStep.collected': 'Traslado a la unidad de destino.',
+  'analysis.rules.nextStep.in_transit': 'Llegada a la unidad de destino.',
+  'analysis.rules.nextStep.at_destination_hub': 'Salida a reparto hacia el destinatario.',
+  'analysis.rules.nextStep.out_for_delivery': 'Entrega al destinatario.',
+  'analysis.rules.nextStep.delivered': 'Ninguno: la entrega se completó.',
+  'analysis.rules.nextStep.delivery_failed': 'Nuevo intento de entrega o contacto del transportista con el destinatario.',
+  'analysis.rules.nextStep.returned': 'Regreso de la mercancía al remitente.',
+  'analysis.rules.nextStep.exception': 'Contactar con el transportista para aclarar la incidencia.',
+  'analysis.rules.nextStep.unknown': 'Esperar la próxima actualización del transportista.',
+  'analysis.rules.addressIssue': 'Problema con la dirección de entrega: "{status}".',
+  'analysis.rules.failedAttempts.one': 'Intento de entrega fallido: "{status}".',
+  'analysis.rules.failedAttempts.other': '{count} intentos de entrega fallidos; el último: "{status}".',
+  'analysis.rules.returned': 'La mercancía se está devolviendo al remitente.',
+  'analysis.rules.stuck': 'Sin movimiento en {location} desde hace {duration}.',
+  'analysis.rules.customerMessage': '¡Hola! {summary}',
+  'analysis.rules.followUp': 'Estamos siguiendo la situación con el transportista y avisaremos en cuanto haya novedades.',
+
+  // Q&A chat
+  'chat.unavailable': 'Las preguntas sobre el envío requieren Gemini: define GEMINI_API_KEY para activar el chat.',
+  'chat.title': 'Preguntas sobre el envío',
+  'chat.clear': 'Borrar conversación',
+  'chat.thinking': 'Pensando...',
+  'chat.placeholder': 'Ej.: ¿Por qué está parada la carga?',
+  'chat.inputLabel': 'Pregunta sobre el envío',
+  'chat.answering': 'Respondiendo...',
+  'chat.ask': 'Preguntar',
+  'chat.disclaimer': 'Las respuestas solo usan los datos de este envío; la información ausente no se inventa.',
+  'chat.example.location': '¿Dónde está la mercancía ahora?',
+  'chat.example.idleDays': '¿Cuántos días lleva sin movimiento?',
+  'chat.example.secondInstallment': '¿Cuál es el valor del segundo vencimiento?',
+  'chat.errors.noAnswer': 'No se pudo obtener la respuesta.',
+
+  // Tracking details
+  'trackingDisplay.title': 'Detalles del Seguimiento de {id}',
+  'trackingDisplay.watching': '★ Siguiendo',
+  'trackingDisplay.watch': '☆ Seguir',
+  'trackingDisplay.providerStatus': 'Estado Actual ({provider})',
+  'trackingDisplay.providerEstimatedDelivery': 'Entrega Prev. ({provider})',
+  'trackingDisplay.providerWeight': 'Peso ({provider})',
+  'trackingDisplay.history': 'Historial de Seguimiento ({provider})',
+  'trackingDisplay.noEvents': 'No hay eventos de seguimiento de {provider} disponibles.',
+  'trackingDisplay.pdfDownloaded': "PDF '{fileName}' descargado correctamente.",
+  'trackingDisplay.pdfFailed': 'Error al generar o descargar el PDF. Inténtalo de nuevo.',
+  'trackingDisplay.captureTargetMissing': 'No se encontró el elemento de visualización para la captura.',
+  'trackingDisplay.copyLink': 'Copiar enlace',
+  'trackingDisplay.linkCopied': '¡Enlace copiado!',
+  'trackingDisplay.copyLinkFailed': 'Error al copiar el enlace',
+  'missingXml.title': 'Secciones del XML no disponibles',
+  'missingXml.description': 'Esta consulta se hizo solo con la clave de acceso (por ejemplo, desde un enlace), así que no se muestra la información que proviene del XML:',
+  'missingXml.section.parties': 'Emisor y destinatario',
+  'missingXml.section.items': 'Productos',
+  'missingXml.section.volumes': 'Bultos transportados',
+  'missingXml.section.invoice': 'Factura',
+  'missingXml.section.installments': 'Duplicatas (cuotas)',
+  'missingXml.upload': 'Enviar el XML de esta nota',
+  'missingXml.uploading': 'Procesando XML...',
+  'stepper.currentSituation': 'Situación actual:',
+  'dataWarnings.title': 'Avisos de datos ({count}): información incompleta o no válida recibida de {provider}',
+  'dataWarnings.unexpectedType': 'Campo \'{field}\' con tipo inesperado ({type}); valor ignorado.',
+  'dataWarnings.documentMissing': 'La transportadora confirmó la consulta, pero no envió los datos del documento.',
+  'dataWarnings.documentInvalid': 'Datos del documento en formato no válido; información ignorada.',
+  'dataWarnings.headerMissing': 'Encabezado del documento ausente: remitente, destinatario y número de NF no informados.',
+  'dataWarnings.senderMissing': 'Remitente no informado por la transportadora.',
+  'dataWarnings.recipientMissing': 'Destinatario no informado por la transportadora.',
+  'dataWarnings.nfNumberMissing': 'Número de la nota fiscal no informado por la transportadora.',
+  'dataWarnings.trackingInvalid': 'Lista de eventos ausente o en formato no válido.',
+  'dataWarnings.trackingEmpty': 'La transportadora no envió ningún evento de rastreo.',
+  'dataWarnings.eventInvalid': 'Evento {event}: registro en formato no válido; evento ignorado.',
+  'dataWarnings.eventDateMissing': 'Evento {event}: fecha/hora no informada; el evento se muestra sin fecha.',
+  'dataWarnings.eventDateInvalid': 'Evento {event}: fecha/hora no válida ("{value}"); el evento se muestra sin fecha.',
+  'dataWarnings.eventOccurrenceMissing': 'Evento {event}: descripción de la ocurrencia no informada.',
+  'dataWarnings.eventLocationMissing': 'Evento {event}: lugar no informado.',
+  'dataWarnings.occurrenceUnrecognized': 'Evento {event}: ocurrencia "{occurrence}" no reconocida; sin clasificación de estado.',
+  'dataWarnings.occurrenceUnrecognizedWithCode': 'Evento {event}: ocurrencia "{occurrence}" (código {code}) no reconocida; sin clasificación de estado.',
+  'dataWarnings.emissionEventMissing': 'Evento de emisión del documento de transporte no encontrado; previsión de entrega y peso no disponibles.',
+  'dataWarnings.estimatedDeliveryInvalid': 'Previsión de entrega en formato no válido ("{value}").',
+  'dataWarnings.estimatedDeliveryMissing': 'Previsión de entrega no informada en el evento de emisión.',
+  'xml.volumes.title': 'Bultos Transportados (del XML)',
+  'xml.volumes.totalQuantity': 'Cantidad Total',
+  'xml.volumes.totalNetWeight': 'Peso Neto Total',
+  'xml.volumes.totalGrossWeight': 'Peso Bruto Total',
+  'xml.items.title': 'Productos (del XML)',
+  'xml.items.total': 'Total de los Productos ({items})',
+  'xml.invoice.title': 'Cuenta de Cobro (del XML)',
+  'xml.invoice.number': 'Número de la Cuenta',
+  'xml.invoice.discount': 'Valor del Descuento',
+  'xml.installments.title': 'Vencimientos (del XML)',
+  'xml.installments.number': 'Vencimiento N.º',
+  'xml.installments.empty': 'No se encontraron vencimientos en el XML.',
+  'xml.parties.title': 'Emisor y Destinatario (del XML)',
+  'xml.parties.stateRegistration': 'Inscr. estatal (IE): {value}',
+  'xml.parties.cep': 'CP {value}',
+  'xml.parties.phone': 'Tel.: {value}',
+  'xml.cte.title': 'Flete (del CT-e)',
+  'xml.cte.number': 'CT-e N.º',
+  'xml.cte.numberWithSeries': '{number} (serie {series})',
+  'xml.cte.route': 'Recorrido',
+  'xml.cte.nfeCount': 'NF-e en el CT-e',
+  'xml.cte.freightTotal': 'Valor Total del Flete',
+  'xml.cte.receivable': 'Valor a Cobrar',
+  'xml.cte.cargoValue': 'Valor de la Carga',
+  'xml.cte.sender': 'Remitente',
+  'xml.cte.expeditor': 'Expedidor',
+  'xml.cte.predominantProduct': 'Producto Predominante',
+  'xml.cte.components': 'Componentes del Flete',
+  'xml.cte.componentFallback': 'Componente',
+  'xml.cte.quantities': 'Cantidades de la Carga',
+  'xml.cte.measureFallback': 'Medida',
+  'accessKeyDetails.title': 'Datos de la Clave de Acceso',
+  'accessKeyDetails.emitterUf': 'Estado (UF) del Emisor',
+  'accessKeyDetails.emissionMonth': 'Mes de Emisión',
+  'accessKeyDetails.emitterDocument': '{type} del Emisor',
+  'accessKeyDetails.model': 'Modelo',
+  'accessKeyDetails.series': 'Serie',
+  'accessKeyDetails.number': 'Número',
+  'accessKeyDetails.emissionType': 'Tipo de Emisión',
+  'accessKeyDetails.numericCode': 'Código Numérico (cNF)',
+  'accessKeyDetails.checkDigit': 'Dígito Verificador',
+
+  // Spreadsheet export
+  'export.csv': 'Exportar CSV',
+  'export.xlsx': 'Exportar XLSX',
+  'export.failed': 'Error al exportar {format}. Inténtalo de nuevo.',
+  'export.sheet.shipments': 'Envíos',
+  'export.sheet.events': 'Eventos',
+  'export.carrierWeight': 'Peso (Transportista)',
+  'export.volumeCount': 'Cant. Bultos',
+  'export.netWeightKg': 'Peso Neto (kg)',
+  'export.grossWeightKg': 'Peso Bruto (kg)',
+  'export.invoice': 'Cuenta de Cobro',
+  'export.eventCount': 'Cant. Eventos',
+  'export.lastEvent': 'Último Evento',
+
+  // Transit time analytics
+  'transit.title': 'Tiempo en tránsito',
+  'transit.chartLabel': 'Línea de tiempo de los eventos',
+  'transit.now': 'Ahora',
+  'transit.totalDelivered': 'Del primer evento a la entrega: {duration}',
+  'transit.totalInTransit': 'Transcurrido hasta ahora: {duration}',
+  'transit.idleGaps.one': '{count} parada larga (≥ {duration} sin eventos)',
+  'transit.idleGaps.other': '{count} paradas largas (≥ {duration} sin eventos)',
+  'transit.noIdleGaps': 'Ninguna parada larga',
+  'transit.idleGap': 'Detenido {duration} en {location} ({start} → {end})',
+  'transit.idleGapOngoing': 'Detenido hace {duration} en {location}, desde {start}',
+  'transit.byLocation': 'Tiempo por lugar',
+  'transit.stays.one': '{count} paso',
+  'transit.stays.other': '{count} pasos',
+  'transit.current': 'Actual',
+  'transit.showLegs.one': 'Ver {count} etapa',
+  'transit.showLegs.other': 'Ver las {count} etapas',
+  'transit.hideLegs': 'Ocultar etapas',
+  'transit.legFrom': 'Desde',
+  'transit.legTo': 'Hasta',
+  'transit.legDuration': 'Duración',
+  'transit.excludedEvents.one': '{count} evento sin fecha quedó fuera de los cálculos:',
+  'transit.excludedEvents.other': '{count} eventos sin fecha quedaron fuera de los cálculos:',
+
+  // Batch tracking
+  'batch.title': 'Seguimiento por Lotes',
+  'batch.progress': '{completed} de {total} procesados',
+  'batch.progressWithErrors': '{completed} de {total} procesados ({errors} con error)',
+  'batch.filterPlaceholder': 'Filtrar por clave, factura, transportista, estado...',
+  'batch.filterLabel': 'Filtrar resultados del lote',
+  'batch.statusFilterLabel': 'Filtrar por situación',
+  'batch.filter.all': 'Todos',
+  'batch.filter.pending': 'En cola',
+  'batch.filter.processing': 'Procesando',
+  'batch.filter.success': 'Rastreados',
+  'batch.filter.error': 'Con error',
+  'batch.column.accessKey': 'Clave',
+  'batch.column.estimatedDelivery': 'Entrega Prev.',
+  'batch.column.lastEvent': 'Último Evento',
+  'batch.row.pending': 'En cola',
+  'batch.row.processing': 'Procesando...',
+  'batch.noMatches': 'Ningún resultado coincide con el filtro.',
+
+  // Watchlist
+  'watchlist.title': 'Envíos Seguidos',
+  'watchlist.refreshing': 'Actualizando...',
+  'watchlist.refreshNow': 'Actualizar ahora',
+  'watchlist.pollEvery': 'Comprobar cada',
+  'watchlist.minutes': '{count} min',
+  'watchlist.archiveAfter': 'Archivar entregados después de',
+  'watchlist.days': 'días',
+  'watchlist.empty': 'No hay envíos activos en seguimiento.',
+  'watchlist.showArchived': 'Mostrar archivados ({count})',
+  'watchlist.hideArchived': 'Ocultar archivados ({count})',
+  'watchlist.newEvents.one': '{count} evento nuevo',
+  'watchlist.newEvents.other': '{count} eventos nuevos',
+  'watchlist.delivered': 'Entregado',
+  'watchlist.updatedAt': 'Actualizado el {date}',
+  'watchlist.never': 'nunca',
+  'watchlist.remove': 'Quitar',
+  'watchlist.removeLabel': 'Dejar de seguir {id}',
+  'watchlist.errors.save': 'No se pudo guardar el seguimiento en este navegador.',
+  'watchlist.errors.load': 'No se pudieron cargar los envíos seguidos en este navegador.',
+  'watchlist.errors.remove': 'No se pudo quitar el envío del seguimiento.',
+  'watchlist.errors.refresh': 'Error al actualizar el seguimiento.',
+
+  // Receivables calendar
+  'receivables.title': 'Calendario de duplicatas',
+  'receivables.description': 'Duplicatas de las notas consultadas en esta sesión y de las notas seguidas.',
+  'receivables.exportIcs': 'Exportar vencimientos (.ics)',
+  'receivables.total.one': '{count} duplicata · {value}',
+  'receivables.total.other': '{count} duplicatas · {value}',
+  'receivables.overdueTotal.one': '{count} vencida · {value}',
+  'receivables.overdueTotal.other': '{count} vencidas · {value}',
+  'receivables.dayInstallments.one': '{count} duplicata, {value}',
+  'receivables.dayInstallments.other': '{count} duplicatas, {value}',
+  'receivables.previousMonth': 'Mes anterior',
+  'receivables.nextMonth': 'Mes siguiente',
+  'receivables.currentMonth': 'Mes actual',
+  'receivables.dueIn': 'Vencimientos en {month}',
+  'receivables.dueOn': 'Vencimientos el {date}',
+  'receivables.showMonth': 'Ver el mes completo',
+  'receivables.emptyMonth': 'Ninguna duplicata vence este mes.',
+  'receivables.nf': 'NF {nf}',
+  'receivables.openShipment': 'Abrir el seguimiento de la NF {nf}',
+  'receivables.installment': 'Duplicata {number}',
+  'receivables.overdueBadge': 'Vencida',
+  'receivables.delivery.deliveredBeforeDue': 'Entregada antes del 1.er vencimiento',
+  'receivables.delivery.deliveredAfterDue': 'Entregada después del 1.er vencimiento',
+  'receivables.delivery.pending': 'Aún no entregada',
+  'receivables.delivery.pendingPastDue': 'No entregada y el 1.er vencimiento ya pasó',
+  'receivables.totals.title': 'Totales',
+  'receivables.totals.groupBy': 'Agrupar por',
+  'receivables.totals.count': 'Duplicatas',
+  'receivables.totals.value': 'Valor',
+  'receivables.totals.overdue': 'Vencido',
+  'receivables.grouping.week': 'Semana',
+  'receivables.grouping.month': 'Mes',
+  'receivables.grouping.supplier': 'Proveedor',
+  'receivables.weekOf': 'Semana del {date}',
+  'receivables.ics.summary': 'Duplicata {number} · NF {nf} · {supplier} · {value}',
+  'receivables.ics.description': 'Clave de acceso de la NF-e: {key}',
+
+  // Carrier performance dashboard
+  'performance.title': 'Desempeño de las transportadoras',
+  'performance.description': 'Cada nota consultada queda registrada en este navegador con los datos más recientes del rastreo. A tiempo = entregada hasta la fecha prevista; los envíos abiertos con la previsión vencida cuentan como atrasados.',
+  'performance.show': 'Mostrar panel',
+  'performance.hide': 'Ocultar panel',
+  'performance.loading': 'Cargando historial...',
+  'performance.loadFailed': 'No fue posible leer el historial de consultas de este navegador.',
+  'performance.empty': 'Aún no hay notas registradas. Las consultas hechas a partir de ahora aparecerán aquí.',
+  'performance.recorded.one': '{count} nota registrada',
+  'performance.recorded.other': '{count} notas registradas',
+  'performance.groupBy': 'Agrupar por',
+  'performance.dimension.carrier': 'Transportadora',
+  'performance.dimension.uf': 'Estado de destino',
+  'performance.dimension.region': 'Región de destino',
+  'performance.dimension.month': 'Mes',
+  'performance.filter.region': 'Región',
+  'performance.filter.carrier': 'Transportadora',
+  'performance.filter.allRegions': 'Todas las regiones',
+  'performance.filter.allCarriers': 'Todas las transportadoras',
+  'performance.region.N': 'Norte',
+  'performance.region.NE': 'Nordeste',
+  'performance.region.CO': 'Centro-Oeste',
+  'performance.region.SE': 'Sudeste',
+  'performance.region.S': 'Sur',
+  'performance.unknown': 'No identificado',
+  'performance.column.shipments': 'Envíos',
+  'performance.column.delivered': 'Entregados',
+  'performance.column.averageTransitDays': 'Tránsito medio (días)',
+  'performance.column.onTimeRate': 'A tiempo (%)',
+  'performance.column.onTime': 'A tiempo',
+  'performance.column.late': 'Atrasados',
+  'performance.column.failedAttempts': 'Intentos fallidos',
+  'performance.column.shipmentsWithFailures': 'Envíos con intento fallido',
+  'performance.chart.onTimeRate': 'Entregas a tiempo',
+  'performance.chart.averageTransitDays': 'Tiempo medio de tránsito',
+  'performance.chart.failedAttempts': 'Intentos de entrega fallidos',
+  'performance.chart.more.one': '+{count} grupo en la tabla de abajo',
+  'performance.chart.more.other': '+{count} grupos en la tabla de abajo',
+  'performance.failedShipments.one': '{count} envío',
+  'performance.failedShipments.other': '{count} envíos',
+  'performance.days': '{days} d',
+  'performance.noData': 'Datos insuficientes',
+  'performance.noMatches': 'Ninguna nota coincide con los filtros.',
+  'performance.exportCsv': 'Exportar CSV',
+  'performance.exportFailed': 'Error al exportar el CSV. Inténtelo de nuevo.',
+  'performance.clear': 'Borrar historial',
+  'performance.clearConfirm': '¿Borrar todo el historial de este navegador?',
+  'performance.clearYes': 'Borrar',
+  'performance.clearNo': 'Cancelar',
+  'performance.clearFailed': 'No fue posible borrar el historial.',
+
+  // PDF report
+  'pdf.header': 'Informe de Seguimiento',
+  'pdf.generatedAt': 'Generado el {date}',
+  'pdf.footerAccessKey': 'Clave de acceso: {key}',
+  'pdf.page': 'Página {page} de {total}',
+  'pdf.title': 'Seguimiento de la Factura',
+  'pdf.shipmentSection': 'Resumen del Envío',
+  'pdf.providerStatus': 'Estado ({provider})',
+  'pdf.providerWeight': 'Peso ({provider})',
+  'pdf.summaryAi': 'Resumen de la IA ({name})',
+  'pdf.summary': 'Resumen',
+  'pdf.analysisAi': 'Análisis de la IA ({name})',
+  'pdf.analysis': 'Análisis del Envío',
+  'pdf.riskLevel': 'Nivel de riesgo',
+  'pdf.nextStep': 'Próximo paso probable',
+  'pdf.problems': 'Problemas',
+  'pdf.noProblems': 'Ninguno identificado',
+  'pdf.customerMessage': 'Mensaje al cliente',
+  'pdf.partiesSection': 'Emisor y Destinatario',
+  'pdf.documentFallback': 'Doc.',
+  'pdf.itemsSection': 'Artículos de la Factura',
+  'pdf.itemsTotal': 'Total ({items})',
+  'pdf.volumesSection': 'Bultos Transportados',
+  'pdf.invoiceSection': 'Cuenta de Cobro',
+  'pdf.invoiceNumber': 'Número',
+  'pdf.installmentsSection': 'Vencimientos',
+  'pdf.installment': 'Cuota',
+  'pdf.cteSection': 'Conocimiento de Transporte (CT-e)',
+  'pdf.cteNumberSeries': 'Número/Serie',
+  'pdf.cteKey': 'Clave del CT-e',
+  'pdf.cteRoute': 'Trayecto',
+  'pdf.freightValue': 'Valor del flete',
+  'pdf.cargoValue': 'Valor de la carga',
+  'pdf.historySection': 'Historial de Seguimiento ({provider})',
+};
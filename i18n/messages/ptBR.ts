@@ -0,0 +1,578 @@
+// i18n/messages/ptBR.ts
+// Source catalog: its keys define MessageKey, and the other locales must translate every one of them.
+// Placeholders are written as {name}; keys ending in .one / .other are picked by plural().
+export const ptBR = {
+  // Shared
+  'common.notAvailable': 'N/A',
+  'common.unavailable': 'Não disponível',
+  'common.unknownError': 'Erro desconhecido',
+  'common.unknownLocation': 'Local não informado',
+  'common.notInformed': 'Não informado',
+  'common.unknownStatus': 'Ocorrência não informada',
+  'common.noTrackingEvents': 'Nenhum evento de rastreamento encontrado.',
+  'common.days.one': '{count} dia',
+  'common.days.other': '{count} dias',
+  'common.items.one': '{count} item',
+  'common.items.other': '{count} itens',
+
+  // Field labels shared by the screen, the PDF report and the spreadsheets
+  'fields.accessKey': 'Chave de Acesso',
+  'fields.nf': 'NF',
+  'fields.carrier': 'Transportadora',
+  'fields.currentStatus': 'Status Atual',
+  'fields.classification': 'Classificação',
+  'fields.estimatedDelivery': 'Previsão de Entrega',
+  'fields.deadlineStatus': 'Situação do Prazo',
+  'fields.origin': 'Origem',
+  'fields.destination': 'Destino',
+  'fields.emitter': 'Emitente',
+  'fields.recipient': 'Destinatário',
+  'fields.code': 'Código',
+  'fields.description': 'Descrição',
+  'fields.ncm': 'NCM',
+  'fields.cfop': 'CFOP',
+  'fields.quantityShort': 'Qtd.',
+  'fields.unitShort': 'Un.',
+  'fields.unitPrice': 'Valor Unit.',
+  'fields.totalValue': 'Valor Total',
+  'fields.species': 'Espécie',
+  'fields.brand': 'Marca',
+  'fields.numbering': 'Numeração',
+  'fields.netWeight': 'Peso Líquido',
+  'fields.grossWeight': 'Peso Bruto',
+  'fields.seals': 'Lacres',
+  'fields.originalValue': 'Valor Original',
+  'fields.discount': 'Desconto',
+  'fields.netValue': 'Valor Líquido',
+  'fields.dueDate': 'Vencimento',
+  'fields.value': 'Valor',
+  'fields.dateTime': 'Data/Hora',
+  'fields.occurrence': 'Ocorrência',
+  'fields.location': 'Local',
+  'fields.details': 'Detalhes',
+  'fields.total': 'Total',
+
+  // Formatters
+  'formatters.invalidDate': 'Data inválida',
+  'formatters.eventDateUnavailable': 'Data do evento não disponível',
+  'formatters.eventDateNotProvided': 'Data do evento não fornecida',
+  'formatters.duration.daysHours': '{days} d {hours} h',
+  'formatters.duration.hoursMinutes': '{hours} h {minutes} min',
+  'formatters.duration.minutes': '{minutes} min',
+
+  // Canonical shipment statuses
+  'shipmentStatus.emitted': 'Emitido',
+  'shipmentStatus.collected': 'Coletado',
+  'shipmentStatus.in_transit': 'Em trânsito',
+  'shipmentStatus.at_destination_hub': 'Na unidade de destino',
+  'shipmentStatus.out_for_delivery': 'Saiu para entrega',
+  'shipmentStatus.delivered': 'Entregue',
+  'shipmentStatus.delivery_failed': 'Falha na entrega',
+  'shipmentStatus.returned': 'Devolvido',
+  'shipmentStatus.exception': 'Ocorrência',
+  'shipmentStatus.unknown': 'Não classificado',
+
+  // Delivery deadline assessment
+  'deliveryRisk.label.on_time': 'No prazo',
+  'deliveryRisk.label.at_risk': 'Risco de atraso',
+  'deliveryRisk.label.late': 'Atrasado',
+  'deliveryRisk.label.delivered_on_time': 'Entregue no prazo',
+  'deliveryRisk.label.delivered_late': 'Entregue com atraso',
+  'deliveryRisk.label.unknown': 'Prazo indeterminado',
+  'deliveryRisk.late': 'Atrasado há {duration} em relação à previsão de entrega.',
+  'deliveryRisk.deliveredLate': 'Entregue com {duration} de atraso em relação à previsão.',
+  'deliveryRisk.deliveredOnTime': 'Entregue dentro do prazo previsto.',
+  'deliveryRisk.problem': 'A última ocorrência indica um problema que pode atrasar a entrega.',
+  'deliveryRisk.stalled': 'Sem novas movimentações há {duration}.',
+  'deliveryRisk.dueToday': 'A entrega está prevista para hoje e a mercadoria ainda não saiu para entrega.',
+  'deliveryRisk.dueTomorrow': 'A entrega está prevista para amanhã e a mercadoria ainda não saiu para entrega.',
+  'deliveryRisk.onTimeDueToday': 'Entrega prevista para hoje.',
+  'deliveryRisk.onTime': 'Dentro do prazo: faltam {duration} para a previsão de entrega.',
+  'deliveryRisk.unknown': 'Não há previsão de entrega para avaliar o prazo.',
+
+  // App shell
+  'app.title': 'Rastreie sua Encomenda',
+  'app.emptyState': 'Digite uma Chave de Acesso da DANFE ou faça upload de um ou mais arquivos XML NF-e.',
+  'app.errors.emptyInput': 'Por favor, insira uma Chave de Acesso da DANFE ou selecione um arquivo XML.',
+  'app.errors.xmlUnknown': 'Erro desconhecido ao processar o arquivo.',
+  'app.pdf.noData': 'Nenhum dado de rastreamento para gerar PDF ou referência de exibição ausente.',
+  'app.pdf.failed': 'Falha ao gerar PDF.',
+  'navbar.language': 'Idioma',
+  'loading.text': 'Carregando...',
+
+  // Input form
+  'inputForm.accessKeyLabel': 'Chave de Acesso da DANFE',
+  'inputForm.accessKeyPlaceholder': 'Digite a chave de acesso',
+  'inputForm.or': 'OU',
+  'inputForm.uploadLabel': 'Upload Arquivo(s) XML da NF-e ou CT-e, ou PDF do DANFE',
+  'inputForm.selectFiles': 'Selecione os arquivos',
+  'inputForm.dragAndDrop': 'ou arraste e solte',
+  'inputForm.filesSelected': '{count} arquivos selecionados (rastreio em lote).',
+  'inputForm.noFileSelected': 'Nenhum arquivo selecionado. XML de NF-e ou CT-e, ou PDF do DANFE (um ou vários).',
+  'inputForm.processing': 'Processando...',
+  'inputForm.track': 'Rastrear',
+  'inputForm.generatingPdf': 'Gerando PDF...',
+  'inputForm.downloadPdf': 'Baixar PDF do Rastreio',
+  'inputForm.pdfFormat': 'Formato do PDF',
+  'inputForm.pdfModeReport': 'Relatório A4 (texto)',
+  'inputForm.pdfModeScreenshot': 'Captura da tela',
+  'inputForm.scan.image': 'Ler código de barras ou QR code (foto)',
+  'inputForm.scan.camera': 'Ler com a câmera',
+  'inputForm.scan.reading': 'Lendo o código...',
+  'inputForm.scan.cameraHint': 'Aponte a câmera para o código de barras ou QR code da DANFE.',
+  'inputForm.scan.stop': 'Cancelar leitura',
+
+  // Error box, by TrackingErrorKind
+  'errorMessage.defaultTitle': 'Ocorreu um Erro',
+  'errorMessage.retry': 'Tentar novamente',
+  'errorMessage.network.title': 'Sem conexão com o serviço de rastreio',
+  'errorMessage.network.hint': 'Verifique sua conexão com a internet e tente novamente.',
+  'errorMessage.blocked.title': 'Consulta bloqueada pelo navegador',
+  'errorMessage.blocked.hint': 'A API da transportadora pode não aceitar consultas diretas do navegador (CORS). Use o proxy de rastreio (TRACKING_MODE=proxy) para contornar o bloqueio.',
+  'errorMessage.http.title': 'A transportadora respondeu com erro',
+  'errorMessage.http.hint': 'O serviço pode estar instável no momento. Tente novamente em alguns minutos.',
+  'errorMessage.not_found.title': 'Rastreio não encontrado',
+  'errorMessage.not_found.hint': 'A transportadora ainda pode não ter registrado esta nota. Confira a chave de acesso ou tente mais tarde.',
+  'errorMessage.malformed.title': 'Resposta inesperada da transportadora',
+  'errorMessage.malformed.hint': 'Os dados recebidos não estão no formato esperado. Se o problema persistir, verifique o console para detalhes.',
+  'errorMessage.timeout.title': 'A consulta demorou demais',
+  'errorMessage.timeout.hint': 'O serviço de rastreio não respondeu a tempo. Tente novamente.',
+
+  // Access key validation
+  'errors.accessKey.empty': 'Informe a chave de acesso.',
+  'errors.accessKey.nonDigits': 'A chave de acesso deve conter apenas dígitos.',
+  'errors.accessKey.length': 'A chave de acesso deve ter {expected} dígitos (informados: {length}).',
+  'errors.accessKey.invalidUf': 'Código de UF inválido na chave: {ufCode}.',
+  'errors.accessKey.checkDigit': 'Dígito verificador inválido (informado: {informed}, esperado: {expected}). Verifique se a chave foi digitada corretamente.',
+
+  // XML files
+  'errors.xml.emptyFile': 'Falha ao ler o conteúdo do arquivo XML.',
+  'errors.xml.malformed': 'Arquivo XML inválido ou mal formatado. Verifique o console do navegador para mais detalhes.',
+  'errors.xml.documentNotFound': "Elemento 'infNFe' (NF-e) ou 'infCte' (CT-e) não encontrado no XML. Não é possível extrair informações.",
+  'errors.xml.invalidKeyFormat': 'Chave encontrada ("{keyStart}...") mas não é uma chave de acesso válida (44 dígitos numéricos).',
+  'errors.xml.keyNotFound': 'Chave de acesso (chNFe ou Id da NFe) não encontrada no XML. Verifique se o arquivo é um XML de NF-e válido e contém a chave.',
+  'errors.xml.invalidKey': 'Chave de acesso do XML inválida: {reason}',
+  'errors.xml.processing': 'Erro ao processar o arquivo XML: {detail}',
+  'errors.xml.readFailed': 'Falha ao ler o arquivo XML. Certifique-se de que o arquivo é válido e tente novamente.',
+  'errors.xml.keyMismatch': 'O XML enviado não pertence a esta nota (chave esperada: {key}).',
+  'errors.cte.keyNotFound': 'Chave do CT-e (chCTe ou Id do infCte) não encontrada no XML.',
+  'errors.cte.invalidKey': 'Chave do CT-e inválida: {reason}',
+  'errors.cte.noReferencedNfe': 'O CT-e não referencia nenhuma NF-e (infDoc > infNFe) para rastrear.',
+  'errors.barcode.imageLoad': 'Não foi possível abrir a imagem. Use um arquivo JPG, PNG ou WebP.',
+  'errors.barcode.notFound': 'Nenhum código de barras ou QR code legível foi encontrado na imagem. Tente uma foto mais nítida, com o código inteiro e bem iluminado.',
+  'errors.barcode.noAccessKey': 'O código lido não contém uma chave de acesso de 44 dígitos.',
+  'errors.barcode.camera': 'Não foi possível acessar a câmera. Verifique a permissão do navegador.',
+  'errors.danfePdf.readFailed': 'Não foi possível abrir o PDF. Verifique se o arquivo é um PDF válido e não está protegido por senha.',
+  'errors.danfePdf.noText': 'O PDF não tem texto selecionável (provavelmente é uma digitalização). Leia o código de barras do DANFE ou digite a chave.',
+  'errors.danfePdf.keyNotFound': 'Chave de acesso não encontrada no PDF. Verifique se o arquivo é o DANFE de uma NF-e.',
+  'errors.danfePdf.invalidKey': 'Chave de acesso do PDF inválida: {reason}',
+
+  // Tracking services
+  'services.trackingProxy': 'proxy de rastreio',
+  'services.llmServer': 'servidor de modelo de linguagem',
+  'errors.tracking.blocked': 'A consulta ao {service} foi bloqueada pelo navegador. A API pode não permitir solicitações diretas do navegador (CORS).',
+  'errors.tracking.network': 'Não foi possível conectar ao {service}. Verifique sua conexão.',
+  'errors.tracking.timeout': 'O {service} não respondeu em {seconds} segundos.',
+  'errors.tracking.unexpected': 'Ocorreu um erro inesperado ao buscar as informações de rastreamento. Verifique o console para detalhes.',
+  'errors.tracking.proxyHttp': 'O proxy de rastreio respondeu com erro (Status: {status}).',
+  'errors.tracking.proxyMalformed': 'O proxy de rastreio retornou uma resposta em formato inesperado.',
+  'errors.tracking.providerMalformed': 'A resposta do {provider} não está no formato esperado.',
+  'errors.ssw.http': 'A API SSW respondeu com erro (Status: {status}).',
+  'errors.ssw.httpWithMessage': 'A API SSW respondeu com erro (Status: {status}): {message}',
+  'errors.ssw.notFound': 'Chave de rastreamento não encontrada ou inválida no SSW.',
+  'errors.ssw.notFoundWithMessage': 'O SSW não encontrou o rastreio: {message}',
+  'errors.ssw.malformed': 'A API SSW retornou uma resposta em formato inesperado.',
+  'errors.proxy.routeNotFound': 'Rota não encontrada.',
+  'errors.proxy.methodNotAllowed': 'Método não permitido.',
+  'errors.proxy.rateLimited': 'Muitas consultas em pouco tempo. Tente novamente em {seconds} segundos.',
+  'errors.proxy.internal': 'Erro interno do proxy de rastreio.',
+  'errors.proxy.llmNotConfigured': 'O proxy não tem um servidor de modelo de linguagem configurado (OPENAI_BASE_URL e OPENAI_MODEL).',
+  'errors.proxy.invalidBody': 'Corpo da requisição inválido ou grande demais.',
+
+  // Language models
+  'errors.gemini.invalidKey': 'Chave da API Gemini inválida. Por favor, verifique sua configuração.',
+  'errors.gemini.quota': 'Limite de uso da API Gemini atingido. Tente novamente mais tarde.',
+  'errors.gemini.unexpected': 'O Gemini não respondeu como esperado. (Detalhe: {detail})',
+  'errors.gemini.emptySummary': 'Recebido um resumo vazio do Gemini.',
+  'errors.gemini.emptyAnswer': 'O Gemini não retornou uma resposta.',
+  'errors.llm.http': 'O {service} respondeu com erro {status}.',
+  'errors.llm.httpWithDetail': 'O {service} respondeu com erro {status}: {detail}',
+  'errors.llm.emptySummary': 'Recebido um resumo vazio do {service}.',
+  'errors.analysis.invalidJson': 'A resposta da análise não é um JSON válido.',
+  'errors.analysis.notObject': 'A resposta da análise não é um objeto JSON.',
+  'errors.analysis.invalidRiskLevel': 'Nível de risco inválido na análise: {value}.',
+  'errors.analysis.problemsNotList': "Campo 'problems' da análise não é uma lista.",
+  'errors.analysis.missingField': "Campo '{field}' ausente ou vazio na análise.",
+
+  // Summary
+  'summary.titleAi': 'Resumo da IA ✨',
+  'summary.title': 'Resumo',
+  'summary.generatedBy': 'Gerado por: {name}',
+  'summary.unavailable': '{name} indisponível: {detail}',
+  'summarizers.template.name': 'Texto automático (sem IA)',
+  'summarizers.openai.genericName': 'LLM compatível com OpenAI',
+
+  // Offline template summary
+  'template.noEvents': 'A {carrier} ainda não registrou movimentações para esta encomenda.',
+  'template.status.emitted': 'A encomenda enviada pela {carrier} foi emitida e aguarda a coleta pela transportadora.',
+  'template.status.collected': 'A encomenda enviada pela {carrier} foi coletada pela transportadora.',
+  'template.status.in_transit': 'A encomenda enviada pela {carrier} está em trânsito.',
+  'template.status.at_destination_hub': 'A encomenda enviada pela {carrier} chegou à unidade de destino.',
+  'template.status.out_for_delivery': 'A encomenda enviada pela {carrier} saiu para entrega.',
+  'template.status.delivery_failed': 'A encomenda enviada pela {carrier} teve uma tentativa de entrega sem sucesso.',
+  'template.status.returned': 'A encomenda enviada pela {carrier} está sendo devolvida ao remetente.',
+  'template.status.exception': 'A encomenda enviada pela {carrier} teve uma ocorrência registrada pela transportadora.',
+  'template.status.unknown': 'A encomenda enviada pela {carrier} está com o status "{status}".',
+  'template.delivered': 'A encomenda enviada pela {carrier} foi entregue{place}{moment}.',
+  'template.atPlace': ' em {location}',
+  'template.onMoment': ', em {moment}',
+  'template.moment': '{date} às {time}',
+  'template.event': '"{status}"{place}{moment}',
+  'template.lastEvent': 'Última movimentação: {event}.',
+  'template.deadline': 'Previsão de entrega: {date}. {assessment}',
+  'template.noDeadline': 'A transportadora ainda não informou uma previsão de entrega.',
+
+  // Shipment analysis
+  'analysis.titleAi': 'Análise da IA ✨',
+  'analysis.title': 'Análise da remessa',
+  'analysis.nextStep': 'Próximo passo provável:',
+  'analysis.customerMessage': 'Mensagem sugerida para o cliente',
+  'analysis.copy': 'Copiar mensagem',
+  'analysis.copied': 'Copiada!',
+  'analysis.copyFailed': 'Falha ao copiar',
+  'analysis.generatedBy': 'Gerada por: {name}',
+  'analysis.rulesName': 'Regras automáticas (sem IA)',
+  'analysis.riskLevel.low': 'Risco baixo',
+  'analysis.riskLevel.medium': 'Risco médio',
+  'analysis.riskLevel.high': 'Risco alto',
+  'analysis.problemKind.failed_delivery_attempt': 'Tentativa de entrega',
+  'analysis.problemKind.address_issue': 'Endereço',
+  'analysis.problemKind.stuck_at_hub': 'Parada na unidade',
+  'analysis.problemKind.delayed': 'Atraso',
+  'analysis.problemKind.returned': 'Devolução',
+  'analysis.problemKind.other': 'Outro',
+  'analysis.rules.nextStep.emitted': 'Coleta da mercadoria pela transportadora.',
+  'analysis.rules.nextStep.collected': 'Transferência para a unidade de destino.',
+  'analysis.rules.nextStep.in_transit': 'Chegada à unidade de destino.',
+  'analysis.rules.nextStep.at_destination_hub': 'Saída para entrega ao destinatário.',
+  'analysis.rules.nextStep.out_for_delivery': 'Entrega ao destinatário.',
+  'analysis.rules.nextStep.delivered': 'Nenhum: a entrega foi concluída.',
+  'analysis.rules.nextStep.delivery_failed': 'Nova tentativa de entrega ou contato da transportadora com o destinatário.',
+  'analysis.rules.nextStep.returned': 'Retorno da mercadoria ao remetente.',
+  'analysis.rules.nextStep.exception': 'Contato com a transportadora para esclarecer a ocorrência.',
+  'analysis.rules.nextStep.unknown': 'Aguardar a próxima atualização da transportadora.',
+  'analysis.rules.addressIssue': 'Problema com o endereço de entrega: "{status}".',
+  'analysis.rules.failedAttempts.one': 'Tentativa de entrega sem sucesso: "{status}".',
+  'analysis.rules.failedAttempts.other': '{count} tentativas de entrega sem sucesso; a última: "{status}".',
+  'analysis.rules.returned': 'A mercadoria está sendo devolvida ao remetente.',
+  'analysis.rules.stuck': 'Sem movimentação em {location} há {duration}.',
+  'analysis.rules.customerMessage': 'Olá! {summary}',
+  'analysis.rules.followUp': 'Estamos acompanhando a situação junto à transportadora e avisaremos assim que houver novidades.',
+
+  // Q&A chat
+  'chat.unavailable': 'Perguntas sobre a remessa exigem o Gemini: defina GEMINI_API_KEY para ativar o chat.',
+  'chat.title': 'Perguntas sobre a remessa',
+  'chat.clear': 'Limpar conversa',
+  'chat.thinking': 'Pensando...',
+  'chat.placeholder': 'Ex.: Por que a carga está parada?',
+  'chat.inputLabel': 'Pergunta sobre a remessa',
+  'chat.answering': 'Respondendo...',
+  'chat.ask': 'Perguntar',
+  'chat.disclaimer': 'As respostas usam apenas os dados desta remessa; informações ausentes não são inventadas.',
+  'chat.example.location': 'Onde está a mercadoria agora?',
+  'chat.example.idleDays': 'Há quantos dias não há movimentação?',
+  'chat.example.secondInstallment': 'Qual o valor da segunda duplicata?',
+  'chat.errors.noAnswer': 'Não foi possível obter a resposta.',
+
+  // Tracking details
+  'trackingDisplay.title': 'Detalhes do Rastreio para {id}',
+  'trackingDisplay.watching': '★ Acompanhando',
+  'trackingDisplay.watch': '☆ Acompanhar',
+  'trackingDisplay.providerStatus': 'Status Atual ({provider})',
+  'trackingDisplay.providerEstimatedDelivery': 'Prev. Entrega ({provider})',
+  'trackingDisplay.providerWeight': 'Peso ({provider})',
+  'trackingDisplay.history': 'Histórico de Rastreio ({provider})',
+  'trackingDisplay.noEvents': 'Nenhum evento de rastreamento {provider} disponível.',
+  'trackingDisplay.pdfDownloaded': "PDF '{fileName}' baixado com sucesso.",
+  'trackingDisplay.pdfFailed': 'Falha ao gerar ou baixar PDF. Tente novamente.',
+  'trackingDisplay.captureTargetMissing': 'Elemento de exibição não encontrado para captura.',
+  'trackingDisplay.copyLink': 'Copiar link',
+  'trackingDisplay.linkCopied': 'Link copiado!',
+  'trackingDisplay.copyLinkFailed': 'Falha ao copiar o link',
+  'missingXml.title': 'Seções do XML indisponíveis',
+  'missingXml.description': 'Esta consulta foi feita apenas pela chave de acesso (por exemplo, a partir de um link), então as informações que vêm do XML não aparecem:',
+  'missingXml.section.parties': 'Emitente e destinatário',
+  'missingXml.section.items': 'Produtos',
+  'missingXml.section.volumes': 'Volumes transportados',
+  'missingXml.section.invoice': 'Fatura',
+  'missingXml.section.installments': 'Duplicatas',
+  'missingXml.upload': 'Enviar o XML desta nota',
+  'missingXml.uploading': 'Processando XML...',
+  'stepper.currentSituation': 'Situação atual:',
+  'dataWarnings.title': 'Avisos de dados ({count}) - informações incompletas ou inválidas recebidas do {provider}',
+  'dataWarnings.unexpectedType': 'Campo \'{field}\' com tipo inesperado ({type}); valor ignorado.',
+  'dataWarnings.documentMissing': 'A transportadora confirmou a consulta, mas não enviou os dados do documento.',
+  'dataWarnings.documentInvalid': 'Dados do documento em formato inválido; informações ignoradas.',
+  'dataWarnings.headerMissing': 'Cabeçalho do documento ausente: remetente, destinatário e número da NF não informados.',
+  'dataWarnings.senderMissing': 'Remetente não informado pela transportadora.',
+  'dataWarnings.recipientMissing': 'Destinatário não informado pela transportadora.',
+  'dataWarnings.nfNumberMissing': 'Número da nota fiscal não informado pela transportadora.',
+  'dataWarnings.trackingInvalid': 'Lista de eventos ausente ou em formato inválido.',
+  'dataWarnings.trackingEmpty': 'A transportadora não enviou nenhum evento de rastreamento.',
+  'dataWarnings.eventInvalid': 'Evento {event}: registro em formato inválido; evento ignorado.',
+  'dataWarnings.eventDateMissing': 'Evento {event}: data/hora não informada; o evento é exibido sem data.',
+  'dataWarnings.eventDateInvalid': 'Evento {event}: data/hora inválida ("{value}"); o evento é exibido sem data.',
+  'dataWarnings.eventOccurrenceMissing': 'Evento {event}: descrição da ocorrência não informada.',
+  'dataWarnings.eventLocationMissing': 'Evento {event}: local não informado.',
+  'dataWarnings.occurrenceUnrecognized': 'Evento {event}: ocorrência "{occurrence}" não reconhecida; sem classificação de status.',
+  'dataWarnings.occurrenceUnrecognizedWithCode': 'Evento {event}: ocorrência "{occurrence}" (código {code}) não reconhecida; sem classificação de status.',
+  'dataWarnings.emissionEventMissing': 'Evento de emissão do documento de transporte não encontrado; previsão de entrega e peso indisponíveis.',
+  'dataWarnings.estimatedDeliveryInvalid': 'Previsão de entrega em formato inválido ("{value}").',
+  'dataWarnings.estimatedDeliveryMissing': 'Previsão de entrega não informada no evento de emissão.',
+  'xml.volumes.title': 'Volumes Transportados (do XML)',
+  'xml.volumes.totalQuantity': 'Quantidade Total',
+  'xml.volumes.totalNetWeight': 'Peso Líquido Total',
+  'xml.volumes.totalGrossWeight': 'Peso Bruto Total',
+  'xml.items.title': 'Produtos (do XML)',
+  'xml.items.total': 'Total dos Produtos ({items})',
+  'xml.invoice.title': 'Fatura (do XML)',
+  'xml.invoice.number': 'Número da Fatura',
+  'xml.invoice.discount': 'Valor do Desconto',
+  'xml.installments.title': 'Duplicatas (do XML)',
+  'xml.installments.number': 'Duplicata Nº',
+  'xml.installments.empty': 'Nenhuma duplicata encontrada no XML.',
+  'xml.parties.title': 'Emitente e Destinatário (do XML)',
+  'xml.parties.stateRegistration': 'IE: {value}',
+  'xml.parties.cep': 'CEP {value}',
+  'xml.parties.phone': 'Tel.: {value}',
+  'xml.cte.title': 'Frete (do CT-e)',
+  'xml.cte.number': 'CT-e Nº',
+  'xml.cte.numberWithSeries': '{number} (série {series})',
+  'xml.cte.route': 'Percurso',
+  'xml.cte.nfeCount': 'NF-e no CT-e',
+  'xml.cte.freightTotal': 'Valor Total do Frete',
+  'xml.cte.receivable': 'Valor a Receber',
+  'xml.cte.cargoValue': 'Valor da Carga',
+  'xml.cte.sender': 'Remetente',
+  'xml.cte.expeditor': 'Expedidor',
+  'xml.cte.predominantProduct': 'Produto Predominante',
+  'xml.cte.components': 'Componentes do Frete',
+  'xml.cte.componentFallback': 'Componente',
+  'xml.cte.quantities': 'Quantidades da Carga',
+  'xml.cte.measureFallback': 'Medida',
+  'accessKeyDetails.title': 'Dados da Chave de Acesso',
+  'accessKeyDetails.emitterUf': 'UF do Emitente',
+  'accessKeyDetails.emissionMonth': 'Mês de Emissão',
+  'accessKeyDetails.emitterDocument': '{type} do Emitente',
+  'accessKeyDetails.model': 'Modelo',
+  'accessKeyDetails.series': 'Série',
+  'accessKeyDetails.number': 'Número',
+  'accessKeyDetails.emissionType': 'Tipo de Emissão',
+  'accessKeyDetails.numericCode': 'Código Numérico (cNF)',
+  'accessKeyDetails.checkDigit': 'Dígito Verificador',
+
+  // Spreadsheet export
+  'export.csv': 'Exportar CSV',
+  'export.xlsx': 'Exportar XLSX',
+  'export.failed': 'Falha ao exportar {format}. Tente novamente.',
+  'export.sheet.shipments': 'Remessas',
+  'export.sheet.events': 'Eventos',
+  'export.carrierWeight': 'Peso (Transportadora)',
+  'export.volumeCount': 'Qtd. Volumes',
+  'export.netWeightKg': 'Peso Líquido (kg)',
+  'export.grossWeightKg': 'Peso Bruto (kg)',
+  'export.invoice': 'Fatura',
+  'export.eventCount': 'Qtd. Eventos',
+  'export.lastEvent': 'Último Evento',
+
+  // Transit time analytics
+  'transit.title': 'Tempo em trânsito',
+  'transit.chartLabel': 'Linha do tempo das ocorrências',
+  'transit.now': 'Agora',
+  'transit.totalDelivered': 'Da primeira ocorrência à entrega: {duration}',
+  'transit.totalInTransit': 'Decorrido até agora: {duration}',
+  'transit.idleGaps.one': '{count} parada longa (≥ {duration} sem ocorrência)',
+  'transit.idleGaps.other': '{count} paradas longas (≥ {duration} sem ocorrência)',
+  'transit.noIdleGaps': 'Nenhuma parada longa',
+  'transit.idleGap': 'Parado {duration} em {location} ({start} → {end})',
+  'transit.idleGapOngoing': 'Parado há {duration} em {location}, desde {start}',
+  'transit.byLocation': 'Tempo por local',
+  'transit.stays.one': '{count} passagem',
+  'transit.stays.other': '{count} passagens',
+  'transit.current': 'Atual',
+  'transit.showLegs.one': 'Ver {count} etapa',
+  'transit.showLegs.other': 'Ver as {count} etapas',
+  'transit.hideLegs': 'Ocultar etapas',
+  'transit.legFrom': 'De',
+  'transit.legTo': 'Até',
+  'transit.legDuration': 'Duração',
+  'transit.excludedEvents.one': '{count} ocorrência sem data foi deixada de fora dos cálculos:',
+  'transit.excludedEvents.other': '{count} ocorrências sem data foram deixadas de fora dos cálculos:',
+
+  // Batch tracking
+  'batch.title': 'Rastreio em Lote',
+  'batch.progress': '{completed} de {total} processados',
+  'batch.progressWithErrors': '{completed} de {total} processados ({errors} com erro)',
+  'batch.filterPlaceholder': 'Filtrar por chave, NF, transportadora, status...',
+  'batch.filterLabel': 'Filtrar resultados do lote',
+  'batch.statusFilterLabel': 'Filtrar por situação',
+  'batch.filter.all': 'Todos',
+  'batch.filter.pending': 'Na fila',
+  'batch.filter.processing': 'Processando',
+  'batch.filter.success': 'Rastreados',
+  'batch.filter.error': 'Com erro',
+  'batch.column.accessKey': 'Chave',
+  'batch.column.estimatedDelivery': 'Prev. Entrega',
+  'batch.column.lastEvent': 'Último Evento',
+  'batch.row.pending': 'Na fila',
+  'batch.row.processing': 'Processando...',
+  'batch.noMatches': 'Nenhum resultado corresponde ao filtro.',
+
+  // Watchlist
+  'watchlist.title': 'Rastreios Acompanhados',
+  'watchlist.refreshing': 'Atualizando...',
+  'watchlist.refreshNow': 'Atualizar agora',
+  'watchlist.pollEvery': 'Verificar a cada',
+  'watchlist.minutes': '{count} min',
+  'watchlist.archiveAfter': 'Arquivar entregues após',
+  'watchlist.days': 'dias',
+  'watchlist.empty': 'Nenhum rastreio ativo sendo acompanhado.',
+  'watchlist.showArchived': 'Mostrar arquivados ({count})',
+  'watchlist.hideArchived': 'Ocultar arquivados ({count})',
+  'watchlist.newEvents.one': '{count} novo evento',
+  'watchlist.newEvents.other': '{count} novos eventos',
+  'watchlist.delivered': 'Entregue',
+  'watchlist.updatedAt': 'Atualizado em {date}',
+  'watchlist.never': 'nunca',
+  'watchlist.remove': 'Remover',
+  'watchlist.removeLabel': 'Deixar de acompanhar {id}',
+  'watchlist.errors.save': 'Não foi possível salvar o acompanhamento neste navegador.',
+  'watchlist.errors.load': 'Não foi possível carregar os rastreios acompanhados neste navegador.',
+  'watchlist.errors.remove': 'Não foi possível remover o rastreio do acompanhamento.',
+  'watchlist.errors.refresh': 'Falha ao atualizar o rastreio.',
+
+  // Receivables calendar
+  'receivables.title': 'Calendário de duplicatas',
+  'receivables.description': 'Duplicatas das notas consultadas nesta sessão e das notas acompanhadas.',
+  'receivables.exportIcs': 'Exportar vencimentos (.ics)',
+  'receivables.total.one': '{count} duplicata · {value}',
+  'receivables.total.other': '{count} duplicatas · {value}',
+  'receivables.overdueTotal.one': '{count} vencida · {value}',
+  'receivables.overdueTotal.other': '{count} vencidas · {value}',
+  'receivables.dayInstallments.one': '{count} duplicata, {value}',
+  'receivables.dayInstallments.other': '{count} duplicatas, {value}',
+  'receivables.previousMonth': 'Mês anterior',
+  'receivables.nextMonth': 'Próximo mês',
+  'receivables.currentMonth': 'Mês atual',
+  'receivables.dueIn': 'Vencimentos em {month}',
+  'receivables.dueOn': 'Vencimentos em {date}',
+  'receivables.showMonth': 'Ver o mês inteiro',
+  'receivables.emptyMonth': 'Nenhuma duplicata vence neste mês.',
+  'receivables.nf': 'NF {nf}',
+  'receivables.openShipment': 'Abrir o rastreio da NF {nf}',
+  'receivables.installment': 'Duplicata {number}',
+  'receivables.overdueBadge': 'Vencida',
+  'receivables.delivery.deliveredBeforeDue': 'Entregue antes do 1º vencimento',
+  'receivables.delivery.deliveredAfterDue': 'Entregue após o 1º vencimento',
+  'receivables.delivery.pending': 'Ainda não entregue',
+  'receivables.delivery.pendingPastDue': 'Não entregue e 1º vencimento já passou',
+  'receivables.totals.title': 'Totais',
+  'receivables.totals.groupBy': 'Agrupar por',
+  'receivables.totals.count': 'Duplicatas',
+  'receivables.totals.value': 'Valor',
+  'receivables.totals.overdue': 'Vencido',
+  'receivables.grouping.week': 'Semana',
+  'receivables.grouping.month': 'Mês',
+  'receivables.grouping.supplier': 'Fornecedor',
+  'receivables.weekOf': 'Semana de {date}',
+  'receivables.ics.summary': 'Duplicata {number} · NF {nf} · {supplier} · {value}',
+  'receivables.ics.description': 'Chave de acesso da NF-e: {key}',
+
+  // Carrier performance dashboard
+  'performance.title': 'Desempenho das transportadoras',
+  'performance.description': 'Cada nota consultada fica registrada neste navegador com os dados mais recentes do rastreio. No prazo = entregue até a previsão de entrega; remessas em aberto com a previsão vencida contam como atrasadas.',
+  'performance.show': 'Mostrar painel',
+  'performance.hide': 'Ocultar painel',
+  'performance.loading': 'Carregando histórico...',
+  'performance.loadFailed': 'Não foi possível ler o histórico de consultas deste navegador.',
+  'performance.empty': 'Nenhuma nota registrada ainda. As consultas feitas a partir de agora aparecem aqui.',
+  'performance.recorded.one': '{count} nota registrada',
+  'performance.recorded.other': '{count} notas registradas',
+  'performance.groupBy': 'Agrupar por',
+  'performance.dimension.carrier': 'Transportadora',
+  'performance.dimension.uf': 'UF de destino',
+  'performance.dimension.region': 'Região de destino',
+  'performance.dimension.month': 'Mês',
+  'performance.filter.region': 'Região',
+  'performance.filter.carrier': 'Transportadora',
+  'performance.filter.allRegions': 'Todas as regiões',
+  'performance.filter.allCarriers': 'Todas as transportadoras',
+  'performance.region.N': 'Norte',
+  'performance.region.NE': 'Nordeste',
+  'performance.region.CO': 'Centro-Oeste',
+  'performance.region.SE': 'Sudeste',
+  'performance.region.S': 'Sul',
+  'performance.unknown': 'Não identificado',
+  'performance.column.shipments': 'Remessas',
+  'performance.column.delivered': 'Entregues',
+  'performance.column.averageTransitDays': 'Trânsito médio (dias)',
+  'performance.column.onTimeRate': 'No prazo (%)',
+  'performance.column.onTime': 'No prazo',
+  'performance.column.late': 'Atrasadas',
+  'performance.column.failedAttempts': 'Tentativas frustradas',
+  'performance.column.shipmentsWithFailures': 'Remessas com tentativa frustrada',
+  'performance.chart.onTimeRate': 'Entregas no prazo',
+  'performance.chart.averageTransitDays': 'Tempo médio de trânsito',
+  'performance.chart.failedAttempts': 'Tentativas de entrega frustradas',
+  'performance.chart.more.one': '+{count} grupo na tabela abaixo',
+  'performance.chart.more.other': '+{count} grupos na tabela abaixo',
+  'performance.failedShipments.one': '{count} remessa',
+  'performance.failedShipments.other': '{count} remessas',
+  'performance.days': '{days} d',
+  'performance.noData': 'Sem dados suficientes',
+  'performance.noMatches': 'Nenhuma nota corresponde aos filtros.',
+  'performance.exportCsv': 'Exportar CSV',
+  'performance.exportFailed': 'Falha ao exportar o CSV. Tente novamente.',
+  'performance.clear': 'Limpar histórico',
+  'performance.clearConfirm': 'Apagar todo o histórico deste navegador?',
+  'performance.clearYes': 'Apagar',
+  'performance.clearNo': 'Cancelar',
+  'performance.clearFailed': 'Não foi possível limpar o histórico.',
+
+  // PDF report
+  'pdf.header': 'Relatório de Rastreio',
+  'pdf.generatedAt': 'Gerado em {date}',
+  'pdf.footerAccessKey': 'Chave de acesso: {key}',
+  'pdf.page': 'Página {page} de {total}',
+  'pdf.title': 'Rastreio da Nota Fiscal',
+  'pdf.shipmentSection': 'Resumo do Envio',
+  'pdf.providerStatus': 'Status ({provider})',
+  'pdf.providerWeight': 'Peso ({provider})',
+  'pdf.summaryAi': 'Resumo da IA ({name})',
+  'pdf.summary': 'Resumo',
+  'pdf.analysisAi': 'Análise da IA ({name})',
+  'pdf.analysis': 'Análise da Remessa',
+  'pdf.riskLevel': 'Nível de risco',
+  'pdf.nextStep': 'Próximo passo provável',
+  'pdf.problems': 'Problemas',
+  'pdf.noProblems': 'Nenhum identificado',
+  'pdf.customerMessage': 'Mensagem ao cliente',
+  'pdf.partiesSection': 'Emitente e Destinatário',
+  'pdf.documentFallback': 'Doc.',
+  'pdf.itemsSection': 'Itens da Nota Fiscal',
+  'pdf.itemsTotal': 'Total ({items})',
+  'pdf.volumesSection': 'Volumes Transportados',
+  'pdf.invoiceSection': 'Fatura',
+  'pdf.invoiceNumber': 'Número',
+  'pdf.installmentsSection': 'Duplicatas',
+  'pdf.installment': 'Parcela',
+  'pdf.cteSection': 'Conhecimento de Transporte (CT-e)',
+  'pdf.cteNumberSeries': 'Número/Série',
+  'pdf.cteKey': 'Chave do CT-e',
+  'pdf.cteRoute': 'Trajeto',
+  'pdf.freightValue': 'Valor do frete',
+  'pdf.cargoValue': 'Valor da carga',
+  'pdf.historySection': 'Histórico de Rastreio ({provider})',
+} as const;
+
+export type MessageKey = keyof typeof ptBR;
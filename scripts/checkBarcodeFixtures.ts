@@ -0,0 +1,61 @@
+// scripts/checkBarcodeFixtures.ts
+// Decodes the sample images in fixtures/barcodes with the same code the upload uses and checks the key:
+//   npm run check-barcodes
+// The fixtures are 8-bit greyscale BMPs (an uncompressed format Node can read without an image library)
+// and can also be picked in the app's "read from image" upload.
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { BarcodeImage, decodeAccessKeyFromImage } from '../utils/barcodeReader';
+
+const FIXTURES_DIR = join(import.meta.dirname, '..', 'fixtures', 'barcodes');
+
+const EXPECTED_ACCESS_KEY = '35241001234567000190550010000123451000123459';
+
+const FIXTURES = [
+  { file: 'danfe-code128.bmp', description: 'DANFE CODE-128C barcode' },
+  { file: 'nfce-qrcode.bmp', description: 'NFC-e QR code URL (?p=<key>|...)' },
+];
+
+// Only the layout the fixtures use: BITMAPINFOHEADER, 8 bits per pixel with a palette, uncompressed
+const readBmp = (buffer: Buffer): BarcodeImage => {
+  if (buffer.toString('ascii', 0, 2) !== 'BM' || buffer.readUInt16LE(28) !== 8 || buffer.readUInt32LE(30) !== 0) {
+    throw new Error('Apenas BMP de 8 bits sem compressão é suportado');
+  }
+  const pixelOffset = buffer.readUInt32LE(10);
+  const paletteOffset = 14 + buffer.readUInt32LE(14);
+  const width = buffer.readInt32LE(18);
+  const rawHeight = buffer.readInt32LE(22);
+  const height = Math.abs(rawHeight);
+  const rowSize = Math.ceil(width / 4) * 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (rawHeight > 0 ? height - 1 - y : y) * rowSize; // Positive height: bottom-up rows
+    for (let x = 0; x < width; x++) {
+      const color = paletteOffset + buffer[row + x] * 4; // Palette entries are BGRA
+      const offset = (y * width + x) * 4;
+      data[offset] = buffer[color + 2];
+      data[offset + 1] = buffer[color + 1];
+      data[offset + 2] = buffer[color];
+      data[offset + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+let failures = 0;
+for (const { file, description } of FIXTURES) {
+  let result: string;
+  try {
+    result = decodeAccessKeyFromImage(readBmp(readFileSync(join(FIXTURES_DIR, file))));
+  } catch (error) {
+    result = `erro: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  const passed = result === EXPECTED_ACCESS_KEY;
+  if (!passed) failures++;
+  console.log(`${passed ? 'OK   ' : 'FALHA'} ${file} (${description}): ${result}`);
+}
+
+if (failures > 0) {
+  console.error(`${failures} de ${FIXTURES.length} imagens não retornaram a chave ${EXPECTED_ACCESS_KEY}`);
+  process.exit(1);
+}
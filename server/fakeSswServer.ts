@@ -0,0 +1,98 @@
+// server/fakeSswServer.ts
+// Local stand-in for the SSW tracking API, to exercise the proxy without hitting the real service:
+//   npm run fake-ssw
+//   SSW_API_URL=http://localhost:8788/api/trackingdanfe npm run server
+// Every key gets a small in-transit history; keys in FAKE_SSW_NOT_FOUND_KEYS (comma-separated) are
+// answered with success:false, and FAKE_SSW_FAIL_STATUS makes every request fail with that HTTP status.
+import { createServer, IncomingMessage } from 'node:http';
+
+const port = Number(process.env.FAKE_SSW_PORT) || 8788;
+const notFoundKeys = new Set((process.env.FAKE_SSW_NOT_FOUND_KEYS || '').split(',').map(key => key.trim()).filter(Boolean));
+const failStatus = Number(process.env.FAKE_SSW_FAIL_STATUS) || 0;
+const delayMs = Number(process.env.FAKE_SSW_DELAY_MS) || 0;
+
+let requestCount = 0;
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// SSW dates: ISO without timezone for events, dd/mm/yy inside the emission description
+const daysFromNow = (days: number, hour: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  date.setHours(hour, 0, 0, 0);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(hour)}:00:00`;
+};
+
+const toSswShortDate = (isoLocal: string): string => {
+  const [year, month, day] = isoLocal.slice(0, 10).split('-');
+  return `${day}/${month}/${year.slice(2)}`;
+};
+
+const buildTrackingResponse = (accessKey: string) => ({
+  success: true,
+  message: 'Documento localizado',
+  documento: {
+    header: {
+      remetente: 'EMPRESA REMETENTE LTDA',
+      destinatario: 'CLIENTE DESTINATARIO LTDA',
+      nro_nf: String(parseInt(accessKey.slice(25, 34), 10)),
+    },
+    tracking: [
+      {
+        data_hora: daysFromNow(-3, 9),
+        ocorrencia: 'DOCUMENTO DE TRANSPORTE EMITIDO',
+        cidade: 'SAO PAULO / SP',
+        descricao: `Previsao de entrega: ${toSswShortDate(daysFromNow(2, 0))}. Peso: 12.5 Kg`,
+        codigo_ssw: '80',
+      },
+      {
+        data_hora: daysFromNow(-2, 18),
+        ocorrencia: 'SAIDA DE UNIDADE',
+        cidade: 'SAO PAULO / SP',
+        descricao: 'Saida da unidade SAO em direcao a CAMPINAS',
+        codigo_ssw: '82',
+      },
+      {
+        data_hora: daysFromNow(-1, 7),
+        ocorrencia: 'CHEGADA EM UNIDADE',
+        cidade: 'CAMPINAS / SP',
+        descricao: 'Chegada na unidade CPQ',
+        codigo_ssw: '83',
+      },
+    ],
+  },
+});
+
+const server = createServer(async (req, res) => {
+  requestCount++;
+  const body = await readBody(req);
+  let accessKey = '';
+  try {
+    accessKey = String(JSON.parse(body).chave_nfe || '');
+  } catch (e) { /* Treated as a missing key below */ }
+  console.log(`[fake-ssw] #${requestCount} ${req.method} ${req.url} chave_nfe=${accessKey || '(ausente)'}`);
+
+  if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  if (req.method !== 'POST') {
+    res.writeHead(405).end(JSON.stringify({ success: false, message: 'Metodo nao permitido' }));
+  } else if (failStatus) {
+    res.writeHead(failStatus).end(JSON.stringify({ success: false, message: 'Falha simulada' }));
+  } else if (!accessKey || notFoundKeys.has(accessKey)) {
+    res.writeHead(200).end(JSON.stringify({ success: false, message: 'Chave de rastreamento não encontrada no SSW.' }));
+  } else {
+    res.writeHead(200).end(JSON.stringify(buildTrackingResponse(accessKey)));
+  }
+});
+
+server.listen(port, () => {
+  console.log(`SSW falso ouvindo em http://localhost:${port}/api/trackingdanfe`);
+});
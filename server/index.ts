@@ -0,0 +1,30 @@
+// server/index.ts
+// Tracking proxy: `npm run server`. The browser app uses it when built with TRACKING_MODE=proxy.
+import { createTrackingProxyServer } from './trackingProxy';
+
+const readNumber = (name: string, defaultValue: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && !isNaN(value) ? value : defaultValue;
+};
+
+const port = readNumber('TRACKING_PROXY_PORT', 8787);
+
+const server = createTrackingProxyServer({
+  cacheTtlMs: readNumber('CACHE_TTL_SECONDS', 300) * 1000,
+  rateLimitMax: readNumber('RATE_LIMIT_MAX', 30),
+  rateLimitWindowMs: readNumber('RATE_LIMIT_WINDOW_SECONDS', 60) * 1000,
+  corsOrigin: process.env.CORS_ORIGIN || '*',
+  trustForwardedFor: process.env.TRUST_FORWARDED_FOR === 'true',
+  llm: process.env.OPENAI_BASE_URL && process.env.OPENAI_MODEL
+    ? { baseUrl: process.env.OPENAI_BASE_URL.replace(/\/+$/, ''), apiKey: process.env.OPENAI_API_KEY || undefined, model: process.env.OPENAI_MODEL }
+    : undefined,
+});
+
+server.listen(port, () => {
+  console.log(`Proxy de rastreio ouvindo em http://localhost:${port}/api/tracking/:chave`);
+  console.log(`API SSW: ${process.env.SSW_API_URL || 'https://ssw.inf.br/api/trackingdanfe (padrão)'}`);
+  console.log(`Servidor LLM: ${process.env.OPENAI_BASE_URL && process.env.OPENAI_MODEL ? `${process.env.OPENAI_BASE_URL} (${process.env.OPENAI_MODEL})` : 'não configurado'}`);
+  if (process.env.OPENAI_API_KEY && (process.env.CORS_ORIGIN || '*') === '*') {
+    console.warn('Atenção: OPENAI_API_KEY configurada com CORS_ORIGIN=*; qualquer site pode usar a chave. Defina CORS_ORIGIN com a origem do app.');
+  }
+});
@@ -0,0 +1,44 @@
+// server/rateLimiter.ts
+
+interface ClientWindow {
+  count: number;
+  windowStart: number; // Epoch ms
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // Time until the client's window resets
+}
+
+export interface RateLimiter {
+  hit: (clientId: string, now?: number) => RateLimitResult;
+  prune: (now?: number) => void; // Forgets clients whose window has ended
+}
+
+// Fixed-window limiter: each client may make `maxRequests` requests per `windowMs`
+export const createRateLimiter = (maxRequests: number, windowMs: number): RateLimiter => {
+  const clients = new Map<string, ClientWindow>();
+
+  return {
+    hit: (clientId, now = Date.now()) => {
+      let window = clients.get(clientId);
+      if (!window || now - window.windowStart >= windowMs) {
+        window = { count: 0, windowStart: now };
+        clients.set(clientId, window);
+      }
+      const retryAfterSeconds = Math.max(1, Math.ceil((window.windowStart + windowMs - now) / 1000));
+
+      if (window.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterSeconds };
+      }
+      window.count++;
+      return { allowed: true, remaining: maxRequests - window.count, retryAfterSeconds };
+    },
+    prune: (now = Date.now()) => {
+      for (const [clientId, window] of clients) {
+        if (now - window.windowStart >= windowMs) clients.delete(clientId);
+      }
+    },
+  };
+};
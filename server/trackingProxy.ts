@@ -0,0 +1,241 @@
+// server/trackingProxy.ts
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { XmlCarrierInfo } from '../types';
+import { validateAccessKey } from '../utils/accessKey';
+import { resolveTrackingProvider } from '../services/providers/registry';
+import { mapProviderResponse } from '../services/trackingService';
+import { fetchJson, withRetry } from '../services/http';
+import { toTrackingError, TrackingErrorKind } from '../services/trackingErrors';
+import { LocalizedMessage, MessageParam, translateMessage } from '../i18n/i18n';
+import { createTtlCache } from './ttlCache';
+import { createRateLimiter } from './rateLimiter';
+
+export interface TrackingProxyConfig {
+  cacheTtlMs: number; // 0 disables the cache
+  rateLimitMax: number; // Requests per client per window
+  rateLimitWindowMs: number;
+  corsOrigin: string; // Value of Access-Control-Allow-Origin
+  trustForwardedFor: boolean; // Identify clients by X-Forwarded-For (only behind a trusted reverse proxy)
+  llm?: LlmServerConfig; // OpenAI-compatible server used by the summarizer; the route answers 503 without it
+}
+
+export interface LlmServerConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey?: string; // Only known to the proxy, never sent to the browser
+  model: string; // Always set here, so callers cannot spend the key on another model
+}
+
+const TRACKING_ROUTE = /^\/api\/tracking\/([^/]+)\/?$/;
+const LLM_ROUTE = /^\/api\/llm\/chat\/completions\/?$/;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+const MAX_LLM_BODY_BYTES = 1024 * 1024;
+// Local models can be slow to answer, especially on the first request
+const LLM_TIMEOUT_MS = 60000;
+const LLM_SERVICE_NAME: MessageParam = { code: 'services.llmServer' };
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// `error` is the pt-BR text for API clients; the app translates `code` + `params` in the user's language
+const errorBody = (message: LocalizedMessage, kind?: TrackingErrorKind) => ({
+  error: translateMessage(message),
+  code: message.code,
+  params: message.params,
+  kind,
+});
+
+const getClientId = (req: IncomingMessage, trustForwardedFor: boolean): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (trustForwardedFor && typeof forwardedFor === 'string' && forwardedFor.trim()) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// JSON object sent by the client, or undefined when the body is too large or is not a JSON object
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown> | undefined> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > maxBytes) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        resolve(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined);
+      } catch (e) {
+        resolve(undefined);
+      }
+    });
+    req.on('error', reject);
+  });
+
+// A malformed escape (e.g. "%E0%A4%A") makes decodeURIComponent throw; the segment is then validated as sent,
+// so the client gets the access key error (non-digits) instead of an internal error
+const decodePathSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return segment;
+  }
+};
+
+// Optional carrier from the XML, so the proxy picks the same provider and carrier name as the browser would
+const getCarrierFromQuery = (searchParams: URLSearchParams): XmlCarrierInfo | undefined => {
+  const name = searchParams.get('transportadora') || undefined;
+  const cnpj = searchParams.get('cnpj') || undefined;
+  return name || cnpj ? { name, cnpj } : undefined;
+};
+
+const ERROR_HTTP_STATUS: Record<TrackingErrorKind, number> = {
+  not_found: 404,
+  timeout: 504,
+  http: 502,
+  network: 502,
+  blocked: 502,
+  malformed: 502,
+  unexpected: 500,
+};
+
+export const createTrackingProxyServer = (config: TrackingProxyConfig): Server => {
+  const rawResponseCache = createTtlCache<unknown>(config.cacheTtlMs);
+  const rateLimiter = createRateLimiter(config.rateLimitMax, config.rateLimitWindowMs);
+  // Concurrent requests for the same key share one upstream call
+  const pendingRequests = new Map<string, Promise<unknown>>();
+
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': config.corsOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  };
+
+  const fetchRawCached = async (cacheKey: string, fetchRaw: () => Promise<unknown>): Promise<{ raw: unknown; cacheHit: boolean }> => {
+    const cached = rawResponseCache.get(cacheKey);
+    if (cached !== undefined) return { raw: cached, cacheHit: true };
+
+    let pending = pendingRequests.get(cacheKey);
+    if (!pending) {
+      pending = fetchRaw().finally(() => pendingRequests.delete(cacheKey));
+      pendingRequests.set(cacheKey, pending);
+    }
+    const raw = await pending;
+    rawResponseCache.set(cacheKey, raw);
+    return { raw, cacheHit: false };
+  };
+
+  // Forwards an OpenAI-compatible chat completion, adding the API key here so it never reaches the browser.
+  // Anyone allowed by CORS_ORIGIN can use it, so restrict that origin whenever a key is configured.
+  // Status and body are passed through as the LLM server sent them.
+  const handleLlmRequest = async (req: IncomingMessage, res: ServerResponse, headers: Record<string, string>): Promise<void> => {
+    if (!config.llm) {
+      sendJson(res, 503, errorBody({ code: 'errors.proxy.llmNotConfigured' }), headers);
+      return;
+    }
+    const body = await readJsonBody(req, MAX_LLM_BODY_BYTES);
+    if (!body || !Array.isArray(body.messages) || (body.temperature !== undefined && typeof body.temperature !== 'number')) {
+      sendJson(res, 400, errorBody({ code: 'errors.proxy.invalidBody' }), headers);
+      return;
+    }
+
+    const upstreamHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.llm.apiKey) upstreamHeaders.Authorization = `Bearer ${config.llm.apiKey}`; // Local servers usually need no key
+    try {
+      const response = await fetchJson(
+        `${config.llm.baseUrl}/chat/completions`,
+        {
+          method: 'POST',
+          headers: upstreamHeaders,
+          // Only the conversation and temperature come from the client; the model is the proxy's
+          body: JSON.stringify({ model: config.llm.model, messages: body.messages, temperature: body.temperature }),
+        },
+        { timeoutMs: LLM_TIMEOUT_MS, serviceName: LLM_SERVICE_NAME },
+      );
+      sendJson(res, response.status, response.body ?? null, headers);
+    } catch (error) {
+      const trackingError = toTrackingError(error);
+      console.error('Erro ao consultar o servidor de modelo de linguagem:', trackingError);
+      sendJson(res, ERROR_HTTP_STATUS[trackingError.kind], errorBody(trackingError.toMessage(), trackingError.kind), headers);
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const routeMatch = url.pathname.match(TRACKING_ROUTE);
+    const isLlmRoute = LLM_ROUTE.test(url.pathname);
+    if (!routeMatch && !isLlmRoute) {
+      sendJson(res, 404, errorBody({ code: 'errors.proxy.routeNotFound' }), corsHeaders);
+      return;
+    }
+    const allowedMethod = isLlmRoute ? 'POST' : 'GET';
+    if (req.method !== allowedMethod) {
+      sendJson(res, 405, errorBody({ code: 'errors.proxy.methodNotAllowed' }), { ...corsHeaders, Allow: `${allowedMethod}, OPTIONS` });
+      return;
+    }
+
+    const rateLimit = rateLimiter.hit(getClientId(req, config.trustForwardedFor));
+    const rateLimitHeaders = { ...corsHeaders, 'X-RateLimit-Remaining': String(rateLimit.remaining) };
+    if (!rateLimit.allowed) {
+      sendJson(
+        res,
+        429,
+        errorBody({ code: 'errors.proxy.rateLimited', params: { seconds: rateLimit.retryAfterSeconds } }),
+        { ...rateLimitHeaders, 'Retry-After': String(rateLimit.retryAfterSeconds) },
+      );
+      return;
+    }
+    if (!routeMatch) { // LLM route
+      await handleLlmRequest(req, res, rateLimitHeaders);
+      return;
+    }
+
+    const keyValidation = validateAccessKey(decodePathSegment(routeMatch[1]));
+    if (keyValidation.error) {
+      sendJson(res, 400, errorBody(keyValidation.error), rateLimitHeaders);
+      return;
+    }
+    const accessKey = keyValidation.normalizedKey;
+    const carrier = getCarrierFromQuery(url.searchParams);
+    const provider = resolveTrackingProvider(carrier);
+
+    try {
+      const { raw, cacheHit } = await fetchRawCached(`${provider.id}:${accessKey}`, () => withRetry(() => provider.fetchRaw(accessKey)));
+      const trackingInfo = mapProviderResponse(provider, raw, accessKey, carrier);
+      sendJson(res, 200, trackingInfo, { ...rateLimitHeaders, 'X-Cache': cacheHit ? 'HIT' : 'MISS' });
+    } catch (error) {
+      // The kind and code let the browser show the same message it would in direct mode
+      const trackingError = toTrackingError(error);
+      console.error(`Erro ao consultar o provedor ${provider.name} para a chave ${accessKey}:`, trackingError);
+      sendJson(res, ERROR_HTTP_STATUS[trackingError.kind], errorBody(trackingError.toMessage(), trackingError.kind), rateLimitHeaders);
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      console.error('Erro inesperado no proxy de rastreio:', error);
+      if (!res.headersSent) sendJson(res, 500, errorBody({ code: 'errors.proxy.internal' }), corsHeaders);
+    });
+  });
+
+  const pruneTimer = setInterval(() => {
+    rawResponseCache.prune();
+    rateLimiter.prune();
+  }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+  server.on('close', () => clearInterval(pruneTimer));
+
+  return server;
+};
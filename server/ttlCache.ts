@@ -0,0 +1,38 @@
+// server/ttlCache.ts
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number; // Epoch ms
+}
+
+export interface TtlCache<T> {
+  get: (key: string, now?: number) => T | undefined;
+  set: (key: string, value: T, now?: number) => void;
+  prune: (now?: number) => void; // Drops expired entries so keys never requested again do not pile up
+}
+
+// In-memory cache whose entries expire after a fixed time to live (0 disables caching)
+export const createTtlCache = <T,>(ttlMs: number): TtlCache<T> => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    get: (key, now = Date.now()) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set: (key, value, now = Date.now()) => {
+      if (ttlMs <= 0) return;
+      entries.set(key, { value, expiresAt: now + ttlMs });
+    },
+    prune: (now = Date.now()) => {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(key);
+      }
+    },
+  };
+};
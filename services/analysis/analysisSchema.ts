@@ -0,0 +1,100 @@
+// services/analysis/analysisSchema.ts
+import { Schema, Type } from "@google/genai";
+import type { AnalysisRiskLevel, ShipmentAnalysis, ShipmentProblem, ShipmentProblemKind } from '../../types';
+import { getLocale, Locale, translate } from '../../i18n/i18n';
+import { LocalizedError } from '../../i18n/localizedError';
+
+export const ANALYSIS_RISK_LEVELS: AnalysisRiskLevel[] = ['low', 'medium', 'high'];
+
+export const SHIPMENT_PROBLEM_KINDS: ShipmentProblemKind[] = [
+  'failed_delivery_attempt',
+  'address_issue',
+  'stuck_at_hub',
+  'delayed',
+  'returned',
+  'other',
+];
+
+export const getAnalysisRiskLevelLabel = (level: AnalysisRiskLevel, locale: Locale = getLocale()): string =>
+  translate(locale, `analysis.riskLevel.${level}`);
+
+export const getShipmentProblemKindLabel = (kind: ShipmentProblemKind, locale: Locale = getLocale()): string =>
+  translate(locale, `analysis.problemKind.${kind}`);
+
+// Response schema sent to Gemini. The model usually follows it, but the answer is still validated below.
+export const SHIPMENT_ANALYSIS_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    riskLevel: { type: Type.STRING, enum: ANALYSIS_RISK_LEVELS, description: 'Risco de atraso ou problema na entrega' },
+    nextStep: { type: Type.STRING, description: 'Próximo passo provável da remessa, em uma frase' },
+    problems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: SHIPMENT_PROBLEM_KINDS },
+          description: { type: Type.STRING, description: 'Descrição curta do problema' },
+          days: { type: Type.INTEGER, description: 'Dias parada ou em atraso, quando aplicável' },
+        },
+        required: ['kind', 'description'],
+        propertyOrdering: ['kind', 'description', 'days'],
+      },
+    },
+    customerMessage: { type: Type.STRING, description: 'Mensagem curta e cordial para enviar ao cliente' },
+  },
+  required: ['riskLevel', 'nextStep', 'problems', 'customerMessage'],
+  propertyOrdering: ['riskLevel', 'nextStep', 'problems', 'customerMessage'],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRequiredText = (source: Record<string, unknown>, field: string): string => {
+  const value = source[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new LocalizedError('errors.analysis.missingField', { field });
+  }
+  return value.trim();
+};
+
+// Problems the model got wrong are dropped rather than failing the whole analysis
+const readProblem = (rawProblem: unknown): ShipmentProblem | undefined => {
+  if (!isObject(rawProblem) || typeof rawProblem.description !== 'string' || !rawProblem.description.trim()) {
+    return undefined;
+  }
+  const kind = SHIPMENT_PROBLEM_KINDS.includes(rawProblem.kind as ShipmentProblemKind)
+    ? rawProblem.kind as ShipmentProblemKind
+    : 'other';
+  const problem: ShipmentProblem = { kind, description: rawProblem.description.trim() };
+  if (typeof rawProblem.days === 'number' && Number.isFinite(rawProblem.days) && rawProblem.days >= 0) {
+    problem.days = Math.round(rawProblem.days);
+  }
+  return problem;
+};
+
+// Validates the JSON text returned by the model; throws a LocalizedError when it cannot be used
+export const parseShipmentAnalysis = (text: string | undefined): ShipmentAnalysis => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text || '');
+  } catch (e) {
+    throw new LocalizedError('errors.analysis.invalidJson');
+  }
+  if (!isObject(raw)) {
+    throw new LocalizedError('errors.analysis.notObject');
+  }
+  if (!ANALYSIS_RISK_LEVELS.includes(raw.riskLevel as AnalysisRiskLevel)) {
+    throw new LocalizedError('errors.analysis.invalidRiskLevel', { value: JSON.stringify(raw.riskLevel) ?? 'undefined' });
+  }
+  if (raw.problems !== undefined && !Array.isArray(raw.problems)) {
+    throw new LocalizedError('errors.analysis.problemsNotList');
+  }
+  return {
+    riskLevel: raw.riskLevel as AnalysisRiskLevel,
+    nextStep: readRequiredText(raw, 'nextStep'),
+    problems: (raw.problems || [])
+      .map(readProblem)
+      .filter((problem: ShipmentProblem | undefined): problem is ShipmentProblem => problem !== undefined),
+    customerMessage: readRequiredText(raw, 'customerMessage'),
+  };
+};
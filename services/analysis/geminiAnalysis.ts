@@ -0,0 +1,37 @@
+// services/analysis/geminiAnalysis.ts
+import type { GenerateContentResponse } from "@google/genai";
+import type { ShipmentAnalysis, TrackingInfo } from '../../types';
+import { formatTrackingDataForPrompt, getAnswerLanguage } from '../summarizers/trackingPrompt';
+import { toGeminiError, GEMINI_MODEL, getGeminiClient } from '../geminiClient';
+import { parseShipmentAnalysis, SHIPMENT_ANALYSIS_RESPONSE_SCHEMA } from './analysisSchema';
+
+const buildAnalysisPrompt = (trackingInfo: TrackingInfo): string => `
+Você é um analista de logística que acompanha entregas para a equipe de atendimento.
+Analise os dados de rastreamento abaixo e responda somente com o JSON pedido. Escreva os textos em ${getAnswerLanguage()}.
+- riskLevel: "low" se a entrega segue normalmente ou já foi concluída, "medium" se há sinais de atraso, "high" se já está atrasada ou há uma ocorrência que impede a entrega.
+- nextStep: o próximo passo provável da remessa.
+- problems: problemas identificados no histórico (tentativa de entrega sem sucesso, problema de endereço, mercadoria parada em uma unidade há vários dias, atraso em relação à previsão, devolução). Informe em "days" quantos dias a mercadoria está parada ou atrasada. Lista vazia se não houver problemas.
+- customerMessage: mensagem curta e cordial para o cliente final, sem jargões e sem prometer datas que não estejam nos dados.
+Use apenas as informações fornecidas; não invente eventos, datas ou locais.
+
+Dados de Rastreamento:
+${formatTrackingDataForPrompt(trackingInfo)}
+`;
+
+export const analyzeTrackingWithGemini = async (trackingInfo: TrackingInfo): Promise<ShipmentAnalysis> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getGeminiClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildAnalysisPrompt(trackingInfo),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: SHIPMENT_ANALYSIS_RESPONSE_SCHEMA,
+      },
+    });
+  } catch (error) {
+    console.error("Erro ao chamar a API Gemini para a análise:", error);
+    throw toGeminiError(error);
+  }
+  return parseShipmentAnalysis(response.text);
+};
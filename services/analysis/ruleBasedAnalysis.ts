@@ -0,0 +1,80 @@
+// services/analysis/ruleBasedAnalysis.ts
+import type { AnalysisRiskLevel, ShipmentAnalysis, ShipmentProblem, ShipmentStatus, TrackingEvent, TrackingInfo } from '../../types';
+import { deriveShipmentStatus, getEventShipmentStatus, isProblemStatus } from '../../utils/shipmentStatus';
+import { assessDeliveryRisk, describeDeliveryRisk, STALLED_EVENT_DAYS } from '../../utils/deliveryRisk';
+import { buildTemplateSummary } from '../summarizers/templateSummarizer';
+import { formatEventLocation, formatEventStatus } from '../../utils/formatters';
+import { plural, t, tp } from '../../i18n/i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ADDRESS_ISSUE_PATTERN = /ENDERE[CÇ]O|MUDOU-SE|DESTINAT[AÁ]RIO\s+DESCONHECIDO|CEP\s+(INV[AÁ]LIDO|INCORRETO)/i;
+
+const hasValidTimestamp = (event: TrackingEvent): boolean => new Date(event.timestamp).getTime() > 0;
+
+const describesAddressIssue = (event: TrackingEvent): boolean =>
+  ADDRESS_ISSUE_PATTERN.test(`${event.status || ''} ${event.details || ''}`);
+
+const findProblems = (trackingInfo: TrackingInfo, status: ShipmentStatus, now: Date): ShipmentProblem[] => {
+  const problems: ShipmentProblem[] = [];
+  const { events } = trackingInfo;
+
+  const addressEvent = events.find(describesAddressIssue);
+  if (addressEvent) {
+    problems.push({ kind: 'address_issue', description: t('analysis.rules.addressIssue', { status: formatEventStatus(addressEvent) }) });
+  }
+  const failedAttempts = events.filter(event => getEventShipmentStatus(event) === 'delivery_failed' && !describesAddressIssue(event));
+  if (failedAttempts.length > 0) {
+    problems.push({
+      kind: 'failed_delivery_attempt',
+      description: tp('analysis.rules.failedAttempts', failedAttempts.length, { status: formatEventStatus(failedAttempts[0]) }),
+    });
+  }
+  if (status === 'returned') {
+    problems.push({ kind: 'returned', description: t('analysis.rules.returned') });
+  }
+
+  const deliveryRisk = assessDeliveryRisk(trackingInfo, now);
+  if (deliveryRisk.state === 'late') {
+    problems.push({ kind: 'delayed', description: describeDeliveryRisk(deliveryRisk), days: deliveryRisk.daysLate });
+  }
+
+  const lastEvent = events.find(hasValidTimestamp); // Events are newest first
+  if (lastEvent && status !== 'delivered' && status !== 'returned') {
+    const daysStuck = Math.floor((now.getTime() - new Date(lastEvent.timestamp).getTime()) / DAY_MS);
+    if (daysStuck >= STALLED_EVENT_DAYS) {
+      problems.push({
+        kind: 'stuck_at_hub',
+        description: t('analysis.rules.stuck', { location: formatEventLocation(lastEvent), duration: plural('common.days', daysStuck) }),
+        days: daysStuck,
+      });
+    }
+  }
+  return problems;
+};
+
+const getRiskLevel = (trackingInfo: TrackingInfo, status: ShipmentStatus, problems: ShipmentProblem[], now: Date): AnalysisRiskLevel => {
+  if (status === 'delivered') return 'low';
+  const deliveryRisk = assessDeliveryRisk(trackingInfo, now);
+  if (deliveryRisk.state === 'late' || isProblemStatus(status)) return 'high';
+  if (deliveryRisk.state === 'at_risk' || problems.length > 0) return 'medium';
+  return 'low';
+};
+
+// Analysis derived from the status taxonomy and the delivery deadline, used when Gemini is unavailable
+export const buildRuleBasedAnalysis = (trackingInfo: TrackingInfo, now: Date = new Date()): ShipmentAnalysis => {
+  const status = trackingInfo.canonicalStatus || deriveShipmentStatus(trackingInfo.events);
+  const problems = findProblems(trackingInfo, status, now);
+
+  let customerMessage = t('analysis.rules.customerMessage', { summary: buildTemplateSummary(trackingInfo) });
+  if (problems.length > 0) {
+    customerMessage += ` ${t('analysis.rules.followUp')}`;
+  }
+
+  return {
+    riskLevel: getRiskLevel(trackingInfo, status, problems, now),
+    nextStep: t(`analysis.rules.nextStep.${status}`),
+    problems,
+    customerMessage,
+  };
+};
@@ -0,0 +1,30 @@
+// services/analysisService.ts
+import type { ShipmentAnalysisResult, TrackingInfo } from '../types';
+import { isGeminiConfigured } from './geminiClient';
+import { analyzeTrackingWithGemini } from './analysis/geminiAnalysis';
+import { buildRuleBasedAnalysis } from './analysis/ruleBasedAnalysis';
+import { t } from '../i18n/i18n';
+
+const GEMINI_ANALYZER_NAME = 'Gemini';
+
+const analyzeWithRules = (trackingInfo: TrackingInfo, fallbackReason?: string): ShipmentAnalysisResult => ({
+  analysis: buildRuleBasedAnalysis(trackingInfo),
+  analyzerName: t('analysis.rulesName'),
+  generatedByAi: false,
+  fallbackReason,
+});
+
+// Structured analysis from Gemini; without a key, or when the answer is missing or invalid, the rules are used
+export const analyzeShipment = async (trackingInfo: TrackingInfo): Promise<ShipmentAnalysisResult> => {
+  if (!isGeminiConfigured() || process.env.SUMMARIZER === 'template') {
+    return analyzeWithRules(trackingInfo);
+  }
+  try {
+    const analysis = await analyzeTrackingWithGemini(trackingInfo);
+    return { analysis, analyzerName: GEMINI_ANALYZER_NAME, generatedByAi: true };
+  } catch (error) {
+    console.error('Falha ao gerar a análise com o Gemini:', error);
+    const detail = error instanceof Error ? error.message : t('common.unknownError');
+    return analyzeWithRules(trackingInfo, t('summary.unavailable', { name: GEMINI_ANALYZER_NAME, detail }));
+  }
+};
@@ -0,0 +1,64 @@
+// services/chat/trackingChat.ts
+import type { Content } from "@google/genai";
+import type { TrackingChatMessage, TrackingInfo } from '../../types';
+import { toGeminiError, GEMINI_MODEL, getGeminiClient, isGeminiConfigured } from '../geminiClient';
+import { LocalizedError } from '../../i18n/localizedError';
+import { formatFullTrackingContext } from './trackingChatContext';
+import { getAnswerLanguage, PROMPT_LOCALE } from '../summarizers/trackingPrompt';
+import { getIntlLocale } from '../../i18n/i18n';
+
+// Older turns are dropped so long conversations stay within the model's context
+const MAX_HISTORY_MESSAGES = 20;
+
+export const isTrackingChatAvailable = isGeminiConfigured;
+
+const buildSystemInstruction = (trackingInfo: TrackingInfo): string => `
+Você é um assistente de atendimento que responde perguntas sobre UMA remessa específica, descrita nos dados abaixo.
+Regras:
+- Responda somente com base nos dados abaixo. Não use conhecimento externo sobre a transportadora, rotas ou prazos.
+- Se a informação pedida não constar nos dados, diga claramente que ela não está disponível. Nunca invente datas, valores, locais, motivos ou previsões.
+- Quando perguntarem o motivo de algo (por exemplo, por que a carga está parada) e os dados não informarem o motivo, descreva o que os dados mostram (último evento, local, há quantos dias) e diga que a transportadora não informou o motivo.
+- Cite datas, valores e locais exatamente como aparecem nos dados.
+- Responda em ${getAnswerLanguage()}, de forma breve e objetiva.
+Hoje é ${new Date().toLocaleDateString(getIntlLocale(PROMPT_LOCALE))}.
+
+# Dados da remessa
+${formatFullTrackingContext(trackingInfo)}
+`;
+
+const toGeminiContent = (message: TrackingChatMessage): Content => ({
+  role: message.role === 'assistant' ? 'model' : 'user',
+  parts: [{ text: message.text }],
+});
+
+// Streams the answer to the question; onText receives the accumulated answer after each chunk.
+// Resolves with the full answer, or throws an Error with a user-facing message.
+export const streamTrackingChatAnswer = async (
+  trackingInfo: TrackingInfo,
+  history: TrackingChatMessage[],
+  question: string,
+  onText: (answerSoFar: string) => void,
+): Promise<string> => {
+  const questionMessage: TrackingChatMessage = { role: 'user', text: question };
+  const contents = [...history.slice(-MAX_HISTORY_MESSAGES), questionMessage].map(toGeminiContent);
+  let answer = '';
+  try {
+    const stream = await getGeminiClient().models.generateContentStream({
+      model: GEMINI_MODEL,
+      contents,
+      config: { systemInstruction: buildSystemInstruction(trackingInfo), temperature: 0.2 },
+    });
+    for await (const chunk of stream) {
+      if (!chunk.text) continue;
+      answer += chunk.text;
+      onText(answer);
+    }
+  } catch (error) {
+    console.error("Erro ao chamar a API Gemini para o chat:", error);
+    throw toGeminiError(error);
+  }
+  if (!answer.trim()) {
+    throw new LocalizedError('errors.gemini.emptyAnswer');
+  }
+  return answer.trim();
+};
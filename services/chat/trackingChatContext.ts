@@ -0,0 +1,148 @@
+// services/chat/trackingChatContext.ts
+import type { TrackingInfo, XmlPartyInfo } from '../../types';
+import { getEventShipmentStatus, getShipmentStatusLabel } from '../../utils/shipmentStatus';
+import { assessDeliveryRisk, describeDeliveryRisk, getDeliveryRiskLabel } from '../../utils/deliveryRisk';
+import {
+  formatCityUf,
+  formatCurrency as formatCurrencyForLocale,
+  formatDocument,
+  formatCurrentStatus,
+  formatEstimatedDelivery,
+  formatEventLocation,
+  formatEventStatus,
+  formatEventTimestamp,
+  formatIsoDate,
+  formatQuantity,
+  formatStreetAddress,
+} from '../../utils/formatters';
+import { PROMPT_LOCALE } from '../summarizers/trackingPrompt';
+
+const NOT_AVAILABLE = 'não disponível (o XML da nota não foi carregado ou não contém esta informação)';
+
+const formatParty = (party?: XmlPartyInfo): string => {
+  if (!party) return NOT_AVAILABLE;
+  const parts = [
+    party.name || party.fantasyName,
+    party.document ? `${party.documentType || 'Documento'} ${formatDocument(party.document)}` : undefined,
+    formatStreetAddress(party.address),
+    formatCityUf(party.address?.city, party.address?.uf),
+  ];
+  return parts.filter(Boolean).join(' - ') || NOT_AVAILABLE;
+};
+
+// The context is part of the pt-BR prompt, so every value is formatted in pt-BR whatever the UI language
+const formatCurrency = (value?: number): string => formatCurrencyForLocale(value, PROMPT_LOCALE);
+
+const formatNumber = (value?: number): string =>
+  value !== undefined ? formatQuantity(value, PROMPT_LOCALE) : 'não informado';
+
+const formatKg = (value?: number): string => (value !== undefined ? `${formatNumber(value)} kg` : 'não informado');
+
+// Everything known about the shipment, as plain text for the chat's system instruction. Unlike the
+// summary prompt, nothing is truncated: all events, items, installments and volumes are included.
+export const formatFullTrackingContext = (trackingInfo: TrackingInfo, now: Date = new Date()): string => {
+  const lines: string[] = [];
+  const deliveryRisk = assessDeliveryRisk(trackingInfo, now);
+
+  lines.push('## Remessa');
+  lines.push(`Chave de acesso da NF-e: ${trackingInfo.id}`);
+  lines.push(`Transportadora: ${trackingInfo.carrier}`);
+  lines.push(`Fonte do rastreio: ${trackingInfo.providerName || 'SSW'}`);
+  lines.push(`Status atual informado pela transportadora: ${formatCurrentStatus(trackingInfo, PROMPT_LOCALE)}`);
+  if (trackingInfo.canonicalStatus) lines.push(`Classificação do status: ${getShipmentStatusLabel(trackingInfo.canonicalStatus, PROMPT_LOCALE)}`);
+  lines.push(`Previsão de entrega: ${formatEstimatedDelivery(trackingInfo, PROMPT_LOCALE)}`);
+  if (deliveryRisk.state !== 'unknown') {
+    lines.push(`Situação do prazo: ${getDeliveryRiskLabel(deliveryRisk.state, PROMPT_LOCALE)} - ${describeDeliveryRisk(deliveryRisk, PROMPT_LOCALE)}`);
+  }
+  lines.push(`Origem: ${trackingInfo.origin || 'não informada'}`);
+  lines.push(`Destino: ${trackingInfo.destination || 'não informado'}`);
+  if (trackingInfo.nfNumber) lines.push(`Número da NF: ${trackingInfo.nfNumber}`);
+  if (trackingInfo.weight) lines.push(`Peso informado pela transportadora: ${trackingInfo.weight}`);
+
+  lines.push('', '## Histórico completo de eventos (mais recentes primeiro)');
+  if (trackingInfo.events.length === 0) {
+    lines.push('Nenhum evento registrado.');
+  }
+  trackingInfo.events.forEach((event, index) => {
+    const status = getEventShipmentStatus(event);
+    const classification = status !== 'unknown' ? ` [${getShipmentStatusLabel(status, PROMPT_LOCALE)}]` : '';
+    const details = event.details ? ` - ${event.details}` : '';
+    lines.push(`${index + 1}. ${formatEventTimestamp(event.timestamp, PROMPT_LOCALE)} | ${formatEventLocation(event, PROMPT_LOCALE)} | ${formatEventStatus(event, PROMPT_LOCALE)}${classification}${details}`);
+  });
+
+  lines.push('', '## Emitente e destinatário (XML)');
+  lines.push(`Emitente: ${formatParty(trackingInfo.xmlEmitter)}`);
+  lines.push(`Destinatário: ${formatParty(trackingInfo.xmlRecipient)}`);
+
+  lines.push('', '## Fatura (XML)');
+  const invoice = trackingInfo.xmlInvoiceInfo;
+  if (!invoice) {
+    lines.push(`Fatura: ${NOT_AVAILABLE}`);
+  } else {
+    lines.push(`Número da fatura: ${invoice.number || 'não informado'}`);
+    lines.push(`Valor original: ${formatCurrency(invoice.originalValue)}`);
+    lines.push(`Desconto: ${formatCurrency(invoice.discountValue)}`);
+    lines.push(`Valor líquido: ${formatCurrency(invoice.netValue)}`);
+  }
+
+  lines.push('', '## Duplicatas (XML), na ordem da nota');
+  if (!trackingInfo.xmlInstallments || trackingInfo.xmlInstallments.length === 0) {
+    lines.push(`Duplicatas: ${NOT_AVAILABLE}`);
+  } else {
+    trackingInfo.xmlInstallments.forEach((installment, index) => {
+      lines.push(`${index + 1}ª duplicata (nº ${installment.number || 'não informado'}): vencimento ${formatIsoDate(installment.dueDate, PROMPT_LOCALE)}, valor ${formatCurrency(installment.value)}`);
+    });
+  }
+
+  lines.push('', '## Volumes (XML)');
+  const volumes = trackingInfo.xmlVolumes;
+  if (!volumes || volumes.groups.length === 0) {
+    lines.push(`Volumes: ${NOT_AVAILABLE}`);
+  } else {
+    volumes.groups.forEach((group, index) => {
+      const parts = [
+        `quantidade ${formatNumber(group.quantity)}`,
+        group.species && `espécie ${group.species}`,
+        group.brand && `marca ${group.brand}`,
+        group.numbering && `numeração ${group.numbering}`,
+        `peso líquido ${formatKg(group.netWeight)}`,
+        `peso bruto ${formatKg(group.grossWeight)}`,
+        group.seals && group.seals.length > 0 && `lacres ${group.seals.join(', ')}`,
+      ];
+      lines.push(`Grupo ${index + 1}: ${parts.filter(Boolean).join(', ')}`);
+    });
+    lines.push(`Totais: ${formatNumber(volumes.totals.quantity)} volumes, peso líquido ${formatKg(volumes.totals.netWeight)}, peso bruto ${formatKg(volumes.totals.grossWeight)}`);
+  }
+
+  lines.push('', '## Itens da nota (XML)');
+  if (!trackingInfo.xmlItems || trackingInfo.xmlItems.length === 0) {
+    lines.push(`Itens: ${NOT_AVAILABLE}`);
+  } else {
+    trackingInfo.xmlItems.forEach((item, index) => {
+      lines.push(
+        `${item.itemNumber || index + 1}. ${item.description || 'sem descrição'} (código ${item.code || 'não informado'}, NCM ${item.ncm || '-'}, CFOP ${item.cfop || '-'}): ` +
+        `${formatNumber(item.quantity)} ${item.unit || ''} x ${formatCurrency(item.unitPrice)} = ${formatCurrency(item.totalValue)}`,
+      );
+    });
+  }
+
+  const cte = trackingInfo.xmlCteInfo;
+  if (cte) {
+    lines.push('', '## CT-e (conhecimento de transporte)');
+    lines.push(`Chave do CT-e: ${cte.accessKey}`);
+    if (cte.number) lines.push(`Número/série: ${cte.number}${cte.series ? `/${cte.series}` : ''}`);
+    lines.push(`Trecho: ${formatCityUf(cte.originCity, cte.originUf) || 'não informado'} -> ${formatCityUf(cte.destinationCity, cte.destinationUf) || 'não informado'}`);
+    if (cte.freight) {
+      lines.push(`Valor total do frete: ${formatCurrency(cte.freight.totalValue)}; valor a receber: ${formatCurrency(cte.freight.receivableValue)}`);
+      cte.freight.components.forEach(component => lines.push(`Componente do frete: ${component.name || 'sem nome'} = ${formatCurrency(component.value)}`));
+    }
+    if (cte.cargo) {
+      lines.push(`Valor da carga: ${formatCurrency(cte.cargo.value)}; produto predominante: ${cte.cargo.predominantProduct || 'não informado'}`);
+    }
+    if (cte.sender) lines.push(`Remetente: ${formatParty(cte.sender)}`);
+    if (cte.recipient) lines.push(`Destinatário do CT-e: ${formatParty(cte.recipient)}`);
+    if (cte.expeditor) lines.push(`Expedidor: ${formatParty(cte.expeditor)}`);
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,29 @@
+// services/geminiClient.ts
+import { GoogleGenAI } from "@google/genai";
+import { LocalizedError } from '../i18n/localizedError';
+
+const apiKey = process.env.API_KEY;
+
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+export const isGeminiConfigured = (): boolean => !!apiKey;
+
+// Created on first use, so builds without a key never instantiate the client
+let client: GoogleGenAI | null = null;
+export const getGeminiClient = (): GoogleGenAI => {
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+// Turns the SDK's English error messages into something the user can act on
+export const toGeminiError = (error: unknown): LocalizedError => {
+  const errorMessage = error instanceof Error ? error.message : undefined;
+  const lowerCaseMessage = (errorMessage || '').toLowerCase();
+  if (lowerCaseMessage.includes("api key not valid") || lowerCaseMessage.includes("api_key_invalid")) {
+    return new LocalizedError('errors.gemini.invalidKey');
+  }
+  if (lowerCaseMessage.includes("quota") || lowerCaseMessage.includes("resource has been exhausted")) {
+    return new LocalizedError('errors.gemini.quota');
+  }
+  return new LocalizedError('errors.gemini.unexpected', { detail: errorMessage ?? { code: 'common.unknownError' } });
+};
@@ -0,0 +1,79 @@
+// services/http.ts
+import type { MessageParam } from '../i18n/i18n';
+import { TrackingError } from './trackingErrors';
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+
+export interface JsonResponse {
+  status: number;
+  ok: boolean;
+  body: any; // undefined when the response is not valid JSON
+}
+
+interface FetchJsonOptions {
+  timeoutMs?: number;
+  serviceName: MessageParam; // Used in the error messages, e.g. "SSW" or a translated service description
+}
+
+// fetch() rejects with a TypeError both when the network is down and when the browser blocks the
+// request (CORS). Outside a browser, or when the browser reports being offline, it is a network error.
+const classifyFetchFailure = (error: unknown, serviceName: MessageParam): TrackingError => {
+  const isBrowser = typeof window !== 'undefined' && typeof navigator !== 'undefined';
+  if (isBrowser && navigator.onLine) {
+    return new TrackingError('blocked', 'errors.tracking.blocked', { params: { service: serviceName }, cause: error });
+  }
+  return new TrackingError('network', 'errors.tracking.network', { params: { service: serviceName }, cause: error });
+};
+
+// fetch + JSON parsing under a single timeout. Failures before a response arrives become TrackingErrors;
+// HTTP error statuses are returned to the caller, which knows how to read the service's error body.
+export const fetchJson = async (url: string, init: RequestInit, options: FetchJsonOptions): Promise<JsonResponse> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const text = await response.text();
+    let body: any = undefined;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch (e) { /* Not JSON; the caller decides whether that is an error */ }
+    return { status: response.status, ok: response.ok, body };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new TrackingError('timeout', 'errors.tracking.timeout', {
+        params: { service: options.serviceName, seconds: Math.round(timeoutMs / 1000) },
+        cause: error,
+      });
+    }
+    throw classifyFetchFailure(error, options.serviceName);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Delay before the first retry; doubles on each attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 };
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retries transient TrackingErrors with exponential backoff and jitter; other errors are thrown immediately
+export const withRetry = async <T,>(operation: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const canRetry = error instanceof TrackingError && error.retryable && attempt < options.retries;
+      if (!canRetry) throw error;
+      const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      console.warn(`Tentativa ${attempt + 1} falhou (${error.kind}). Nova tentativa em ${delay} ms.`);
+      await wait(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+};
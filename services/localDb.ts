@@ -0,0 +1,63 @@
+// services/localDb.ts
+// Small promise wrapper around the browser's IndexedDB, used to keep data between sessions.
+
+const DB_NAME = 'rastreio-xml';
+const DB_VERSION = 2;
+
+export const WATCHLIST_STORE = 'watchlist';
+export const LOOKUP_HISTORY_STORE = 'lookupHistory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB não está disponível neste navegador."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WATCHLIST_STORE)) {
+          db.createObjectStore(WATCHLIST_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LOOKUP_HISTORY_STORE)) {
+          db.createObjectStore(LOOKUP_HISTORY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+export const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(record));
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
+
+export const clearStore = async (storeName: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+};
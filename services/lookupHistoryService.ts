@@ -0,0 +1,29 @@
+// services/lookupHistoryService.ts
+import type { TrackingInfo } from '../types';
+import { clearStore, getAllRecords, LOOKUP_HISTORY_STORE, putRecord } from './localDb';
+
+// Latest tracking data of every note looked up in this browser, kept for the carrier performance dashboard
+export interface LookupHistoryEntry {
+  id: string; // DANFE Access Key
+  trackingInfo: TrackingInfo;
+  lastLookedUpAt: string; // ISO 8601
+}
+
+export const loadLookupHistory = async (): Promise<LookupHistoryEntry[]> => {
+  const entries = await getAllRecords<LookupHistoryEntry>(LOOKUP_HISTORY_STORE);
+  return entries.sort((a, b) => b.lastLookedUpAt.localeCompare(a.lastLookedUpAt));
+};
+
+// One record per note: looking it up again replaces the stored data with the newer events.
+// Failures are only logged, so a full or blocked storage never breaks the lookup itself.
+export const recordLookup = async (trackingInfo: TrackingInfo, now: Date = new Date()): Promise<void> => {
+  // Product lines are not used by the dashboard and are the bulk of a large note
+  const { xmlItems: _xmlItems, ...storedInfo } = trackingInfo;
+  try {
+    await putRecord<LookupHistoryEntry>(LOOKUP_HISTORY_STORE, { id: trackingInfo.id, trackingInfo: storedInfo, lastLookedUpAt: now.toISOString() });
+  } catch (error) {
+    console.warn(`Falha ao registrar a consulta ${trackingInfo.id} no histórico:`, error);
+  }
+};
+
+export const clearLookupHistory = (): Promise<void> => clearStore(LOOKUP_HISTORY_STORE);
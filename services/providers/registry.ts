@@ -0,0 +1,35 @@
+// services/providers/registry.ts
+import type { XmlCarrierInfo } from '../../types';
+import { providerServesCarrier, TrackingProvider } from './trackingProvider';
+import { sswProvider } from './sswProvider';
+
+// Providers are checked in registration order; the default one handles carriers nobody claims.
+const providers: TrackingProvider<any>[] = [sswProvider];
+let defaultProviderId: string = sswProvider.id;
+
+export const registerTrackingProvider = (provider: TrackingProvider<any>, options?: { asDefault?: boolean }): void => {
+  const existingIndex = providers.findIndex(p => p.id === provider.id);
+  if (existingIndex >= 0) {
+    providers[existingIndex] = provider;
+  } else {
+    // New providers take precedence over the built-in ones for the carriers they declare
+    providers.unshift(provider);
+  }
+  if (options?.asDefault) {
+    defaultProviderId = provider.id;
+  }
+};
+
+export const getTrackingProviders = (): readonly TrackingProvider<any>[] => providers;
+
+// Picks the provider for the carrier found in the XML's transporta block
+export const resolveTrackingProvider = (carrier?: XmlCarrierInfo): TrackingProvider<any> => {
+  const matchingProvider = providers.find(provider => providerServesCarrier(provider, carrier));
+  if (matchingProvider) return matchingProvider;
+
+  const defaultProvider = providers.find(provider => provider.id === defaultProviderId);
+  if (!defaultProvider) {
+    throw new Error(`Provedor de rastreamento padrão '${defaultProviderId}' não registrado.`);
+  }
+  return defaultProvider;
+};
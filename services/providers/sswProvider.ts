@@ -0,0 +1,191 @@
+// services/providers/sswProvider.ts
+import type { DataQualityWarning, TrackingInfo, TrackingEvent, XmlCarrierInfo } from '../../types';
+import type { TrackingProvider } from './trackingProvider';
+import { classifyOccurrence, deriveShipmentStatus } from '../../utils/shipmentStatus';
+import { fetchJson } from '../http';
+import { TrackingError } from '../trackingErrors';
+import { SswTrackingItem, SswValidationResult, validateSswResponse } from './sswSchema';
+
+// Overridable so the tracking proxy can be pointed at a local fake SSW endpoint
+const SSW_API_URL = process.env.SSW_API_URL || 'https://ssw.inf.br/api/trackingdanfe';
+const SSW_PROVIDER_NAME = 'SSW';
+const DEFAULT_CARRIER_NAME = "SSW Transportes";
+
+// Helper function to parse SSW date strings (dd/MM/yy or dd/MM/yyyy) to ISO string or null
+// Specifically for "Previsao de entrega" which might be in "dd/MM/yy" format.
+const parseSswDateForDelivery = (dateString: string | null | undefined): string | null => {
+  if (!dateString || typeof dateString !== 'string' || dateString.trim() === '') {
+    return null;
+  }
+
+  const parts = dateString.trim().split(' '); // Handles if time part is present, though not expected for delivery
+  const dateParts = parts[0].split('/');
+  if (dateParts.length !== 3) {
+    console.warn("Formato de data inválido (parte da data) em parseSswDateForDelivery:", dateString);
+    return null;
+  }
+
+  const day = parseInt(dateParts[0], 10);
+  const month = parseInt(dateParts[1], 10) - 1; // Month is 0-indexed in JS Date
+  
+  let yearStr = dateParts[2];
+  let year = parseInt(yearStr, 10);
+
+  if (isNaN(day) || isNaN(month) || isNaN(year)) {
+    console.warn("Componentes de data inválidos (dia, mês ou ano) em parseSswDateForDelivery:", dateString);
+    return null;
+  }
+  
+  // Handle 2-digit year, assume 21st century
+  if (yearStr.length === 2) {
+    year += 2000;
+  }
+
+  if (year < 2000 || year > 2100) { // Adjusted reasonable range for delivery dates
+    console.warn("Ano fora do intervalo esperado em parseSswDateForDelivery:", dateString);
+    return null;
+  }
+  
+  // SSW estimated delivery usually doesn't have time, so default to UTC midnight
+  try {
+    return new Date(Date.UTC(year, month, day)).toISOString();
+  } catch (e) {
+    console.warn("Erro ao criar objeto Date em parseSswDateForDelivery:", dateString, e);
+    return null;
+  }
+};
+
+const fetchSswTracking = async (accessKey: string): Promise<SswValidationResult> => {
+  const response = await fetchJson(SSW_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ chave_nfe: accessKey }),
+  }, { serviceName: SSW_PROVIDER_NAME });
+
+  if (!response.ok) {
+    const apiMessage = typeof response.body?.message === 'string' ? response.body.message : undefined;
+    throw new TrackingError('http', apiMessage ? 'errors.ssw.httpWithMessage' : 'errors.ssw.http', {
+      params: { status: response.status, ...(apiMessage && { message: apiMessage }) },
+      status: response.status,
+    });
+  }
+
+  const validated = validateSswResponse(response.body);
+  if (!validated.response.success) {
+    // The API message is SSW's own text and is shown untranslated
+    const apiMessage = validated.response.message;
+    throw new TrackingError('not_found', apiMessage ? 'errors.ssw.notFoundWithMessage' : 'errors.ssw.notFound', {
+      params: apiMessage ? { message: apiMessage } : undefined,
+    });
+  }
+
+  return validated;
+};
+
+const mapSswEvent = (item: SswTrackingItem, warnings: DataQualityWarning[]): TrackingEvent => {
+  const canonicalStatus = classifyOccurrence(item.codigo_ssw, item.ocorrencia);
+  if (item.ocorrencia && canonicalStatus === 'unknown') {
+    warnings.push({
+      field: `documento.tracking[${item.sourceIndex}].ocorrencia`,
+      code: item.codigo_ssw ? 'dataWarnings.occurrenceUnrecognizedWithCode' : 'dataWarnings.occurrenceUnrecognized',
+      params: { event: item.sourceIndex + 1, occurrence: item.ocorrencia, ...(item.codigo_ssw && { code: item.codigo_ssw }) },
+    });
+  }
+  return {
+    // Events without a valid date fall back to the epoch (the validator already reported them)
+    timestamp: item.data_hora ? new Date(item.data_hora).toISOString() : new Date(0).toISOString(),
+    status: item.ocorrencia,
+    location: item.cidade,
+    details: item.descricao, // descricao can be quite long
+    code: item.codigo_ssw,
+    canonicalStatus,
+  };
+};
+
+const mapSswResponse = ({ response, warnings: validationWarnings }: SswValidationResult, accessKey: string, carrier?: XmlCarrierInfo): TrackingInfo => {
+  const warnings = [...validationWarnings];
+  const baseInfo = {
+    id: accessKey, // The full DANFE key used for the query
+    carrier: carrier?.name || DEFAULT_CARRIER_NAME,
+    providerName: SSW_PROVIDER_NAME,
+  };
+
+  // Missing data stays unset; the UI shows it as "not informed" in the user's language
+  if (!response.documento) {
+    return { ...baseInfo, canonicalStatus: 'unknown', events: [], dataWarnings: warnings };
+  }
+
+  const { header, tracking } = response.documento;
+  const headerInfo = {
+    nfNumber: header.nro_nf,
+    origin: header.remetente,
+    destination: header.destinatario,
+  };
+
+  if (tracking.length === 0) {
+    return { ...baseInfo, ...headerInfo, canonicalStatus: 'unknown', events: [], dataWarnings: warnings };
+  }
+
+  const events: TrackingEvent[] = tracking
+    .map(item => mapSswEvent(item, warnings))
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  const currentStatusEvent = events[0];
+  let estimatedDelivery: string | undefined = undefined;
+  let estimatedDeliveryDate: string | undefined = undefined;
+  let calculatedWeight: string | undefined = undefined;
+
+  // Try to parse estimated delivery and weight from the first event's description
+  // This is typically the "DOCUMENTO DE TRANSPORTE EMITIDO" event
+  const initialEvent = tracking.find(e => e.codigo_ssw === "80" || e.ocorrencia?.toUpperCase().includes("DOCUMENTO DE TRANSPORTE EMITIDO"));
+  if (!initialEvent) {
+    warnings.push({ field: 'documento.tracking', code: 'dataWarnings.emissionEventMissing' });
+  } else if (initialEvent.descricao) {
+    const desc = initialEvent.descricao;
+    
+    // Regex for "Previsao de entrega: DD/MM/YY" or "DD/MM/YYYY"
+    const deliveryMatch = desc.match(/Previsao de entrega: (\d{1,2}\/\d{1,2}\/\d{2,4})/i);
+    if (deliveryMatch && deliveryMatch[1]) {
+      const parsedEstDeliveryDate = parseSswDateForDelivery(deliveryMatch[1]);
+      if (parsedEstDeliveryDate) {
+          estimatedDeliveryDate = parsedEstDeliveryDate;
+          estimatedDelivery = parsedEstDeliveryDate.slice(0, 10); // UTC midnight, so the date part is the calendar day
+      } else {
+          warnings.push({ field: 'documento.tracking.descricao', code: 'dataWarnings.estimatedDeliveryInvalid', params: { value: deliveryMatch[1] } });
+      }
+    } else {
+      warnings.push({ field: 'documento.tracking.descricao', code: 'dataWarnings.estimatedDeliveryMissing' });
+    }
+    
+    // Regex for "XX Kg" or "XX.YY Kg"
+    const weightMatch = desc.match(/(\d+(\.\d+)?)\s*Kg/i);
+    if (weightMatch && weightMatch[1]) {
+      calculatedWeight = `${parseFloat(weightMatch[1]).toFixed(2)} kg`;
+    }
+  }
+
+  return {
+    ...baseInfo,
+    ...headerInfo,
+    estimatedDelivery: estimatedDelivery,
+    estimatedDeliveryDate: estimatedDeliveryDate,
+    currentStatus: currentStatusEvent.status,
+    canonicalStatus: deriveShipmentStatus(events),
+    weight: calculatedWeight,
+    events: events,
+    dataWarnings: warnings,
+  };
+};
+
+// SSW is the platform used by most of our carriers, so it also serves every carrier not claimed by another provider
+export const sswProvider: TrackingProvider<SswValidationResult> = {
+  id: 'ssw',
+  name: SSW_PROVIDER_NAME,
+  serves: {
+    namePatterns: [/\bSSW\b/i],
+  },
+  fetchRaw: fetchSswTracking,
+  mapResponse: mapSswResponse,
+};
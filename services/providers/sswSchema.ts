@@ -0,0 +1,145 @@
+// services/providers/sswSchema.ts
+import type { DataQualityWarning } from '../../types';
+import { TrackingError } from '../trackingErrors';
+
+// Payload of the SSW trackingdanfe API, after runtime validation. Optional fields were missing,
+// empty or invalid in the response; each of those cases is reported as a DataQualityWarning.
+export interface SswHeader {
+  remetente?: string;
+  destinatario?: string;
+  nro_nf?: string;
+}
+
+export interface SswTrackingItem {
+  sourceIndex: number; // Position in the original tracking array, so later warnings point at the right event
+  data_hora?: string; // Only kept when it parses as a date
+  ocorrencia?: string;
+  cidade?: string;
+  descricao?: string;
+  codigo_ssw?: string; // SSW sends it as a string or a number
+}
+
+export interface SswDocument {
+  header: SswHeader;
+  tracking: SswTrackingItem[];
+}
+
+export interface SswResponse {
+  success: boolean;
+  message?: string;
+  documento?: SswDocument;
+}
+
+export interface SswValidationResult {
+  response: SswResponse;
+  warnings: DataQualityWarning[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads an optional text field. Numbers are accepted (and converted) only where SSW is known to send them.
+const readText = (
+  source: Record<string, unknown>,
+  field: string,
+  path: string,
+  warnings: DataQualityWarning[],
+  options: { allowNumber?: boolean } = {},
+): string | undefined => {
+  const value = source[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && options.allowNumber) return String(value);
+  if (typeof value !== 'string') {
+    warnings.push({ field: `${path}.${field}`, code: 'dataWarnings.unexpectedType', params: { field, type: typeof value } });
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+const validateHeader = (rawHeader: unknown, warnings: DataQualityWarning[]): SswHeader => {
+  const path = 'documento.header';
+  if (!isObject(rawHeader)) {
+    warnings.push({ field: path, code: 'dataWarnings.headerMissing' });
+    return {};
+  }
+  const header: SswHeader = {
+    remetente: readText(rawHeader, 'remetente', path, warnings),
+    destinatario: readText(rawHeader, 'destinatario', path, warnings),
+    nro_nf: readText(rawHeader, 'nro_nf', path, warnings, { allowNumber: true }),
+  };
+  if (!header.remetente) warnings.push({ field: `${path}.remetente`, code: 'dataWarnings.senderMissing' });
+  if (!header.destinatario) warnings.push({ field: `${path}.destinatario`, code: 'dataWarnings.recipientMissing' });
+  if (!header.nro_nf) warnings.push({ field: `${path}.nro_nf`, code: 'dataWarnings.nfNumberMissing' });
+  return header;
+};
+
+const validateTrackingItem = (rawItem: unknown, index: number, warnings: DataQualityWarning[]): SswTrackingItem | undefined => {
+  const path = `documento.tracking[${index}]`;
+  const event = index + 1; // 1-based, as shown to the user
+  if (!isObject(rawItem)) {
+    warnings.push({ field: path, code: 'dataWarnings.eventInvalid', params: { event } });
+    return undefined;
+  }
+
+  const item: SswTrackingItem = {
+    sourceIndex: index,
+    ocorrencia: readText(rawItem, 'ocorrencia', path, warnings),
+    cidade: readText(rawItem, 'cidade', path, warnings),
+    descricao: readText(rawItem, 'descricao', path, warnings),
+    codigo_ssw: readText(rawItem, 'codigo_ssw', path, warnings, { allowNumber: true }),
+  };
+
+  const rawDate = readText(rawItem, 'data_hora', path, warnings);
+  if (!rawDate) {
+    warnings.push({ field: `${path}.data_hora`, code: 'dataWarnings.eventDateMissing', params: { event } });
+  } else if (isNaN(new Date(rawDate).getTime())) {
+    warnings.push({ field: `${path}.data_hora`, code: 'dataWarnings.eventDateInvalid', params: { event, value: rawDate } });
+  } else {
+    item.data_hora = rawDate;
+  }
+
+  if (!item.ocorrencia) warnings.push({ field: `${path}.ocorrencia`, code: 'dataWarnings.eventOccurrenceMissing', params: { event } });
+  if (!item.cidade) warnings.push({ field: `${path}.cidade`, code: 'dataWarnings.eventLocationMissing', params: { event } });
+  return item;
+};
+
+// Validates the SSW payload. Only a response that cannot be interpreted at all is rejected;
+// missing or invalid fields are dropped and reported as warnings.
+export const validateSswResponse = (raw: unknown): SswValidationResult => {
+  const warnings: DataQualityWarning[] = [];
+  if (!isObject(raw) || typeof raw.success !== 'boolean') {
+    throw new TrackingError('malformed', 'errors.ssw.malformed');
+  }
+
+  const response: SswResponse = {
+    success: raw.success,
+    message: readText(raw, 'message', 'resposta', warnings),
+  };
+
+  if (raw.documento === undefined || raw.documento === null) {
+    if (raw.success) warnings.push({ field: 'documento', code: 'dataWarnings.documentMissing' });
+    return { response, warnings };
+  }
+  if (!isObject(raw.documento)) {
+    warnings.push({ field: 'documento', code: 'dataWarnings.documentInvalid' });
+    return { response, warnings };
+  }
+
+  const header = validateHeader(raw.documento.header, warnings);
+  const rawTracking = raw.documento.tracking;
+  let tracking: SswTrackingItem[] = [];
+  if (!Array.isArray(rawTracking)) {
+    warnings.push({ field: 'documento.tracking', code: 'dataWarnings.trackingInvalid' });
+  } else {
+    if (rawTracking.length === 0) {
+      warnings.push({ field: 'documento.tracking', code: 'dataWarnings.trackingEmpty' });
+    }
+    tracking = rawTracking
+      .map((rawItem, index) => validateTrackingItem(rawItem, index, warnings))
+      .filter((item): item is SswTrackingItem => item !== undefined);
+  }
+
+  response.documento = { header, tracking };
+  return { response, warnings };
+};
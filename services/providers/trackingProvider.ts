@@ -0,0 +1,31 @@
+// services/providers/trackingProvider.ts
+import type { TrackingInfo, XmlCarrierInfo } from '../../types';
+
+// Declares which carriers a provider serves. A carrier matches if its CNPJ is listed
+// or its name (transp > transporta > xNome) matches one of the patterns.
+export interface CarrierMatchRule {
+  cnpjs?: string[]; // Digits only
+  namePatterns?: RegExp[];
+}
+
+export interface TrackingProvider<TRawResponse = unknown> {
+  id: string;
+  name: string; // Shown to the user as the source of the tracking data
+  serves: CarrierMatchRule;
+  // Queries the provider API and returns its raw payload; throws on HTTP/API failures
+  fetchRaw: (accessKey: string) => Promise<TRawResponse>;
+  // Converts the raw payload into the app's TrackingInfo
+  mapResponse: (rawResponse: TRawResponse, accessKey: string, carrier?: XmlCarrierInfo) => TrackingInfo;
+}
+
+export const providerServesCarrier = (provider: TrackingProvider<any>, carrier?: XmlCarrierInfo): boolean => {
+  if (!carrier) return false;
+  const carrierCnpj = carrier.cnpj?.replace(/\D/g, '');
+  if (carrierCnpj && provider.serves.cnpjs?.includes(carrierCnpj)) {
+    return true;
+  }
+  if (carrier.name && provider.serves.namePatterns?.some(pattern => pattern.test(carrier.name!))) {
+    return true;
+  }
+  return false;
+};
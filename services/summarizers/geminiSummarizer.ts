@@ -0,0 +1,31 @@
+// services/summarizers/geminiSummarizer.ts
+import type { GenerateContentResponse } from "@google/genai";
+import type { Summarizer } from './summarizer';
+import { buildSummaryPrompt } from './trackingPrompt';
+import { toGeminiError, GEMINI_MODEL, getGeminiClient, isGeminiConfigured } from '../geminiClient';
+import { LocalizedError } from '../../i18n/localizedError';
+
+export const geminiSummarizer: Summarizer = {
+  id: 'gemini',
+  name: 'Gemini',
+  generatesWithAi: true,
+  isConfigured: isGeminiConfigured,
+  summarize: async (trackingInfo) => {
+    let response: GenerateContentResponse;
+    try {
+      response = await getGeminiClient().models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildSummaryPrompt(trackingInfo),
+      });
+    } catch (error) {
+      console.error("Erro ao chamar a API Gemini:", error);
+      throw toGeminiError(error);
+    }
+
+    const summary = response.text?.trim();
+    if (!summary) {
+      throw new LocalizedError('errors.gemini.emptySummary');
+    }
+    return summary;
+  },
+};
@@ -0,0 +1,65 @@
+// services/summarizers/openAiCompatibleSummarizer.ts
+import type { Summarizer } from './summarizer';
+import { buildSummaryPrompt } from './trackingPrompt';
+import { fetchJson } from '../http';
+import { isMessageKey, MessageParam, t } from '../../i18n/i18n';
+import { LocalizedError } from '../../i18n/localizedError';
+
+// Any server that implements POST /chat/completions (OpenAI, Ollama, LM Studio, vLLM, llama.cpp...).
+// The call goes through the tracking proxy, which holds the server URL and API key (OPENAI_BASE_URL /
+// OPENAI_API_KEY in its own environment), so no secret is built into the app.
+const isProxyMode = process.env.TRACKING_MODE === 'proxy';
+const proxyUrl = (process.env.TRACKING_PROXY_URL || '').replace(/\/+$/, ''); // Empty = same origin
+const modelName = process.env.OPENAI_MODEL;
+
+// Local models can be slow to answer, especially on the first request
+const SUMMARY_TIMEOUT_MS = 60000;
+const SERVICE_NAME: MessageParam = { code: 'services.llmServer' };
+
+const readApiErrorMessage = (body: any): string | undefined => {
+  if (typeof body?.error === 'string') return body.error;
+  if (typeof body?.error?.message === 'string') return body.error.message;
+  return undefined;
+};
+
+export const openAiCompatibleSummarizer: Summarizer = {
+  id: 'openai',
+  get name() {
+    return modelName ? `LLM (${modelName})` : t('summarizers.openai.genericName');
+  },
+  generatesWithAi: true,
+  isConfigured: () => isProxyMode && !!modelName,
+  summarize: async (trackingInfo) => {
+    const response = await fetchJson(
+      `${proxyUrl}/api/llm/chat/completions`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // The proxy picks the model; OPENAI_MODEL here only enables the summarizer and names it
+        body: JSON.stringify({
+          messages: [{ role: 'user', content: buildSummaryPrompt(trackingInfo) }],
+          temperature: 0.3,
+        }),
+      },
+      { timeoutMs: SUMMARY_TIMEOUT_MS, serviceName: SERVICE_NAME },
+    );
+
+    if (!response.ok) {
+      // The proxy's own errors (LLM not configured, rate limit...) come as a message code
+      if (isMessageKey(response.body?.code)) {
+        throw new LocalizedError(response.body.code, response.body.params);
+      }
+      const detail = readApiErrorMessage(response.body);
+      throw new LocalizedError(detail ? 'errors.llm.httpWithDetail' : 'errors.llm.http', {
+        service: SERVICE_NAME,
+        status: response.status,
+        ...(detail && { detail }),
+      });
+    }
+    const summary = response.body?.choices?.[0]?.message?.content;
+    if (typeof summary !== 'string' || !summary.trim()) {
+      throw new LocalizedError('errors.llm.emptySummary', { service: SERVICE_NAME });
+    }
+    return summary.trim();
+  },
+};
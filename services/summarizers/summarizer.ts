@@ -0,0 +1,12 @@
+// services/summarizers/summarizer.ts
+import type { TrackingInfo } from '../../types';
+
+export interface Summarizer {
+  id: string;
+  name: string; // Shown to the user as the source of the summary
+  generatesWithAi: boolean;
+  // False when the build has no credentials/endpoint for it; unconfigured summarizers are skipped
+  isConfigured: () => boolean;
+  // Returns the summary in the user's language; throws an Error with a user-facing message when it cannot produce one
+  summarize: (trackingInfo: TrackingInfo) => Promise<string>;
+}
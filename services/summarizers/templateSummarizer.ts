@@ -0,0 +1,76 @@
+// services/summarizers/templateSummarizer.ts
+import type { ShipmentStatus, TrackingEvent, TrackingInfo } from '../../types';
+import type { Summarizer } from './summarizer';
+import { deriveShipmentStatus, findDeliveryEvent } from '../../utils/shipmentStatus';
+import { assessDeliveryRisk, describeDeliveryRisk } from '../../utils/deliveryRisk';
+import { formatCurrentStatus, formatEstimatedDelivery, formatEventStatus } from '../../utils/formatters';
+import { getIntlLocale, MessageParams, t } from '../../i18n/i18n';
+
+// "dd/mm/aaaa às hh:mm" (in the user's language), or undefined for missing (epoch) and invalid timestamps
+const formatEventMoment = (timestamp: string): string | undefined => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime()) || date.getTime() === 0) return undefined;
+  const day = date.toLocaleDateString(getIntlLocale(), { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const time = date.toLocaleTimeString(getIntlLocale(), { hour: '2-digit', minute: '2-digit' });
+  return t('template.moment', { date: day, time });
+};
+
+// " em <local>" and ", em <momento>" parts of a sentence; empty when the event does not have them
+const describePlaceAndMoment = (event?: TrackingEvent): MessageParams => {
+  const moment = event && formatEventMoment(event.timestamp);
+  return {
+    place: event?.location?.trim() ? t('template.atPlace', { location: event.location }) : '',
+    moment: moment ? t('template.onMoment', { moment }) : '',
+  };
+};
+
+const describeEvent = (event: TrackingEvent): string =>
+  t('template.event', { status: formatEventStatus(event), ...describePlaceAndMoment(event) });
+
+const buildStatusSentence = (trackingInfo: TrackingInfo, status: ShipmentStatus): string => {
+  const carrier = trackingInfo.carrier;
+  if (status === 'delivered') {
+    return t('template.delivered', { carrier, ...describePlaceAndMoment(findDeliveryEvent(trackingInfo.events)) });
+  }
+  if (status === 'unknown') {
+    return t('template.status.unknown', { carrier, status: formatCurrentStatus(trackingInfo) });
+  }
+  return t(`template.status.${status}`, { carrier });
+};
+
+const buildDeadlineSentence = (trackingInfo: TrackingInfo, status: ShipmentStatus): string | undefined => {
+  const deliveryRisk = assessDeliveryRisk(trackingInfo);
+  if (deliveryRisk.state !== 'unknown') {
+    return t('template.deadline', { date: formatEstimatedDelivery(trackingInfo), assessment: describeDeliveryRisk(deliveryRisk) });
+  }
+  return status === 'delivered' ? undefined : t('template.noDeadline');
+};
+
+// Offline summary from the status, the deadline and the last event. Deterministic, so it always
+// works and says nothing that is not in the tracking data.
+export const buildTemplateSummary = (trackingInfo: TrackingInfo): string => {
+  if (trackingInfo.events.length === 0) {
+    return t('template.noEvents', { carrier: trackingInfo.carrier });
+  }
+  const status = trackingInfo.canonicalStatus || deriveShipmentStatus(trackingInfo.events);
+  const sentences = [buildStatusSentence(trackingInfo, status)];
+
+  const lastEvent = trackingInfo.events[0]; // Events are newest first
+  if (status !== 'delivered' || findDeliveryEvent(trackingInfo.events) !== lastEvent) { // Already described above
+    sentences.push(t('template.lastEvent', { event: describeEvent(lastEvent) }));
+  }
+
+  const deadlineSentence = buildDeadlineSentence(trackingInfo, status);
+  if (deadlineSentence) sentences.push(deadlineSentence);
+  return sentences.join(' ');
+};
+
+export const templateSummarizer: Summarizer = {
+  id: 'template',
+  get name() {
+    return t('summarizers.template.name');
+  },
+  generatesWithAi: false,
+  isConfigured: () => true,
+  summarize: async (trackingInfo) => buildTemplateSummary(trackingInfo),
+};
@@ -0,0 +1,96 @@
+// services/summarizers/trackingPrompt.ts
+import type { TrackingInfo } from '../../types';
+import { getShipmentStatusLabel } from '../../utils/shipmentStatus';
+import { assessDeliveryRisk, describeDeliveryRisk, getDeliveryRiskLabel } from '../../utils/deliveryRisk';
+import { formatCurrentStatus, formatEstimatedDelivery, formatEventLocation, formatEventStatus, formatEventTimestamp } from '../../utils/formatters';
+import { getIntlLocale, getLocale, Locale } from '../../i18n/i18n';
+
+// The prompts and the data in them are always pt-BR; only the language of the answer follows the user
+export const PROMPT_LOCALE: Locale = 'pt-BR';
+
+const ANSWER_LANGUAGES: Record<Locale, string> = {
+  'pt-BR': 'português do Brasil',
+  en: 'inglês',
+  es: 'espanhol',
+};
+
+// Language the model must answer in, written for the pt-BR prompt
+export const getAnswerLanguage = (): string => ANSWER_LANGUAGES[getLocale()];
+
+// Limits for the item list sent to the model, to keep the prompt short
+const MAX_PROMPT_ITEMS = 10;
+const MAX_PROMPT_ITEM_DESCRIPTION_LENGTH = 60;
+
+export const formatTrackingDataForPrompt = (trackingInfo: TrackingInfo): string => {
+  let promptData = `ID do Pacote/Nota Fiscal: ${trackingInfo.id}\n`;
+  promptData += `Transportadora: ${trackingInfo.carrier}\n`;
+  if (trackingInfo.nfNumber) promptData += `Número da Nota Fiscal: ${trackingInfo.nfNumber}\n`;
+  promptData += `Status Atual: ${formatCurrentStatus(trackingInfo, PROMPT_LOCALE)}`;
+  if (trackingInfo.canonicalStatus && trackingInfo.canonicalStatus !== 'unknown') {
+    promptData += ` (classificação: ${getShipmentStatusLabel(trackingInfo.canonicalStatus, PROMPT_LOCALE)})`;
+  }
+  promptData += `\n`;
+
+  promptData += `Previsão de Entrega: ${formatEstimatedDelivery(trackingInfo, PROMPT_LOCALE)}\n`;
+  const deliveryRisk = assessDeliveryRisk(trackingInfo);
+  if (deliveryRisk.state !== 'unknown') {
+    const today = new Date().toLocaleDateString(getIntlLocale(PROMPT_LOCALE));
+    promptData += `Situação do Prazo (hoje é ${today}): ${getDeliveryRiskLabel(deliveryRisk.state, PROMPT_LOCALE)} - ${describeDeliveryRisk(deliveryRisk, PROMPT_LOCALE)}\n`;
+  }
+  
+  promptData += `Origem: ${trackingInfo.origin || 'não informada'}\n`;
+  promptData += `Destino: ${trackingInfo.destination || 'não informado'}\n`;
+  if (trackingInfo.weight) promptData += `Peso: ${trackingInfo.weight}\n`;
+  if (trackingInfo.xmlCteInfo) {
+    const cte = trackingInfo.xmlCteInfo;
+    promptData += `CT-e: ${cte.number || cte.accessKey}`;
+    if (cte.freight?.totalValue !== undefined) promptData += ` (Valor do frete: R$ ${cte.freight.totalValue.toFixed(2)})`;
+    promptData += `\n`;
+  }
+  
+  if (trackingInfo.xmlItems && trackingInfo.xmlItems.length > 0) {
+    promptData += "Itens da Nota Fiscal:\n";
+    trackingInfo.xmlItems.slice(0, MAX_PROMPT_ITEMS).forEach(item => {
+      let description = item.description || item.code || "Item sem descrição";
+      if (description.length > MAX_PROMPT_ITEM_DESCRIPTION_LENGTH) {
+        description = `${description.substring(0, MAX_PROMPT_ITEM_DESCRIPTION_LENGTH)}...`;
+      }
+      const quantity = item.quantity !== undefined ? `${item.quantity} ${item.unit || ''}`.trim() : "qtd. não informada";
+      promptData += `- ${description} (${quantity})\n`;
+    });
+    if (trackingInfo.xmlItems.length > MAX_PROMPT_ITEMS) {
+      promptData += `(... e mais ${trackingInfo.xmlItems.length - MAX_PROMPT_ITEMS} itens)\n`;
+    }
+  }
+  
+  promptData += "Histórico de Eventos (mais recentes primeiro):\n";
+  const eventsToShow = trackingInfo.events.slice(0, 5); // Show latest 5 events
+  
+  if (eventsToShow.length === 0) {
+    promptData += "- Nenhum evento de rastreamento registrado.\n";
+  } else {
+    eventsToShow.forEach(event => {
+      // Missing (epoch fallback) and invalid times read as unavailable instead of a 1969/1970 date
+      promptData += `- ${formatEventTimestamp(event.timestamp, PROMPT_LOCALE)}: ${formatEventStatus(event, PROMPT_LOCALE)} em ${formatEventLocation(event, PROMPT_LOCALE)}${event.details ? ` (${event.details})` : ''}\n`;
+    });
+  }
+
+  if (trackingInfo.events.length > 5) {
+    promptData += `(... e mais ${trackingInfo.events.length - 5} eventos anteriores)\n`;
+  }
+  return promptData;
+};
+
+// Prompt shared by the LLM summarizers, so every model gets the same data and instructions
+export const buildSummaryPrompt = (trackingInfo: TrackingInfo): string => `
+Você é um assistente virtual que fornece um resumo conciso do rastreamento de encomendas para um cliente.
+Com base nos seguintes dados de rastreamento, forneça uma atualização amigável e breve em ${getAnswerLanguage()}.
+Concentre-se no status atual, previsão de entrega (se disponível) e quaisquer eventos recentes importantes.
+Se a situação do prazo indicar atraso ou risco de atraso, mencione isso claramente.
+Evite jargões. Mantenha o resumo em 2-3 frases.
+
+Dados de Rastreamento:
+${formatTrackingDataForPrompt(trackingInfo)}
+
+Resumo Conciso:
+`;
@@ -0,0 +1,52 @@
+// services/summaryService.ts
+import type { TrackingInfo, TrackingSummary } from '../types';
+import type { Summarizer } from './summarizers/summarizer';
+import { geminiSummarizer } from './summarizers/geminiSummarizer';
+import { openAiCompatibleSummarizer } from './summarizers/openAiCompatibleSummarizer';
+import { templateSummarizer } from './summarizers/templateSummarizer';
+import { t } from '../i18n/i18n';
+
+// LLM summarizers in order of preference when SUMMARIZER is 'auto'
+const llmSummarizers: Summarizer[] = [geminiSummarizer, openAiCompatibleSummarizer];
+
+// 'auto' (default), 'template', or the id of one LLM summarizer
+const SUMMARIZER_PREFERENCE = process.env.SUMMARIZER || 'auto';
+
+const selectLlmSummarizer = (): Summarizer | undefined => {
+  if (SUMMARIZER_PREFERENCE === templateSummarizer.id) return undefined;
+  if (SUMMARIZER_PREFERENCE !== 'auto') {
+    const preferred = llmSummarizers.find(summarizer => summarizer.id === SUMMARIZER_PREFERENCE);
+    if (!preferred) {
+      console.warn(`Resumidor '${SUMMARIZER_PREFERENCE}' desconhecido. Usando a seleção automática.`);
+    } else if (!preferred.isConfigured()) {
+      console.warn(`Resumidor '${preferred.name}' selecionado, mas não configurado. Usando o texto automático.`);
+      return undefined;
+    } else {
+      return preferred;
+    }
+  }
+  return llmSummarizers.find(summarizer => summarizer.isConfigured());
+};
+
+const summarizeWithTemplate = async (trackingInfo: TrackingInfo, fallbackReason?: string): Promise<TrackingSummary> => ({
+  text: await templateSummarizer.summarize(trackingInfo),
+  summarizerName: templateSummarizer.name,
+  generatedByAi: false,
+  fallbackReason,
+});
+
+// Summarizes with the configured LLM; without one, or when it fails, the offline template is used
+export const summarizeTracking = async (trackingInfo: TrackingInfo): Promise<TrackingSummary> => {
+  const summarizer = selectLlmSummarizer();
+  if (!summarizer) {
+    return summarizeWithTemplate(trackingInfo);
+  }
+  try {
+    const text = await summarizer.summarize(trackingInfo);
+    return { text, summarizerName: summarizer.name, generatedByAi: summarizer.generatesWithAi };
+  } catch (error) {
+    console.error(`Falha ao gerar o resumo com ${summarizer.name}:`, error);
+    const detail = error instanceof Error ? error.message : t('common.unknownError');
+    return summarizeWithTemplate(trackingInfo, t('summary.unavailable', { name: summarizer.name, detail }));
+  }
+};
@@ -0,0 +1,51 @@
+// services/trackingErrors.ts
+import type { MessageKey, MessageParams } from '../i18n/i18n';
+import { LocalizedError } from '../i18n/localizedError';
+
+export type TrackingErrorKind =
+  | 'network' // No connection to the service (offline, DNS, connection refused)
+  | 'blocked' // The browser blocked the request, usually CORS
+  | 'http' // The service answered with an error status
+  | 'not_found' // The carrier has no tracking for the key
+  | 'malformed' // The response is not in the expected format
+  | 'timeout'
+  | 'unexpected';
+
+// Network hiccups, timeouts and server-side errors may succeed on a new attempt. 429 is not retried
+// automatically: hammering a rate-limited service only extends the block.
+const isRetryableFailure = (kind: TrackingErrorKind, status?: number): boolean => {
+  if (kind === 'network' || kind === 'timeout') return true;
+  if (kind === 'http' && status !== undefined) return status >= 500 || status === 408;
+  return false;
+};
+
+// Error thrown by the tracking services; code + params are translated when shown to the user
+export class TrackingError extends LocalizedError {
+  readonly kind: TrackingErrorKind;
+  readonly status?: number; // HTTP status, for 'http' errors
+  readonly retryable: boolean; // Transient failures worth retrying automatically
+
+  constructor(
+    kind: TrackingErrorKind,
+    code: MessageKey,
+    options: { params?: MessageParams; status?: number; retryable?: boolean; cause?: unknown } = {},
+  ) {
+    super(code, options.params);
+    this.name = 'TrackingError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryable = options.retryable ?? isRetryableFailure(kind, options.status);
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+}
+
+export const TRACKING_ERROR_KINDS: readonly TrackingErrorKind[] = ['network', 'blocked', 'http', 'not_found', 'malformed', 'timeout', 'unexpected'];
+
+export const isTrackingError = (error: unknown): error is TrackingError => error instanceof TrackingError;
+
+// Wraps anything thrown by lower layers so callers only deal with TrackingError
+export const toTrackingError = (error: unknown): TrackingError => {
+  if (isTrackingError(error)) return error;
+  console.error("Erro inesperado no rastreamento:", error);
+  return new TrackingError('unexpected', 'errors.tracking.unexpected', { cause: error });
+};
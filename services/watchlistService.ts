@@ -0,0 +1,125 @@
+// services/watchlistService.ts
+import type { TrackingEvent, TrackingInfo } from '../types';
+import type { ParsedXmlData } from '../utils/xmlParser';
+import { trackShipment } from './trackingService';
+import { findDeliveryEvent } from '../utils/shipmentStatus';
+import { deleteRecord, getAllRecords, putRecord, WATCHLIST_STORE } from './localDb';
+import { recordLookup } from './lookupHistoryService';
+import type { LocalizedMessage } from '../i18n/i18n';
+import { toLocalizedMessage } from '../i18n/localizedError';
+
+// A shipment the user is following, persisted in IndexedDB
+export interface WatchlistEntry {
+  id: string; // DANFE Access Key
+  trackingInfo: TrackingInfo; // Latest known tracking data
+  xmlData?: ParsedXmlData; // Kept so re-polls can merge the XML-only details again
+  addedAt: string; // ISO 8601
+  lastViewedAt: string; // Last time the user opened the shipment
+  lastCheckedAt?: string; // Last re-poll, successful or not
+  lastChangedAt?: string; // Last time a re-poll found new events
+  newEventCount: number; // Events found since the user last opened the shipment
+  deliveredAt?: string;
+  archivedAt?: string; // Delivered shipments are archived automatically and no longer polled
+  lastError?: LocalizedMessage | string; // Error of the last re-poll, if it failed (plain pt-BR text in entries saved by older versions)
+}
+
+export interface WatchlistSettings {
+  pollIntervalMinutes: number;
+  archiveAfterDays: number; // Days after delivery before a shipment is archived
+}
+
+const SETTINGS_STORAGE_KEY = 'watchlistSettings';
+
+export const DEFAULT_WATCHLIST_SETTINGS: WatchlistSettings = {
+  pollIntervalMinutes: 30,
+  archiveAfterDays: 7,
+};
+
+export const loadWatchlistSettings = (): WatchlistSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_WATCHLIST_SETTINGS, ...JSON.parse(stored) } : DEFAULT_WATCHLIST_SETTINGS;
+  } catch (e) {
+    console.warn("Falha ao ler as configurações do acompanhamento. Usando padrões.", e);
+    return DEFAULT_WATCHLIST_SETTINGS;
+  }
+};
+
+export const saveWatchlistSettings = (settings: WatchlistSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const getEventKey = (event: TrackingEvent): string => `${event.timestamp}|${event.status || ''}|${event.location || ''}`;
+
+// Events present in the latest list but not in the stored one
+export const findNewEvents = (storedEvents: TrackingEvent[], latestEvents: TrackingEvent[]): TrackingEvent[] => {
+  const knownKeys = new Set(storedEvents.map(getEventKey));
+  return latestEvents.filter(event => !knownKeys.has(getEventKey(event)));
+};
+
+// Returns the delivery time (or the detection time when the event has no valid date), or undefined if not delivered
+export const getDeliveredAt = (trackingInfo: TrackingInfo, now: Date = new Date()): string | undefined => {
+  const deliveryEvent = findDeliveryEvent(trackingInfo.events);
+  if (!deliveryEvent && trackingInfo.canonicalStatus !== 'delivered') return undefined;
+  if (deliveryEvent && new Date(deliveryEvent.timestamp).getTime() > 0) return deliveryEvent.timestamp;
+  return now.toISOString();
+};
+
+export const loadWatchlist = async (): Promise<WatchlistEntry[]> => {
+  const entries = await getAllRecords<WatchlistEntry>(WATCHLIST_STORE);
+  return entries.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+};
+
+export const saveWatchlistEntry = (entry: WatchlistEntry): Promise<void> => putRecord(WATCHLIST_STORE, entry);
+
+export const removeWatchlistEntry = (id: string): Promise<void> => deleteRecord(WATCHLIST_STORE, id);
+
+export const createWatchlistEntry = (trackingInfo: TrackingInfo, xmlData?: ParsedXmlData, now: Date = new Date()): WatchlistEntry => ({
+  id: trackingInfo.id,
+  trackingInfo,
+  xmlData,
+  addedAt: now.toISOString(),
+  lastViewedAt: now.toISOString(),
+  lastCheckedAt: now.toISOString(),
+  newEventCount: 0,
+  deliveredAt: getDeliveredAt(trackingInfo, now),
+});
+
+// Applies fresh tracking data to an entry, counting the events the user has not seen yet
+export const applyTrackingUpdate = (entry: WatchlistEntry, latest: TrackingInfo, now: Date = new Date()): WatchlistEntry => {
+  const newEvents = findNewEvents(entry.trackingInfo.events, latest.events);
+  return {
+    ...entry,
+    trackingInfo: latest,
+    lastCheckedAt: now.toISOString(),
+    lastChangedAt: newEvents.length > 0 ? now.toISOString() : entry.lastChangedAt,
+    newEventCount: entry.newEventCount + newEvents.length,
+    deliveredAt: entry.deliveredAt || getDeliveredAt(latest, now),
+    lastError: undefined,
+  };
+};
+
+export const shouldAutoArchive = (entry: WatchlistEntry, archiveAfterDays: number, now: Date = new Date()): boolean => {
+  if (entry.archivedAt || !entry.deliveredAt) return false;
+  const deliveredTime = new Date(entry.deliveredAt).getTime();
+  return now.getTime() - deliveredTime >= archiveAfterDays * 24 * 60 * 60 * 1000;
+};
+
+// Re-polls the carrier for one entry. Failures are recorded on the entry instead of thrown.
+export const refreshWatchlistEntry = async (entry: WatchlistEntry, settings: WatchlistSettings, now: Date = new Date()): Promise<WatchlistEntry> => {
+  let updated: WatchlistEntry;
+  try {
+    const latest = await trackShipment(entry.id, entry.xmlData);
+    updated = applyTrackingUpdate(entry, latest, now);
+    // Keeps the performance history current for shipments that are only followed in the background
+    await recordLookup(latest, now);
+  } catch (error) {
+    console.error(`Falha ao atualizar o rastreio acompanhado ${entry.id}:`, error);
+    updated = { ...entry, lastCheckedAt: now.toISOString(), lastError: toLocalizedMessage(error, { code: 'watchlist.errors.refresh' }) };
+  }
+  if (shouldAutoArchive(updated, settings.archiveAfterDays, now)) {
+    updated = { ...updated, archivedAt: now.toISOString() };
+  }
+  await saveWatchlistEntry(updated);
+  return updated;
+};
@@ -1,18 +1,53 @@
+import type { ParsedXmlData } from './utils/xmlParser';
+import type { LocalizedMessage } from './i18n/i18n';
+
+
+// Normalized shipment status, derived from the carrier occurrence code and text (see utils/shipmentStatus.ts)
+export type ShipmentStatus =
+  | 'emitted'
+  | 'collected'
+  | 'in_transit'
+  | 'at_destination_hub'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'delivery_failed'
+  | 'returned'
+  | 'exception'
+  | 'unknown';
 
 export interface TrackingEvent {
   timestamp: string; // Should be in ISO 8601 format (e.g., "2024-07-28T10:15:00Z")
-  status: string;
-  location: string;
+  status?: string; // Carrier occurrence text; unset when the carrier did not send one
+  location?: string; // Unset when the carrier did not say where the event happened
   details?: string;
+  code?: string; // Carrier occurrence code, e.g. SSW codigo_ssw
+  canonicalStatus?: ShipmentStatus;
 }
 
+// One volume group of the NF-e (infNFe > transp > vol)
 export interface XmlVolumeInfo {
   quantity?: number;
   species?: string;
+  brand?: string; // marca
+  numbering?: string; // nVol
+  netWeight?: number;
+  grossWeight?: number;
+  seals?: string[]; // lacres > nLacre
+}
+
+// Each total is unset when no group informs that value, so a missing weight is not shown as zero
+export interface XmlVolumeTotals {
+  quantity?: number;
   netWeight?: number;
   grossWeight?: number;
 }
 
+// All volume groups of the NF-e plus their sums
+export interface XmlVolumeSummary {
+  groups: XmlVolumeInfo[];
+  totals: XmlVolumeTotals;
+}
+
 export interface XmlInvoiceInfo {
   number?: string;
   originalValue?: number;
@@ -26,19 +61,222 @@ export interface XmlInstallmentInfo {
   value?: number;
 }
 
+// Transporter identified in the NF-e (infNFe > transp > transporta)
+export interface XmlCarrierInfo {
+  name?: string;
+  cnpj?: string; // Digits only
+  cpf?: string; // Digits only, for individual transporters
+  stateRegistration?: string; // IE
+  address?: string;
+  city?: string;
+  uf?: string;
+}
+
+// Item of the NF-e (infNFe > det > prod)
+export interface XmlProductItem {
+  itemNumber?: string; // det nItem attribute
+  code?: string; // cProd
+  description?: string; // xProd
+  ncm?: string;
+  cfop?: string;
+  quantity?: number; // qCom
+  unit?: string; // uCom
+  unitPrice?: number; // vUnCom
+  totalValue?: number; // vProd
+}
+
+// Problem found in the carrier's data (missing or invalid field), shown to the user instead of only logged.
+// Kept as code + params like the errors, so it is translated when displayed.
+export interface DataQualityWarning extends LocalizedMessage {
+  field: string; // Path in the provider payload, e.g. "documento.tracking[2].data_hora"
+}
+
 export interface TrackingInfo {
   id: string; // DANFE Access Key
   carrier: string;
-  estimatedDelivery: string; // Should be in ISO 8601 date format (e.g., "2024-07-28") or a descriptive string
-  currentStatus: string;
+  providerName?: string; // Tracking provider that supplied the data, e.g. "SSW"
+  nfNumber?: string; // From the NF-e XML, or as reported by the carrier
+  estimatedDelivery?: string; // YYYY-MM-DD, as informed by the carrier; formatted by the UI
+  estimatedDeliveryDate?: string; // Parsed estimated delivery as ISO 8601 at UTC midnight; used for delay detection
+  currentStatus?: string; // Occurrence text of the latest event; unset when there are no events
+  canonicalStatus?: ShipmentStatus;
   events: TrackingEvent[];
-  origin: string; // Sender's name or location
-  destination: string; // Recipient's name or location
-  productName?: string; // e.g., Invoice details
+  origin?: string; // Sender's name or location; unset when unknown
+  destination?: string; // Recipient's name or location; unset when unknown
   weight?: string; // e.g., "2.5kg" - This is parsed from SSW event description
 
   // New fields for XML-specific data
-  xmlVolumeInfo?: XmlVolumeInfo;
+  xmlVolumes?: XmlVolumeSummary;
   xmlInvoiceInfo?: XmlInvoiceInfo;
   xmlInstallments?: XmlInstallmentInfo[];
-}
\ No newline at end of file
+  xmlItems?: XmlProductItem[];
+  xmlEmitter?: XmlPartyInfo; // emit
+  xmlRecipient?: XmlPartyInfo; // dest
+  xmlCteInfo?: XmlCteInfo; // Freight data when the NF-e was tracked from a CT-e file
+  dataWarnings?: DataQualityWarning[]; // Data-quality issues found in the provider response
+}
+export type BatchItemStatus = 'pending' | 'processing' | 'success' | 'error';
+
+export interface BatchItem {
+  id: string; // Unique per uploaded file within the batch
+  fileName: string;
+  status: BatchItemStatus;
+  accessKey?: string;
+  nfNumber?: string; // From the XML (ide > nNF) when available
+  trackingInfo?: TrackingInfo;
+  xmlData?: ParsedXmlData; // Parsed document the row was tracked from
+  error?: LocalizedMessage; // Per-row error message, shown in the results table
+}
+
+// Fields encoded in the 44-digit access key (chave de acesso) of NF-e/CT-e/NFC-e documents
+export interface DecodedAccessKey {
+  key: string;
+  ufCode: string; // cUF (IBGE code of the emitter's state)
+  uf?: string; // State abbreviation, e.g. "SP"
+  emissionYear: number; // From AAMM
+  emissionMonth: number; // 1-12, from AAMM
+  emitterDocument: string; // CNPJ (14 digits) or CPF (11 digits)
+  emitterDocumentType: 'CNPJ' | 'CPF';
+  model: string; // 55 = NF-e, 57 = CT-e, 65 = NFC-e
+  modelDescription?: string;
+  series: string;
+  number: string; // nNF without leading zeros
+  emissionType: string; // tpEmis
+  emissionTypeDescription?: string;
+  numericCode: string; // cNF
+  checkDigit: string; // cDV
+}
+
+// Address block of a party (enderEmit, enderDest, enderReme, ...)
+export interface XmlAddress {
+  street?: string; // xLgr
+  number?: string; // nro
+  complement?: string; // xCpl
+  district?: string; // xBairro
+  city?: string; // xMun
+  uf?: string;
+  cep?: string; // Digits only
+  phone?: string; // Digits only
+}
+
+// A party (emitter, recipient, sender, etc.) in a fiscal document
+export interface XmlPartyInfo {
+  name?: string; // xNome
+  fantasyName?: string; // xFant
+  document?: string; // CNPJ or CPF, digits only
+  documentType?: 'CNPJ' | 'CPF';
+  stateRegistration?: string; // IE
+  address?: XmlAddress;
+}
+
+export interface XmlCteFreightComponent {
+  name?: string; // Comp > xNome, e.g. "FRETE PESO", "PEDAGIO"
+  value?: number;
+}
+
+export interface XmlCteFreightInfo {
+  totalValue?: number; // vPrest > vTPrest
+  receivableValue?: number; // vPrest > vRec
+  components: XmlCteFreightComponent[];
+}
+
+export interface XmlCteCargoQuantity {
+  unitCode?: string; // cUnid: 00 = M3, 01 = KG, 02 = TON, 03 = UNIDADE, 04 = LITROS, 05 = MMBTU
+  measureType?: string; // tpMed, e.g. "PESO BRUTO"
+  quantity?: number;
+}
+
+export interface XmlCteCargoInfo {
+  value?: number; // vCarga
+  predominantProduct?: string; // proPred
+  quantities: XmlCteCargoQuantity[];
+}
+
+// Data from a CT-e (cteProc > CTe > infCte) sent by the carrier
+export interface XmlCteInfo {
+  accessKey: string; // CT-e key
+  number?: string; // ide > nCT
+  series?: string;
+  originCity?: string; // ide > xMunIni
+  originUf?: string;
+  destinationCity?: string; // ide > xMunFim
+  destinationUf?: string;
+  referencedNfeKeys: string[]; // infDoc > infNFe > chave
+  freight?: XmlCteFreightInfo;
+  sender?: XmlPartyInfo; // rem
+  recipient?: XmlPartyInfo; // dest
+  expeditor?: XmlPartyInfo; // exped
+  cargo?: XmlCteCargoInfo;
+}
+
+// Delivery of the goods compared with the first due date of the note's installments
+export type DeliveryBeforeDueState =
+  | 'delivered_before_due' // Delivered on or before the first due date
+  | 'delivered_after_due'
+  | 'pending' // Not delivered and the first due date has not passed yet
+  | 'pending_past_due'; // Not delivered although the first due date has passed
+
+// One duplicata (cobr > dup) of a looked-up or watched NF-e, for the receivables calendar
+export interface ReceivableInstallment {
+  accessKey: string;
+  nfNumber?: string;
+  supplier: string; // Emitter name, or its formatted CNPJ/CPF
+  installmentNumber?: string; // nDup
+  dueDate: string; // YYYY-MM-DD
+  value: number;
+  deliveryState?: DeliveryBeforeDueState; // Same for every installment of the note; unset when the delivery date is unknown
+}
+
+// 'report' is the text-based A4 report; 'screenshot' captures the on-screen tracking display as an image
+export type PdfExportMode = 'report' | 'screenshot';
+
+// Outcome of the last PDF download, shown below the download button
+export interface PdfStatusMessage {
+  text: string;
+  isError: boolean;
+}
+
+// Summary shown above the tracking details, written by an LLM or by the offline template
+export interface TrackingSummary {
+  text: string;
+  summarizerName: string; // e.g. "Gemini"; shown as the source of the summary
+  generatedByAi: boolean;
+  fallbackReason?: string; // Why the configured LLM was not used, when the template stepped in
+}
+
+export type AnalysisRiskLevel = 'low' | 'medium' | 'high';
+
+export type ShipmentProblemKind =
+  | 'failed_delivery_attempt'
+  | 'address_issue'
+  | 'stuck_at_hub' // No movement for several days
+  | 'delayed' // Past the estimated delivery date
+  | 'returned'
+  | 'other';
+
+export interface ShipmentProblem {
+  kind: ShipmentProblemKind;
+  description: string; // pt-BR, e.g. "Parada em CAMPINAS / SP há 4 dias"
+  days?: number; // Days stuck or late, when the problem has a duration
+}
+
+// Structured reading of the tracking history, for the operator handling the shipment
+export interface ShipmentAnalysis {
+  riskLevel: AnalysisRiskLevel;
+  nextStep: string; // Likely next event
+  problems: ShipmentProblem[];
+  customerMessage: string; // Ready to send to the customer
+}
+
+export interface ShipmentAnalysisResult {
+  analysis: ShipmentAnalysis;
+  analyzerName: string; // e.g. "Gemini"; shown as the source of the analysis
+  generatedByAi: boolean;
+  fallbackReason?: string; // Why the Gemini analysis was not used, when the rules stepped in
+}
+
+// One turn of the Q&A chat about the shipment being displayed
+export interface TrackingChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
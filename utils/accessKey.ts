@@ -0,0 +1,145 @@
+// utils/accessKey.ts
+import type { DecodedAccessKey } from '../types';
+import type { LocalizedMessage } from '../i18n/i18n';
+
+export const ACCESS_KEY_LENGTH = 44;
+
+// IBGE state codes used in the first two digits (cUF) of the key
+const UF_BY_CODE: Record<string, string> = {
+  '11': 'RO', '12': 'AC', '13': 'AM', '14': 'RR', '15': 'PA', '16': 'AP', '17': 'TO',
+  '21': 'MA', '22': 'PI', '23': 'CE', '24': 'RN', '25': 'PB', '26': 'PE', '27': 'AL', '28': 'SE', '29': 'BA',
+  '31': 'MG', '32': 'ES', '33': 'RJ', '35': 'SP',
+  '41': 'PR', '42': 'SC', '43': 'RS',
+  '50': 'MS', '51': 'MT', '52': 'GO', '53': 'DF',
+};
+
+const MODEL_DESCRIPTIONS: Record<string, string> = {
+  '55': 'NF-e',
+  '57': 'CT-e',
+  '58': 'MDF-e',
+  '65': 'NFC-e',
+  '67': 'CT-e OS',
+};
+
+const EMISSION_TYPE_DESCRIPTIONS: Record<string, string> = {
+  '1': 'Normal',
+  '2': 'Contingência FS-IA',
+  '3': 'Contingência SCAN',
+  '4': 'Contingência EPEC',
+  '5': 'Contingência FS-DA',
+  '6': 'Contingência SVC-AN',
+  '7': 'Contingência SVC-RS',
+  '9': 'Contingência off-line (NFC-e)',
+};
+
+export interface AccessKeyValidation {
+  isValid: boolean;
+  normalizedKey: string; // Input without spaces and separators
+  error?: LocalizedMessage;
+}
+
+// Users often paste the key with the grouping spaces printed on the DANFE
+export const normalizeAccessKey = (input: string): string => input.replace(/[\s.\-/]/g, '');
+
+// Mod-11 with weights 2..9 applied from right to left (shared by the access key and CNPJ digits)
+const mod11CheckDigit = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += parseInt(digits[i], 10) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+// Check digit of the key, computed over its first 43 digits
+export const computeAccessKeyCheckDigit = (first43Digits: string): number => mod11CheckDigit(first43Digits);
+
+export const validateAccessKey = (input: string): AccessKeyValidation => {
+  const normalizedKey = normalizeAccessKey(input);
+
+  if (!normalizedKey) {
+    return { isValid: false, normalizedKey, error: { code: 'errors.accessKey.empty' } };
+  }
+  if (!/^\d+$/.test(normalizedKey)) {
+    return { isValid: false, normalizedKey, error: { code: 'errors.accessKey.nonDigits' } };
+  }
+  if (normalizedKey.length !== ACCESS_KEY_LENGTH) {
+    return {
+      isValid: false,
+      normalizedKey,
+      error: { code: 'errors.accessKey.length', params: { expected: ACCESS_KEY_LENGTH, length: normalizedKey.length } },
+    };
+  }
+  if (!UF_BY_CODE[normalizedKey.substring(0, 2)]) {
+    return { isValid: false, normalizedKey, error: { code: 'errors.accessKey.invalidUf', params: { ufCode: normalizedKey.substring(0, 2) } } };
+  }
+
+  const expectedDigit = computeAccessKeyCheckDigit(normalizedKey.substring(0, 43));
+  const informedDigit = parseInt(normalizedKey[43], 10);
+  if (expectedDigit !== informedDigit) {
+    return {
+      isValid: false,
+      normalizedKey,
+      error: { code: 'errors.accessKey.checkDigit', params: { informed: informedDigit, expected: expectedDigit } },
+    };
+  }
+
+  return { isValid: true, normalizedKey };
+};
+
+const isValidCnpj = (cnpj: string): boolean => {
+  if (!/^\d{14}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) return false;
+  const firstDigit = mod11CheckDigit(cnpj.substring(0, 12));
+  const secondDigit = mod11CheckDigit(cnpj.substring(0, 12) + firstDigit);
+  return cnpj.endsWith(`${firstDigit}${secondDigit}`);
+};
+
+const isValidCpf = (cpf: string): boolean => {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false;
+  const calcDigit = (base: string): number => {
+    let sum = 0;
+    for (let i = 0; i < base.length; i++) {
+      sum += parseInt(base[i], 10) * (base.length + 1 - i);
+    }
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+  const firstDigit = calcDigit(cpf.substring(0, 9));
+  const secondDigit = calcDigit(cpf.substring(0, 9) + firstDigit);
+  return cpf.endsWith(`${firstDigit}${secondDigit}`);
+};
+
+// Splits a valid 44-digit key into its fields. Returns null if the key does not pass validation.
+export const decodeAccessKey = (input: string): DecodedAccessKey | null => {
+  const { isValid, normalizedKey: key } = validateAccessKey(input);
+  if (!isValid) return null;
+
+  const ufCode = key.substring(0, 2);
+  const emissionYearMonth = key.substring(2, 6); // AAMM
+  const documentField = key.substring(6, 20);
+  const model = key.substring(20, 22);
+  const emissionType = key.substring(34, 35);
+
+  // Emitters identified by CPF (e.g. rural producers) have the CPF left-padded with zeros in the CNPJ field
+  const isCpfEmitter = documentField.startsWith('000') && !isValidCnpj(documentField) && isValidCpf(documentField.substring(3));
+
+  return {
+    key,
+    ufCode,
+    uf: UF_BY_CODE[ufCode],
+    emissionYear: 2000 + parseInt(emissionYearMonth.substring(0, 2), 10),
+    emissionMonth: parseInt(emissionYearMonth.substring(2, 4), 10),
+    emitterDocument: isCpfEmitter ? documentField.substring(3) : documentField,
+    emitterDocumentType: isCpfEmitter ? 'CPF' : 'CNPJ',
+    model,
+    modelDescription: MODEL_DESCRIPTIONS[model],
+    series: parseInt(key.substring(22, 25), 10).toString(),
+    number: parseInt(key.substring(25, 34), 10).toString(),
+    emissionType,
+    emissionTypeDescription: EMISSION_TYPE_DESCRIPTIONS[emissionType],
+    numericCode: key.substring(35, 43),
+    checkDigit: key.substring(43, 44),
+  };
+};
@@ -0,0 +1,156 @@
+// utils/barcodeReader.ts
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  BrowserMultiFormatReader,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import { LocalizedError } from '../i18n/localizedError';
+
+// The DANFE/DACTE prints the key as a CODE-128C barcode; NFC-e and DACTE QR codes carry it inside a URL
+// ("...?p=<chave>|2|1|..." or "...?chNFe=<chave>&...")
+const BARCODE_HINTS = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE]],
+  [DecodeHintType.TRY_HARDER, true],
+]);
+
+// Phone photos are much larger than needed; scaling down keeps decoding fast without losing the bars
+const MAX_IMAGE_SIDE = 2000;
+
+// Camera frames are decoded a few times per second until a key is found
+const CAMERA_SCAN_INTERVAL_MS = 300;
+
+// RGBA pixels row by row, as returned by getImageData; the fixture check builds it from a file in Node
+export interface BarcodeImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// First run of exactly 44 digits in the decoded text, or null when there is none
+export const extractAccessKeyFromBarcodeText = (text: string): string | null => {
+  const match = text.match(/(?:^|\D)(\d{44})(?!\d)/);
+  return match ? match[1] : null;
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new LocalizedError('errors.barcode.imageLoad'));
+    };
+    image.src = url;
+  });
+
+const toImageData = (image: HTMLImageElement): BarcodeImage => {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new LocalizedError('errors.barcode.imageLoad');
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Same green-favouring grey level zxing uses for canvas images
+const toLuminances = ({ data, width, height }: BarcodeImage): Uint8ClampedArray => {
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let offset = 0; offset < luminances.length; offset++) {
+    luminances[offset] = (data[offset * 4] + 2 * data[offset * 4 + 1] + data[offset * 4 + 2]) >> 2;
+  }
+  return luminances;
+};
+
+const rotateCounterClockwise = (luminances: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const rotated = new Uint8ClampedArray(luminances.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rotated[(width - 1 - x) * height + y] = luminances[y * width + x];
+    }
+  }
+  return rotated;
+};
+
+// Decoded text of every attempt that found a code: as is, then rotated 90° for photos taken sideways
+const decodeImage = (image: BarcodeImage): string[] => {
+  const reader = new MultiFormatReader();
+  reader.setHints(BARCODE_HINTS);
+  const luminances = toLuminances(image);
+  const sources = [
+    new RGBLuminanceSource(luminances, image.width, image.height),
+    new RGBLuminanceSource(rotateCounterClockwise(luminances, image.width, image.height), image.height, image.width),
+  ];
+  const texts: string[] = [];
+  for (const luminanceSource of sources) {
+    try {
+      texts.push(reader.decode(new BinaryBitmap(new HybridBinarizer(luminanceSource))).getText());
+    } catch (e) { /* No code found in this orientation */ }
+  }
+  return texts;
+};
+
+// Access key of the barcode / QR code in the image. Not validated: callers check the digits.
+export const decodeAccessKeyFromImage = (image: BarcodeImage): string => {
+  const texts = decodeImage(image);
+  if (texts.length === 0) {
+    throw new LocalizedError('errors.barcode.notFound');
+  }
+  for (const text of texts) {
+    const accessKey = extractAccessKeyFromBarcodeText(text);
+    if (accessKey) return accessKey;
+  }
+  throw new LocalizedError('errors.barcode.noAccessKey');
+};
+
+// Access key read from a photo or scan of the DANFE barcode / QR code
+export const readAccessKeyFromImage = async (file: File): Promise<string> =>
+  decodeAccessKeyFromImage(toImageData(await loadImage(file)));
+
+export const isCameraScanAvailable = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Scans the rear camera into the video element until a code with an access key shows up.
+// Returns a function that stops the scan and releases the camera.
+export const startCameraScan = (
+  video: HTMLVideoElement,
+  onAccessKey: (accessKey: string) => void,
+  onError: (error: LocalizedError) => void,
+): (() => void) => {
+  const reader = new BrowserMultiFormatReader(BARCODE_HINTS, CAMERA_SCAN_INTERVAL_MS);
+  let isStopped = false;
+  const stop = () => {
+    isStopped = true;
+    reader.reset();
+  };
+
+  reader
+    .decodeFromConstraints({ video: { facingMode: 'environment' } }, video, (result) => {
+      // Frames without a code report NotFoundException; they are simply skipped
+      const accessKey = result ? extractAccessKeyFromBarcodeText(result.getText()) : null;
+      if (accessKey && !isStopped) {
+        stop();
+        onAccessKey(accessKey);
+      }
+    })
+    .catch((error) => {
+      console.error("Erro ao acessar a câmera:", error);
+      if (!isStopped) {
+        stop();
+        onError(new LocalizedError('errors.barcode.camera'));
+      }
+    });
+
+  return stop;
+};
@@ -0,0 +1,185 @@
+// utils/carrierPerformance.ts
+import type { TrackingInfo } from '../types';
+import { decodeAccessKey } from './accessKey';
+import { assessDeliveryRisk } from './deliveryRisk';
+import { findDeliveryEvent, getEventShipmentStatus } from './shipmentStatus';
+import { analyzeTransit } from './transitAnalytics';
+import { buildCsv, downloadBlob, ExportColumn } from './spreadsheetExport';
+import { getIntlLocale, MessageKey, t } from '../i18n/i18n';
+
+export type BrazilRegion = 'N' | 'NE' | 'CO' | 'SE' | 'S';
+
+export type PerformanceDimension = 'carrier' | 'uf' | 'region' | 'month';
+
+// What the dashboard needs from one shipment, read once from its tracking data
+export interface ShipmentPerformanceFacts {
+  id: string; // DANFE Access Key
+  carrier: string;
+  destinationUf?: string;
+  region?: BrazilRegion;
+  month?: string; // YYYY-MM the shipment started (first dated event, or the emission month of the key)
+  isDelivered: boolean;
+  transitDays?: number; // First dated event to the delivery; delivered shipments with dated events only
+  onTime?: boolean; // Against the parsed estimated delivery; unset when it cannot be judged yet
+  failedAttempts: number; // Events classified as a failed delivery
+}
+
+// Aggregated numbers of one carrier, UF, region or month
+export interface PerformanceRow {
+  key: string; // Carrier name, UF, region code or YYYY-MM; '' when unknown
+  shipments: number;
+  delivered: number;
+  averageTransitDays?: number;
+  onTimeCount: number;
+  lateCount: number;
+  onTimeRate?: number; // 0-1, over the shipments that could be judged
+  failedAttempts: number;
+  shipmentsWithFailures: number;
+}
+
+export const BRAZIL_REGIONS: BrazilRegion[] = ['N', 'NE', 'CO', 'SE', 'S'];
+
+const REGION_BY_UF: Record<string, BrazilRegion> = {
+  AC: 'N', AM: 'N', AP: 'N', PA: 'N', RO: 'N', RR: 'N', TO: 'N',
+  AL: 'NE', BA: 'NE', CE: 'NE', MA: 'NE', PB: 'NE', PE: 'NE', PI: 'NE', RN: 'NE', SE: 'NE',
+  DF: 'CO', GO: 'CO', MS: 'CO', MT: 'CO',
+  ES: 'SE', MG: 'SE', RJ: 'SE', SP: 'SE',
+  PR: 'S', RS: 'S', SC: 'S',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUf = (value: string | undefined): string | undefined => {
+  const uf = value?.trim().toUpperCase();
+  return uf && REGION_BY_UF[uf] ? uf : undefined;
+};
+
+// "City/UF" and "CITY / UF" texts end with the state abbreviation
+const getTrailingUf = (text: string | undefined): string | undefined => toUf(text?.match(/\/\s*([A-Za-z]{2})\s*$/)?.[1]);
+
+// The recipient's address (NF-e XML), then the CT-e destination, then the "City/UF" ending of the destination
+// text and the place of the delivery event. The access key only carries the emitter's UF, so it cannot tell
+// where the cargo went.
+export const getDestinationUf = (info: TrackingInfo): string | undefined =>
+  toUf(info.xmlRecipient?.address?.uf) ||
+  toUf(info.xmlCteInfo?.destinationUf) ||
+  getTrailingUf(info.destination) ||
+  getTrailingUf(findDeliveryEvent(info.events)?.location);
+
+const toMonth = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const getShipmentMonth = (info: TrackingInfo, startedAt: string | undefined): string | undefined => {
+  if (startedAt) return toMonth(new Date(startedAt));
+  const decodedKey = decodeAccessKey(info.id);
+  return decodedKey ? `${decodedKey.emissionYear}-${String(decodedKey.emissionMonth).padStart(2, '0')}` : undefined;
+};
+
+// Delivered shipments are judged by the delivery date; open shipments already past the estimate count as late
+const getOnTime = (info: TrackingInfo, now: Date): boolean | undefined => {
+  const { state } = assessDeliveryRisk(info, now);
+  if (state === 'delivered_on_time') return true;
+  if (state === 'delivered_late' || state === 'late') return false;
+  return undefined;
+};
+
+export const getShipmentPerformanceFacts = (info: TrackingInfo, now: Date = new Date()): ShipmentPerformanceFacts => {
+  const transit = analyzeTransit(info.events, now);
+  const destinationUf = getDestinationUf(info);
+  return {
+    id: info.id,
+    carrier: info.carrier.trim().replace(/\s+/g, ' '),
+    destinationUf,
+    region: destinationUf ? REGION_BY_UF[destinationUf] : undefined,
+    month: getShipmentMonth(info, transit.startedAt),
+    isDelivered: transit.isDelivered || info.canonicalStatus === 'delivered',
+    // Without a dated delivery the total stays open and the shipment is left out of the average
+    transitDays: transit.isDelivered && transit.totalElapsedMs !== undefined ? transit.totalElapsedMs / DAY_MS : undefined,
+    onTime: getOnTime(info, now),
+    failedAttempts: info.events.filter(event => getEventShipmentStatus(event) === 'delivery_failed').length,
+  };
+};
+
+const getGroupKey = (facts: ShipmentPerformanceFacts, dimension: PerformanceDimension): string => {
+  if (dimension === 'carrier') return facts.carrier.toUpperCase();
+  if (dimension === 'uf') return facts.destinationUf || '';
+  if (dimension === 'region') return facts.region || '';
+  return facts.month || '';
+};
+
+// Months and regions in their natural order, carriers and UFs by volume; the unknown group always comes last
+export const aggregatePerformance = (facts: ShipmentPerformanceFacts[], dimension: PerformanceDimension): PerformanceRow[] => {
+  const groups = new Map<string, { row: PerformanceRow; transitDaysSum: number; transitCount: number }>();
+  for (const shipment of facts) {
+    const groupKey = getGroupKey(shipment, dimension);
+    const group = groups.get(groupKey) || {
+      // Carriers are grouped case-insensitively but shown as first seen
+      row: { key: dimension === 'carrier' ? shipment.carrier : groupKey, shipments: 0, delivered: 0, onTimeCount: 0, lateCount: 0, failedAttempts: 0, shipmentsWithFailures: 0 },
+      transitDaysSum: 0,
+      transitCount: 0,
+    };
+    const { row } = group;
+    row.shipments++;
+    if (shipment.isDelivered) row.delivered++;
+    if (shipment.transitDays !== undefined) {
+      group.transitDaysSum += shipment.transitDays;
+      group.transitCount++;
+    }
+    if (shipment.onTime === true) row.onTimeCount++;
+    if (shipment.onTime === false) row.lateCount++;
+    row.failedAttempts += shipment.failedAttempts;
+    if (shipment.failedAttempts > 0) row.shipmentsWithFailures++;
+    groups.set(groupKey, group);
+  }
+
+  const rows = Array.from(groups.values()).map(({ row, transitDaysSum, transitCount }) => {
+    const judged = row.onTimeCount + row.lateCount;
+    return {
+      ...row,
+      averageTransitDays: transitCount > 0 ? transitDaysSum / transitCount : undefined,
+      onTimeRate: judged > 0 ? row.onTimeCount / judged : undefined,
+    };
+  });
+  const compare = (a: PerformanceRow, b: PerformanceRow): number => {
+    if (!a.key || !b.key) return a.key ? -1 : b.key ? 1 : 0;
+    if (dimension === 'month') return a.key.localeCompare(b.key);
+    if (dimension === 'region') return BRAZIL_REGIONS.indexOf(a.key as BrazilRegion) - BRAZIL_REGIONS.indexOf(b.key as BrazilRegion);
+    return b.shipments - a.shipments || a.key.localeCompare(b.key);
+  };
+  return rows.sort(compare);
+};
+
+// Region names, "MM/YYYY" months and a placeholder for shipments whose group is unknown
+export const getPerformanceGroupLabel = (key: string, dimension: PerformanceDimension): string => {
+  if (!key) return t('performance.unknown');
+  if (dimension === 'region') return t(`performance.region.${key as BrazilRegion}`);
+  if (dimension === 'month') {
+    return new Date(`${key}-01T00:00:00Z`).toLocaleDateString(getIntlLocale(), { month: '2-digit', year: 'numeric', timeZone: 'UTC' });
+  }
+  return key;
+};
+
+const DIMENSION_HEADERS: Record<PerformanceDimension, MessageKey> = {
+  carrier: 'performance.dimension.carrier',
+  uf: 'performance.dimension.uf',
+  region: 'performance.dimension.region',
+  month: 'performance.dimension.month',
+};
+
+const getPerformanceColumns = (dimension: PerformanceDimension): ExportColumn<PerformanceRow>[] => [
+  { header: DIMENSION_HEADERS[dimension], type: 'text', value: row => getPerformanceGroupLabel(row.key, dimension) },
+  { header: 'performance.column.shipments', type: 'integer', value: row => row.shipments },
+  { header: 'performance.column.delivered', type: 'integer', value: row => row.delivered },
+  { header: 'performance.column.averageTransitDays', type: 'decimal', value: row => row.averageTransitDays },
+  { header: 'performance.column.onTimeRate', type: 'decimal', value: row => (row.onTimeRate !== undefined ? row.onTimeRate * 100 : undefined) },
+  { header: 'performance.column.onTime', type: 'integer', value: row => row.onTimeCount },
+  { header: 'performance.column.late', type: 'integer', value: row => row.lateCount },
+  { header: 'performance.column.failedAttempts', type: 'integer', value: row => row.failedAttempts },
+  { header: 'performance.column.shipmentsWithFailures', type: 'integer', value: row => row.shipmentsWithFailures },
+];
+
+export const buildPerformanceCsv = (rows: PerformanceRow[], dimension: PerformanceDimension): string =>
+  buildCsv(getPerformanceColumns(dimension), rows);
+
+export const exportPerformanceToCsv = (rows: PerformanceRow[], dimension: PerformanceDimension, fileBaseName: string): void => {
+  downloadBlob(new Blob([buildPerformanceCsv(rows, dimension)], { type: 'text/csv;charset=utf-8' }), `${fileBaseName}.csv`);
+};
@@ -0,0 +1,103 @@
+// utils/cteParser.ts
+import type { XmlCarrierInfo, XmlCteInfo } from '../types';
+import type { ParsedXmlData } from './xmlParser';
+import { validateAccessKey } from './accessKey';
+import { LocalizedError } from '../i18n/localizedError';
+import { getNumericContent, getTextContent, extractPartyInfo } from './xmlHelpers';
+
+const extractCteAccessKey = (xmlDoc: Document, infCteElement: Element): string | null => {
+  const protKey = getTextContent(xmlDoc.documentElement, "protCTe > infProt > chCTe");
+  if (protKey && validateAccessKey(protKey).isValid) return protKey;
+
+  const idAttr = infCteElement.getAttribute("Id");
+  if (idAttr) {
+    const key = idAttr.toUpperCase().startsWith("CTE") ? idAttr.substring(3) : idAttr;
+    if (/^\d{44}$/.test(key)) return key;
+  }
+  return protKey || null;
+};
+
+// Extracts the CT-e data and the NF-e keys it transports. Throws with a user-facing message when the key is missing.
+export const extractCteData = (xmlDoc: Document, infCteElement: Element): ParsedXmlData => {
+  const accessKey = extractCteAccessKey(xmlDoc, infCteElement);
+  if (!accessKey) {
+    throw new LocalizedError('errors.cte.keyNotFound');
+  }
+  const keyValidation = validateAccessKey(accessKey);
+  if (keyValidation.error) {
+    throw new LocalizedError('errors.cte.invalidKey', { reason: keyValidation.error });
+  }
+
+  const ideElement = infCteElement.querySelector("ide");
+
+  // Referenced NF-e keys (infCTeNorm > infDoc > infNFe > chave), ignoring duplicates and invalid keys
+  const referencedNfeKeys = Array.from(infCteElement.querySelectorAll("infDoc > infNFe > chave"))
+    .map(element => element.textContent?.trim() || '')
+    .filter((key, index, keys) => validateAccessKey(key).isValid && keys.indexOf(key) === index);
+
+  const vPrestElement = infCteElement.querySelector("vPrest");
+  const freight = vPrestElement
+    ? {
+        totalValue: getNumericContent(vPrestElement, "vTPrest"),
+        receivableValue: getNumericContent(vPrestElement, "vRec"),
+        components: Array.from(vPrestElement.querySelectorAll("Comp")).map(comp => ({
+          name: getTextContent(comp, "xNome"),
+          value: getNumericContent(comp, "vComp"),
+        })),
+      }
+    : undefined;
+
+  const infCargaElement = infCteElement.querySelector("infCTeNorm > infCarga");
+  const cargo = infCargaElement
+    ? {
+        value: getNumericContent(infCargaElement, "vCarga"),
+        predominantProduct: getTextContent(infCargaElement, "proPred"),
+        quantities: Array.from(infCargaElement.querySelectorAll("infQ")).map(infQ => ({
+          unitCode: getTextContent(infQ, "cUnid"),
+          measureType: getTextContent(infQ, "tpMed"),
+          quantity: getNumericContent(infQ, "qCarga"),
+        })),
+      }
+    : undefined;
+
+  const cteInfo: XmlCteInfo = {
+    accessKey: keyValidation.normalizedKey,
+    number: getTextContent(ideElement, "nCT"),
+    series: getTextContent(ideElement, "serie"),
+    originCity: getTextContent(ideElement, "xMunIni"),
+    originUf: getTextContent(ideElement, "UFIni"),
+    destinationCity: getTextContent(ideElement, "xMunFim"),
+    destinationUf: getTextContent(ideElement, "UFFim"),
+    referencedNfeKeys,
+    freight,
+    sender: extractPartyInfo(infCteElement.querySelector("rem"), "enderReme"),
+    recipient: extractPartyInfo(infCteElement.querySelector("dest"), "enderDest"),
+    expeditor: extractPartyInfo(infCteElement.querySelector("exped"), "enderExped"),
+    cargo,
+  };
+
+  // The CT-e emitter is the carrier itself
+  const emitElement = infCteElement.querySelector("emit");
+  const carrier: XmlCarrierInfo | undefined = emitElement
+    ? {
+        name: getTextContent(emitElement, "xNome"),
+        cnpj: getTextContent(emitElement, "CNPJ"),
+        stateRegistration: getTextContent(emitElement, "IE"),
+        city: getTextContent(emitElement, "enderEmit > xMun"),
+        uf: getTextContent(emitElement, "enderEmit > UF"),
+      }
+    : undefined;
+
+  return { documentType: 'cte', accessKey: cteInfo.accessKey, carrier, cteInfo };
+};
+
+// Each NF-e referenced by a CT-e is tracked on its own, carrying the CT-e freight data along
+export const getNfeDocumentsFromCte = (cteData: ParsedXmlData): ParsedXmlData[] => {
+  if (cteData.documentType !== 'cte' || !cteData.cteInfo) return [cteData];
+  return cteData.cteInfo.referencedNfeKeys.map(nfeKey => ({
+    documentType: 'nfe',
+    accessKey: nfeKey,
+    carrier: cteData.carrier,
+    cteInfo: cteData.cteInfo,
+  }));
+};
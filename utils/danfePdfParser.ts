@@ -0,0 +1,299 @@
+// utils/danfePdfParser.ts
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+import type { XmlCarrierInfo, XmlInstallmentInfo, XmlInvoiceInfo, XmlPartyInfo, XmlVolumeSummary } from '../types';
+import type { ParsedXmlData } from './xmlParser';
+import { decodeAccessKey, validateAccessKey } from './accessKey';
+import type { LocalizedMessage } from '../i18n/i18n';
+import { LocalizedError } from '../i18n/localizedError';
+
+// The worker only parses the PDF; it is bundled and served with the app, and the file itself never leaves the browser
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Piece of text of the DANFE with its position, y measured from the top of the page
+interface TextBox {
+  text: string;
+  label: string; // Normalized text used to match the DANFE field labels
+  x: number;
+  y: number;
+  page: number;
+}
+
+// Text pieces whose baselines differ by less than this are on the same line
+const LINE_TOLERANCE = 2;
+// Field values are printed right below their label, inside the same box
+const MAX_VALUE_DISTANCE = 18;
+
+// The DANFE prints the key in groups of four digits ("3524 0812 3456 ..."); some layouts add dots instead
+const GROUPED_ACCESS_KEY_PATTERN = /(?<!\d)\d{4}(?:[ .]?\d{4}){10}(?!\d)/g;
+
+// Uppercase without accents and with "NOME / RAZÃO SOCIAL" spacing unified, so labels of different generators match
+const normalizeLabel = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\s*\/\s*/g, '/')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// "1.234,56" -> 1234.56
+const parseBrazilianNumber = (text: string | undefined): number | undefined => {
+  const match = text?.match(/-?[\d.]*\d(?:,\d+)?/);
+  if (!match) return undefined;
+  const value = parseFloat(match[0].replace(/\./g, '').replace(',', '.'));
+  return isNaN(value) ? undefined : value;
+};
+
+// "12.345.678/0001-90" -> digits and type; anything else is ignored
+const parseDocument = (text: string | undefined): Pick<XmlPartyInfo, 'document' | 'documentType'> => {
+  const digits = text?.replace(/\D/g, '') || '';
+  if (digits.length === 14) return { document: digits, documentType: 'CNPJ' };
+  if (digits.length === 11) return { document: digits, documentType: 'CPF' };
+  return {};
+};
+
+// "10/08/2024" -> "2024-08-10", the format of the XML dates
+const toIsoDate = (text: string): string => {
+  const [day, month, year] = text.split('/');
+  return `${year}-${month}-${day}`;
+};
+
+const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new LocalizedError('errors.danfePdf.readFailed'));
+    reader.readAsArrayBuffer(file);
+  });
+
+// Text layer of every page, in reading order (top to bottom, then left to right)
+const extractTextBoxes = async (data: ArrayBuffer): Promise<TextBox[]> => {
+  let pdf;
+  try {
+    pdf = await getDocument({ data }).promise;
+  } catch (error) {
+    console.error("Erro ao abrir o PDF:", error);
+    throw new LocalizedError('errors.danfePdf.readFailed');
+  }
+  const boxes: TextBox[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const pageHeight = page.getViewport({ scale: 1 }).height;
+      const content = await page.getTextContent();
+      const pageBoxes: TextBox[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        pageBoxes.push({
+          text: item.str.trim(),
+          label: normalizeLabel(item.str),
+          x: item.transform[4],
+          y: pageHeight - item.transform[5],
+          page: pageNumber,
+        });
+      }
+      pageBoxes.sort((a, b) => (Math.abs(a.y - b.y) <= LINE_TOLERANCE ? a.x - b.x : a.y - b.y));
+      boxes.push(...pageBoxes);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return boxes;
+};
+
+// Text of the whole document, one line per printed line
+const toLines = (boxes: TextBox[]): string[] => {
+  const lines: string[] = [];
+  let lineStart: TextBox | undefined;
+  for (const box of boxes) {
+    if (lineStart && box.page === lineStart.page && Math.abs(box.y - lineStart.y) <= LINE_TOLERANCE) {
+      lines[lines.length - 1] += ` ${box.text}`;
+    } else {
+      lines.push(box.text);
+      lineStart = box;
+    }
+  }
+  return lines;
+};
+
+// First valid access key in the text. Keys next to the "CHAVE DE ACESSO" label come first; other 44-digit runs
+// (e.g. a referenced NF-e in the additional information) are only used when no labeled key is found.
+const findAccessKey = (lines: string[]): string => {
+  const labeledLineIndex = lines.findIndex(line => normalizeLabel(line).includes('CHAVE DE ACESSO'));
+  const orderedLines = labeledLineIndex >= 0
+    ? [...lines.slice(labeledLineIndex, labeledLineIndex + 3), ...lines]
+    : lines;
+  let invalidKeyError: LocalizedMessage | undefined;
+  for (const line of orderedLines) {
+    for (const match of line.matchAll(GROUPED_ACCESS_KEY_PATTERN)) {
+      const keyValidation = validateAccessKey(match[0]);
+      if (!keyValidation.error) return keyValidation.normalizedKey;
+      invalidKeyError = invalidKeyError || keyValidation.error;
+    }
+  }
+  if (invalidKeyError) {
+    throw new LocalizedError('errors.danfePdf.invalidKey', { reason: invalidKeyError });
+  }
+  throw new LocalizedError('errors.danfePdf.keyNotFound');
+};
+
+// Reads the labeled fields of the first page. The DANFE prints each field as a small label with the value
+// below it in the same box; a label is searched in reading order after `afterIndex`, so repeated labels
+// ("CNPJ/CPF", "MUNICIPIO") are told apart by the section heading found before them.
+const createFieldReader = (boxes: TextBox[]) => {
+  const findLabel = (pattern: RegExp, afterIndex = -1): number =>
+    boxes.findIndex((box, index) => index > afterIndex && pattern.test(box.label));
+
+  const valueBelow = (labelIndex: number): string | undefined => {
+    if (labelIndex < 0) return undefined;
+    const label = boxes[labelIndex];
+    // The box of the field ends where the next label of the same line starts
+    const nextOnLine = boxes.find((box, index) => index > labelIndex && Math.abs(box.y - label.y) <= LINE_TOLERANCE);
+    const right = nextOnLine ? nextOnLine.x : Infinity;
+    const candidates = boxes.filter(box =>
+      box.page === label.page && box.y > label.y + LINE_TOLERANCE && box.y <= label.y + MAX_VALUE_DISTANCE
+      && box.x >= label.x - LINE_TOLERANCE && box.x < right);
+    if (candidates.length === 0) return undefined;
+    const firstLineY = candidates[0].y;
+    const text = candidates
+      .filter(box => Math.abs(box.y - firstLineY) <= LINE_TOLERANCE)
+      .map(box => box.text)
+      .join(' ')
+      .trim();
+    return text || undefined;
+  };
+
+  return {
+    findLabel,
+    read: (pattern: RegExp, afterIndex = -1): string | undefined => valueBelow(findLabel(pattern, afterIndex)),
+  };
+};
+
+// Emitter name from the receipt stub ("RECEBEMOS DE <EMITENTE> OS PRODUTOS..."); the document comes from the key
+const extractEmitter = (lines: string[], accessKey: string): XmlPartyInfo | undefined => {
+  const text = lines.join(' ');
+  const name = text.match(/RECEBEMOS DE\s+(.+?)\s+OS PRODUTOS/i)?.[1];
+  const decodedKey = decodeAccessKey(accessKey);
+  if (!name && !decodedKey) return undefined;
+  return {
+    name,
+    document: decodedKey?.emitterDocument,
+    documentType: decodedKey?.emitterDocumentType,
+    address: decodedKey?.uf ? { uf: decodedKey.uf } : undefined,
+  };
+};
+
+const extractRecipient = (fields: ReturnType<typeof createFieldReader>): XmlPartyInfo | undefined => {
+  const section = fields.findLabel(/^DESTINATARIO/);
+  if (section < 0) return undefined;
+  const cityLabel = fields.findLabel(/^MUNICIPIO$/, section);
+  const recipient: XmlPartyInfo = {
+    name: fields.read(/^NOME\/RAZAO SOCIAL$/, section),
+    ...parseDocument(fields.read(/^CNPJ\/CPF$/, section)),
+    stateRegistration: fields.read(/^INSCRICAO ESTADUAL$/, section),
+    address: {
+      street: fields.read(/^ENDERECO$/, section),
+      district: fields.read(/^BAIRRO/, section),
+      cep: fields.read(/^CEP$/, section)?.replace(/\D/g, '') || undefined,
+      city: fields.read(/^MUNICIPIO$/, section),
+      uf: cityLabel >= 0 ? fields.read(/^UF$/, cityLabel) : undefined,
+    },
+  };
+  return recipient.name || recipient.document ? recipient : undefined;
+};
+
+const extractCarrier = (fields: ReturnType<typeof createFieldReader>): XmlCarrierInfo | undefined => {
+  const section = fields.findLabel(/^TRANSPORTADOR/);
+  if (section < 0) return undefined;
+  const carrierDocument = parseDocument(fields.read(/^CNPJ\/CPF$/, section));
+  // The first "UF" of the section belongs to the vehicle plate; the carrier's follows "MUNICIPIO"
+  const cityLabel = fields.findLabel(/^MUNICIPIO$/, section);
+  const carrier: XmlCarrierInfo = {
+    name: fields.read(/^(NOME\/)?RAZAO SOCIAL$/, section),
+    cnpj: carrierDocument.documentType === 'CNPJ' ? carrierDocument.document : undefined,
+    cpf: carrierDocument.documentType === 'CPF' ? carrierDocument.document : undefined,
+    stateRegistration: fields.read(/^INSCRICAO ESTADUAL$/, section),
+    address: fields.read(/^ENDERECO$/, section),
+    city: fields.read(/^MUNICIPIO$/, section),
+    uf: cityLabel >= 0 ? fields.read(/^UF$/, cityLabel) : undefined,
+  };
+  return carrier.name || carrier.cnpj || carrier.cpf ? carrier : undefined;
+};
+
+// The DANFE shows the volumes of the NF-e already summed up, as a single group
+const extractVolumes = (fields: ReturnType<typeof createFieldReader>): XmlVolumeSummary | undefined => {
+  const section = fields.findLabel(/^TRANSPORTADOR/);
+  if (section < 0) return undefined;
+  const group = {
+    quantity: parseBrazilianNumber(fields.read(/^QUANTIDADE$/, section)),
+    species: fields.read(/^ESPECIE$/, section),
+    brand: fields.read(/^MARCA$/, section),
+    numbering: fields.read(/^NUMERACAO$/, section),
+    grossWeight: parseBrazilianNumber(fields.read(/^PESO BRUTO$/, section)),
+    netWeight: parseBrazilianNumber(fields.read(/^PESO LIQUIDO$/, section)),
+  };
+  if (group.quantity === undefined && group.grossWeight === undefined && group.netWeight === undefined) return undefined;
+  return {
+    groups: [group],
+    // Fields not found on the DANFE stay unset rather than showing as zero
+    totals: {
+      quantity: group.quantity,
+      netWeight: group.netWeight,
+      grossWeight: group.grossWeight,
+    },
+  };
+};
+
+// The DANFE has no separate fatura block in most layouts; the NF totals stand in for it, since the
+// net value of the fatura (cobr > fat > vLiq) is the NF total in nearly all invoices
+const extractTotals = (fields: ReturnType<typeof createFieldReader>): XmlInvoiceInfo | undefined => {
+  const section = fields.findLabel(/^CALCULO DO IMPOSTO/);
+  const totals: XmlInvoiceInfo = {
+    originalValue: parseBrazilianNumber(fields.read(/^V(ALOR)?\.? TOTAL (DOS )?PRODUTOS$/, section)),
+    discountValue: parseBrazilianNumber(fields.read(/^DESCONTO$/, section)),
+    netValue: parseBrazilianNumber(fields.read(/^V(ALOR)?\.? TOTAL DA NOTA$/, section)),
+  };
+  return totals.originalValue !== undefined || totals.netValue !== undefined ? totals : undefined;
+};
+
+// Duplicatas printed as "001 10/08/2024 1.234,56" in the FATURA block
+const extractInstallments = (lines: string[]): XmlInstallmentInfo[] | undefined => {
+  const start = lines.findIndex(line => /^(FATURA|DUPLICATA)/.test(normalizeLabel(line)));
+  const end = lines.findIndex((line, index) => index > start && /^CALCULO DO IMPOSTO/.test(normalizeLabel(line)));
+  if (start < 0 || end < 0) return undefined;
+  const text = lines.slice(start + 1, end).join(' ');
+  const installments = Array.from(
+    text.matchAll(/(\d{1,3})\s+(\d{2}\/\d{2}\/\d{4})\s+(?:R\$\s*)?(\d{1,3}(?:\.\d{3})*,\d{2})/g),
+    (match): XmlInstallmentInfo => ({ number: match[1], dueDate: toIsoDate(match[2]), value: parseBrazilianNumber(match[3]) }),
+  );
+  return installments.length > 0 ? installments : undefined;
+};
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// Reads the DANFE (printed NF-e) PDF into the same shape as the NF-e XML. Only the key is required;
+// the other fields are best-effort, since each DANFE generator lays out the text layer a bit differently.
+// Scanned PDFs have no text layer: those keys must be read from the barcode instead.
+export const parseDanfePdf = async (file: File): Promise<ParsedXmlData> => {
+  const boxes = await extractTextBoxes(await readFileAsArrayBuffer(file));
+  if (boxes.length === 0) {
+    throw new LocalizedError('errors.danfePdf.noText');
+  }
+  const lines = toLines(boxes);
+  const accessKey = findAccessKey(lines);
+  const fields = createFieldReader(boxes.filter(box => box.page === 1));
+
+  return {
+    documentType: 'nfe',
+    accessKey,
+    nfNumber: decodeAccessKey(accessKey)?.number, // Same number as the "Nº" printed on the DANFE
+    carrier: extractCarrier(fields),
+    volumes: extractVolumes(fields),
+    invoiceInfo: extractTotals(fields),
+    installments: extractInstallments(lines),
+    emitter: extractEmitter(lines, accessKey),
+    recipient: extractRecipient(fields),
+  };
+};
@@ -0,0 +1,45 @@
+// utils/deepLink.ts
+import { normalizeAccessKey } from './accessKey';
+
+// Shareable links use the hash ("#/rastreio/<chave>"), so they work on any static host without server rewrites.
+// "?chave=<chave>" is also accepted, e.g. for links built by other systems.
+const HASH_ROUTE_PREFIX = '#/rastreio/';
+const QUERY_PARAM = 'chave';
+
+// A hand-edited or truncated link can carry a malformed escape (e.g. "%E0%A4%A"), which decodeURIComponent rejects
+const safeDecodeURIComponent = (text: string): string | null => {
+  try {
+    return decodeURIComponent(text);
+  } catch (error) {
+    console.warn("Link com codificação inválida ignorado:", error);
+    return null;
+  }
+};
+
+// Access key in the URL, normalized (separators removed) but not validated; null when the URL has none
+// or it cannot be decoded
+export const getAccessKeyFromUrl = (location: Pick<Location, 'hash' | 'search'> = window.location): string | null => {
+  if (location.hash.startsWith(HASH_ROUTE_PREFIX)) {
+    const decodedHash = safeDecodeURIComponent(location.hash.slice(HASH_ROUTE_PREFIX.length));
+    const key = decodedHash !== null ? normalizeAccessKey(decodedHash) : '';
+    if (key) return key;
+  }
+  const queryKey = new URLSearchParams(location.search).get(QUERY_PARAM);
+  return queryKey ? normalizeAccessKey(queryKey) || null : null;
+};
+
+// Current page URL pointing to the lookup of the given key (any "?chave=" is replaced by the hash route)
+export const buildTrackingUrl = (accessKey: string, location: Pick<Location, 'origin' | 'pathname' | 'search'> = window.location): string => {
+  const params = new URLSearchParams(location.search);
+  params.delete(QUERY_PARAM);
+  const search = params.toString();
+  return `${location.origin}${location.pathname}${search ? `?${search}` : ''}${HASH_ROUTE_PREFIX}${accessKey}`;
+};
+
+// URL of the page without a lookup, used when the user goes back to the empty form
+export const buildHomeUrl = (location: Pick<Location, 'origin' | 'pathname' | 'search'> = window.location): string => {
+  const params = new URLSearchParams(location.search);
+  params.delete(QUERY_PARAM);
+  const search = params.toString();
+  return `${location.origin}${location.pathname}${search ? `?${search}` : ''}`;
+};
@@ -0,0 +1,117 @@
+// utils/deliveryRisk.ts
+import type { TrackingEvent, TrackingInfo } from '../types';
+import { deriveShipmentStatus, findDeliveryEvent, isProblemStatus } from './shipmentStatus';
+import { getLocale, Locale, plural, translate } from '../i18n/i18n';
+
+export type DeliveryRiskState =
+  | 'on_time'
+  | 'at_risk'
+  | 'late'
+  | 'delivered_on_time'
+  | 'delivered_late'
+  | 'unknown'; // No estimated delivery date, or delivered without a usable delivery date
+
+// Why an undelivered shipment is considered at risk
+export type DeliveryRiskReason = 'problem' | 'stalled' | 'due_today' | 'due_soon';
+
+export interface DeliveryRiskAssessment {
+  state: DeliveryRiskState;
+  reason?: DeliveryRiskReason;
+  daysLate?: number; // Calendar days past the estimated delivery (late / delivered_late)
+  daysUntilDue?: number; // Calendar days left until the estimated delivery (0 = due today)
+  daysSinceLastEvent?: number;
+  estimatedDeliveryDate?: string; // ISO 8601
+  deliveredAt?: string; // ISO 8601, timestamp of the delivery event
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shipments due within this many days that are not yet out for delivery are at risk
+const AT_RISK_DAYS_BEFORE_DUE = 1;
+
+// Shipments without any new event for this many days are considered stalled
+export const STALLED_EVENT_DAYS = 3;
+
+// Calendar day number of a local date, so comparisons ignore the time of day
+const toLocalDayNumber = (date: Date): number =>
+  Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+// The estimated delivery is stored at UTC midnight, so its calendar day is read in UTC
+const toUtcDayNumber = (isoDate: string): number => Math.floor(new Date(isoDate).getTime() / DAY_MS);
+
+// Events without a valid date fall back to the epoch and must not be used for date math
+const hasValidTimestamp = (event: TrackingEvent): boolean => new Date(event.timestamp).getTime() > 0;
+
+export const assessDeliveryRisk = (trackingInfo: TrackingInfo, now: Date = new Date()): DeliveryRiskAssessment => {
+  const { estimatedDeliveryDate, events } = trackingInfo;
+  const status = trackingInfo.canonicalStatus || deriveShipmentStatus(events);
+  const deliveryEvent = findDeliveryEvent(events);
+  const deliveredAt = deliveryEvent && hasValidTimestamp(deliveryEvent) ? deliveryEvent.timestamp : undefined;
+
+  if (!estimatedDeliveryDate || isNaN(new Date(estimatedDeliveryDate).getTime())) {
+    return { state: 'unknown', deliveredAt };
+  }
+  const dueDay = toUtcDayNumber(estimatedDeliveryDate);
+
+  if (deliveryEvent || status === 'delivered') {
+    if (!deliveredAt) return { state: 'unknown', estimatedDeliveryDate };
+    const daysLate = toLocalDayNumber(new Date(deliveredAt)) - dueDay;
+    return daysLate > 0
+      ? { state: 'delivered_late', daysLate, estimatedDeliveryDate, deliveredAt }
+      : { state: 'delivered_on_time', estimatedDeliveryDate, deliveredAt };
+  }
+
+  const today = toLocalDayNumber(now);
+  if (today > dueDay) {
+    return { state: 'late', daysLate: today - dueDay, estimatedDeliveryDate };
+  }
+
+  const daysUntilDue = dueDay - today;
+  const lastEvent = events.find(hasValidTimestamp); // Events are newest first
+  const daysSinceLastEvent = lastEvent ? today - toLocalDayNumber(new Date(lastEvent.timestamp)) : undefined;
+  const base = { daysUntilDue, daysSinceLastEvent, estimatedDeliveryDate };
+
+  if (isProblemStatus(status)) {
+    return { ...base, state: 'at_risk', reason: 'problem' };
+  }
+  if (daysSinceLastEvent !== undefined && daysSinceLastEvent >= STALLED_EVENT_DAYS) {
+    return { ...base, state: 'at_risk', reason: 'stalled' };
+  }
+  if (daysUntilDue <= AT_RISK_DAYS_BEFORE_DUE && status !== 'out_for_delivery') {
+    return { ...base, state: 'at_risk', reason: daysUntilDue === 0 ? 'due_today' : 'due_soon' };
+  }
+  return { ...base, state: 'on_time' };
+};
+
+export const getDeliveryRiskLabel = (state: DeliveryRiskState, locale: Locale = getLocale()): string =>
+  translate(locale, `deliveryRisk.label.${state}`);
+
+// One-line explanation of the assessment, used by the UI and the LLM prompts
+export const describeDeliveryRisk = (assessment: DeliveryRiskAssessment, locale: Locale = getLocale()): string => {
+  const days = (count?: number) => ({ duration: plural('common.days', count ?? 0) });
+  switch (assessment.state) {
+    case 'late':
+      return translate(locale, 'deliveryRisk.late', days(assessment.daysLate));
+    case 'delivered_late':
+      return translate(locale, 'deliveryRisk.deliveredLate', days(assessment.daysLate));
+    case 'delivered_on_time':
+      return translate(locale, 'deliveryRisk.deliveredOnTime');
+    case 'at_risk':
+      switch (assessment.reason) {
+        case 'problem':
+          return translate(locale, 'deliveryRisk.problem');
+        case 'stalled':
+          return translate(locale, 'deliveryRisk.stalled', days(assessment.daysSinceLastEvent));
+        case 'due_today':
+          return translate(locale, 'deliveryRisk.dueToday');
+        default:
+          return translate(locale, 'deliveryRisk.dueTomorrow');
+      }
+    case 'on_time':
+      return assessment.daysUntilDue === 0
+        ? translate(locale, 'deliveryRisk.onTimeDueToday')
+        : translate(locale, 'deliveryRisk.onTime', days(assessment.daysUntilDue));
+    default:
+      return translate(locale, 'deliveryRisk.unknown');
+  }
+};
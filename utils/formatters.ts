@@ -0,0 +1,139 @@
+// utils/formatters.ts
+import type { TrackingEvent, TrackingInfo, XmlAddress, XmlPartyInfo } from '../types';
+import { getIntlLocale, getLocale, Locale, t, translate } from '../i18n/i18n';
+
+// 12345678000195 -> 12.345.678/0001-95
+export const formatCnpj = (cnpj?: string): string => {
+  if (!cnpj) return t('common.notAvailable');
+  const digits = cnpj.replace(/\D/g, '');
+  if (digits.length !== 14) return cnpj;
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+};
+
+// 12345678909 -> 123.456.789-09
+export const formatCpf = (cpf?: string): string => {
+  if (!cpf) return t('common.notAvailable');
+  const digits = cpf.replace(/\D/g, '');
+  if (digits.length !== 11) return cpf;
+  return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+};
+
+// Formats a CNPJ or CPF based on its number of digits
+export const formatDocument = (document?: string): string => {
+  if (!document) return t('common.notAvailable');
+  const digits = document.replace(/\D/g, '');
+  return digits.length === 11 ? formatCpf(digits) : formatCnpj(digits);
+};
+
+// Groups the 44-digit access key in blocks of 4, as printed on the DANFE
+export const formatAccessKey = (key: string): string => key.replace(/(\d{4})(?=\d)/g, '$1 ');
+
+// 01001000 -> 01001-000
+export const formatCep = (cep?: string): string => {
+  if (!cep) return t('common.notAvailable');
+  const digits = cep.replace(/\D/g, '');
+  if (digits.length !== 8) return cep;
+  return digits.replace(/^(\d{5})(\d{3})$/, '$1-$2');
+};
+
+// 1133334444 -> (11) 3333-4444, 11933334444 -> (11) 93333-4444
+export const formatPhone = (phone?: string): string => {
+  if (!phone) return t('common.notAvailable');
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) return digits.replace(/^(\d{2})(\d{4})(\d{4})$/, '($1) $2-$3');
+  if (digits.length === 11) return digits.replace(/^(\d{2})(\d{5})(\d{4})$/, '($1) $2-$3');
+  return phone;
+};
+
+// "Rua A, 100 - Sala 2 - Centro"
+export const formatStreetAddress = (address?: XmlAddress): string | undefined => {
+  if (!address) return undefined;
+  const streetLine = [address.street, address.number].filter(Boolean).join(', ');
+  const parts = [streetLine, address.complement, address.district].filter(Boolean);
+  return parts.length > 0 ? parts.join(' - ') : undefined;
+};
+
+// "São Paulo/SP"
+export const formatCityUf = (city?: string, uf?: string): string | undefined => {
+  if (!city && !uf) return undefined;
+  return [city, uf].filter(Boolean).join('/');
+};
+
+// One-line description of a party, used for origin/destination: "Empresa LTDA - São Paulo/SP"
+export const formatPartySummary = (party?: XmlPartyInfo): string | undefined => {
+  if (!party) return undefined;
+  const name = party.name || party.fantasyName || (party.document ? formatDocument(party.document) : undefined);
+  if (!name) return undefined;
+  const location = formatCityUf(party.address?.city, party.address?.uf);
+  return location ? `${name} - ${location}` : name;
+};
+
+// Values are always in reais; only the number format follows the locale
+export const formatCurrency = (value?: number, locale: Locale = getLocale()): string => {
+  if (value === undefined || value === null) return translate(locale, 'common.notAvailable');
+  return value.toLocaleString(getIntlLocale(locale), { style: 'currency', currency: 'BRL' });
+};
+
+// Product and cargo quantities, with up to 4 decimals as in the NF-e
+export const formatQuantity = (value: number, locale: Locale = getLocale()): string =>
+  value.toLocaleString(getIntlLocale(locale), { maximumFractionDigits: 4 });
+
+// YYYY-MM-DD -> DD/MM/YYYY (pt-BR), MM/DD/YYYY (en)...
+export const formatIsoDate = (dateString?: string, locale: Locale = getLocale()): string => {
+  if (!dateString) return translate(locale, 'common.notAvailable');
+  const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return dateString; // Return original if not YYYY-MM-DD
+  // Formatted in UTC so the calendar date does not shift with the browser time zone
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toLocaleDateString(getIntlLocale(locale), { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' });
+};
+
+// The provider keeps the estimated delivery as an ISO date at UTC midnight; without it there is no estimate
+export const formatEstimatedDelivery = (trackingInfo: TrackingInfo, locale: Locale = getLocale()): string => {
+  if (!trackingInfo.estimatedDeliveryDate) return translate(locale, 'common.unavailable');
+  return new Date(trackingInfo.estimatedDeliveryDate).toLocaleDateString(getIntlLocale(locale), {
+    day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC',
+  });
+};
+
+// Providers leave the place unset when the carrier did not send it
+export const formatEventLocation = (event: TrackingEvent, locale: Locale = getLocale()): string =>
+  event.location?.trim() || translate(locale, 'common.unknownLocation');
+
+export const formatEventStatus = (event: TrackingEvent, locale: Locale = getLocale()): string =>
+  event.status?.trim() || translate(locale, 'common.unknownStatus');
+
+export const formatCurrentStatus = (trackingInfo: TrackingInfo, locale: Locale = getLocale()): string =>
+  trackingInfo.currentStatus?.trim() ||
+  translate(locale, trackingInfo.events.length > 0 ? 'common.unknownStatus' : 'common.noTrackingEvents');
+
+export const formatWeight = (weight?: number): string | undefined => (weight ? `${weight.toFixed(3)} kg` : undefined);
+
+// Elapsed time with the two largest units: "2 d 4 h", "5 h 12 min", "15 min"
+export const formatDuration = (durationMs: number, locale: Locale = getLocale()): string => {
+  const totalMinutes = Math.round(durationMs / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return translate(locale, 'formatters.duration.daysHours', { days, hours });
+  if (hours > 0) return translate(locale, 'formatters.duration.hoursMinutes', { hours, minutes });
+  return translate(locale, 'formatters.duration.minutes', { minutes });
+};
+
+// Event timestamps without a valid date fall back to the epoch and are shown as unavailable
+export const formatEventTimestamp = (timestamp: string, locale: Locale = getLocale()): string => {
+  try {
+    const time = new Date(timestamp).getTime();
+    if (isNaN(time)) return translate(locale, 'formatters.invalidDate');
+    if (time === 0) {
+      return translate(locale, timestamp !== new Date(0).toISOString() ? 'formatters.eventDateUnavailable' : 'formatters.eventDateNotProvided');
+    }
+    return new Date(timestamp).toLocaleString(getIntlLocale(locale), {
+      day: '2-digit', month: '2-digit', year: 'numeric',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+  } catch (e) {
+    console.warn("Falha ao formatar o timestamp do evento:", timestamp, e);
+    return translate(locale, 'formatters.invalidDate');
+  }
+};
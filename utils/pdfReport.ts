@@ -0,0 +1,427 @@
+// utils/pdfReport.ts
+import jsPDF from 'jspdf';
+import type { ShipmentAnalysisResult, TrackingInfo, TrackingSummary, XmlPartyInfo } from '../types';
+import { getAnalysisRiskLevelLabel, getShipmentProblemKindLabel } from '../services/analysis/analysisSchema';
+import { getShipmentStatusLabel, deriveShipmentStatus, getEventShipmentStatus } from './shipmentStatus';
+import { assessDeliveryRisk, describeDeliveryRisk, getDeliveryRiskLabel } from './deliveryRisk';
+import {
+  formatAccessKey,
+  formatCityUf,
+  formatCurrency,
+  formatDocument,
+  formatEstimatedDelivery,
+  formatCurrentStatus,
+  formatEventLocation,
+  formatEventStatus,
+  formatEventTimestamp,
+  formatIsoDate,
+  formatQuantity,
+  formatWeight,
+} from './formatters';
+import { getIntlLocale, MessageKey, plural, t } from '../i18n/i18n';
+
+// A4 portrait, in mm
+const PAGE_MARGIN_X = 15;
+const CONTENT_TOP = 25; // Below the page header
+const CONTENT_BOTTOM_MARGIN = 20; // Above the page footer
+const CELL_PADDING = 1.5;
+
+// Printer-friendly palette (RGB)
+const COLOR_TEXT: [number, number, number] = [30, 41, 59]; // slate-800
+const COLOR_MUTED: [number, number, number] = [100, 116, 139]; // slate-500
+const COLOR_ACCENT: [number, number, number] = [3, 105, 161]; // sky-700
+const COLOR_RULE: [number, number, number] = [203, 213, 225]; // slate-300
+const COLOR_HEADER_FILL: [number, number, number] = [224, 242, 254]; // sky-100
+const COLOR_STRIPE_FILL: [number, number, number] = [248, 250, 252]; // slate-50
+
+interface ReportColumn {
+  header: MessageKey;
+  width: number; // Fraction of the content width
+  align?: 'left' | 'right';
+}
+
+// Current page and vertical position while the report is laid out
+interface ReportCursor {
+  doc: jsPDF;
+  y: number;
+}
+
+// The standard PDF fonts only cover Latin-1: map typographic characters and drop the rest (e.g. emoji)
+const toPdfText = (text: string): string =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x00-\xFF]/g, '');
+
+const getPageWidth = (doc: jsPDF): number => doc.internal.pageSize.getWidth();
+const getPageHeight = (doc: jsPDF): number => doc.internal.pageSize.getHeight();
+const getContentWidth = (doc: jsPDF): number => getPageWidth(doc) - PAGE_MARGIN_X * 2;
+
+// Height in mm of one line of text at the current font size
+const getLineHeight = (doc: jsPDF): number => (doc.getFontSize() * doc.getLineHeightFactor()) / doc.internal.scaleFactor;
+
+const setTextStyle = (doc: jsPDF, size: number, style: 'normal' | 'bold' = 'normal', color = COLOR_TEXT): void => {
+  doc.setFont('helvetica', style);
+  doc.setFontSize(size);
+  doc.setTextColor(...color);
+};
+
+const splitLines = (doc: jsPDF, text: string, width: number): string[] => doc.splitTextToSize(toPdfText(text), width);
+
+// Starts a new page when the next block does not fit. Returns true if a page was added.
+const ensureSpace = (cursor: ReportCursor, height: number): boolean => {
+  if (cursor.y + height <= getPageHeight(cursor.doc) - CONTENT_BOTTOM_MARGIN) return false;
+  cursor.doc.addPage();
+  cursor.y = CONTENT_TOP;
+  return true;
+};
+
+const drawSectionTitle = (cursor: ReportCursor, title: string): void => {
+  const { doc } = cursor;
+  setTextStyle(doc, 12, 'bold', COLOR_ACCENT);
+  // Keep the title together with at least a couple of lines of its content
+  ensureSpace(cursor, getLineHeight(doc) + 15);
+  cursor.y += 4;
+  doc.text(toPdfText(title), PAGE_MARGIN_X, cursor.y);
+  cursor.y += 1.5;
+  doc.setDrawColor(...COLOR_ACCENT);
+  doc.setLineWidth(0.3);
+  doc.line(PAGE_MARGIN_X, cursor.y, PAGE_MARGIN_X + getContentWidth(doc), cursor.y);
+  cursor.y += 5;
+};
+
+const drawParagraph = (cursor: ReportCursor, text: string): void => {
+  const { doc } = cursor;
+  setTextStyle(doc, 10);
+  const lineHeight = getLineHeight(doc);
+  for (const line of splitLines(doc, text, getContentWidth(doc))) {
+    ensureSpace(cursor, lineHeight);
+    doc.text(line, PAGE_MARGIN_X, cursor.y);
+    cursor.y += lineHeight;
+  }
+  cursor.y += 2;
+};
+
+// "Label: value" rows; the value wraps within its column
+const drawKeyValues = (cursor: ReportCursor, pairs: [string, string | undefined][]): void => {
+  const { doc } = cursor;
+  const labelWidth = 45;
+  const valueWidth = getContentWidth(doc) - labelWidth;
+  setTextStyle(doc, 10);
+  const lineHeight = getLineHeight(doc);
+
+  for (const [label, value] of pairs) {
+    if (!value) continue;
+    const valueLines = splitLines(doc, value, valueWidth);
+    ensureSpace(cursor, valueLines.length * lineHeight);
+    setTextStyle(doc, 10, 'bold', COLOR_MUTED);
+    doc.text(toPdfText(label), PAGE_MARGIN_X, cursor.y);
+    setTextStyle(doc, 10);
+    doc.text(valueLines, PAGE_MARGIN_X + labelWidth, cursor.y);
+    cursor.y += valueLines.length * lineHeight + 1;
+  }
+  cursor.y += 2;
+};
+
+const drawTableRow = (
+  cursor: ReportCursor,
+  columns: ReportColumn[],
+  cells: string[],
+  options: { isHeader?: boolean; isTotal?: boolean; fill?: [number, number, number] },
+): void => {
+  const { doc } = cursor;
+  const contentWidth = getContentWidth(doc);
+  setTextStyle(doc, 8, options.isHeader || options.isTotal ? 'bold' : 'normal', options.isHeader ? COLOR_ACCENT : COLOR_TEXT);
+  const lineHeight = getLineHeight(doc);
+  const cellLines = columns.map((column, index) => splitLines(doc, cells[index] ?? '', column.width * contentWidth - CELL_PADDING * 2));
+  const rowHeight = Math.max(...cellLines.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+
+  if (options.fill) {
+    doc.setFillColor(...options.fill);
+    doc.rect(PAGE_MARGIN_X, cursor.y, contentWidth, rowHeight, 'F');
+  }
+
+  let x = PAGE_MARGIN_X;
+  columns.forEach((column, index) => {
+    const cellWidth = column.width * contentWidth;
+    // Text is positioned by its baseline, so offset by roughly one font height
+    const textY = cursor.y + CELL_PADDING + lineHeight * 0.75;
+    if (column.align === 'right') {
+      doc.text(cellLines[index], x + cellWidth - CELL_PADDING, textY, { align: 'right' });
+    } else {
+      doc.text(cellLines[index], x + CELL_PADDING, textY);
+    }
+    x += cellWidth;
+  });
+
+  cursor.y += rowHeight;
+  doc.setDrawColor(...COLOR_RULE);
+  doc.setLineWidth(0.2);
+  doc.line(PAGE_MARGIN_X, cursor.y, PAGE_MARGIN_X + contentWidth, cursor.y);
+};
+
+// Estimated height of a row, used to decide on page breaks before drawing it
+const measureTableRow = (doc: jsPDF, columns: ReportColumn[], cells: string[]): number => {
+  setTextStyle(doc, 8);
+  const contentWidth = getContentWidth(doc);
+  const maxLines = Math.max(...columns.map((column, index) => splitLines(doc, cells[index] ?? '', column.width * contentWidth - CELL_PADDING * 2).length));
+  return maxLines * getLineHeight(doc) + CELL_PADDING * 2;
+};
+
+// Table with a header row that is repeated on every page it spans, and an optional totals row
+const drawTable = (cursor: ReportCursor, columns: ReportColumn[], rows: string[][], totalRow?: string[]): void => {
+  const headers = columns.map(column => t(column.header));
+  const drawHeader = () => drawTableRow(cursor, columns, headers, { isHeader: true, fill: COLOR_HEADER_FILL });
+
+  ensureSpace(cursor, measureTableRow(cursor.doc, columns, headers) + measureTableRow(cursor.doc, columns, rows[0] ?? []));
+  drawHeader();
+  rows.forEach((row, index) => {
+    if (ensureSpace(cursor, measureTableRow(cursor.doc, columns, row))) drawHeader();
+    drawTableRow(cursor, columns, row, { fill: index % 2 === 1 ? COLOR_STRIPE_FILL : undefined });
+  });
+  if (totalRow) {
+    if (ensureSpace(cursor, measureTableRow(cursor.doc, columns, totalRow))) drawHeader();
+    drawTableRow(cursor, columns, totalRow, { isTotal: true });
+  }
+  cursor.y += 4;
+};
+
+// Drawn last, once the total number of pages is known
+const drawPageDecorations = (doc: jsPDF, trackingInfo: TrackingInfo, generatedAt: Date): void => {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = getPageWidth(doc);
+  const pageHeight = getPageHeight(doc);
+  const generatedAtText = generatedAt.toLocaleString(getIntlLocale(), { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...COLOR_RULE);
+    doc.setLineWidth(0.3);
+
+    setTextStyle(doc, 11, 'bold', COLOR_ACCENT);
+    doc.text('IRR Rastreios', PAGE_MARGIN_X, 12);
+    setTextStyle(doc, 9, 'normal', COLOR_MUTED);
+    doc.text(toPdfText(t('pdf.header')), PAGE_MARGIN_X + 30, 12);
+    doc.text(toPdfText(t('pdf.generatedAt', { date: generatedAtText })), pageWidth - PAGE_MARGIN_X, 12, { align: 'right' });
+    doc.line(PAGE_MARGIN_X, 15, pageWidth - PAGE_MARGIN_X, 15);
+
+    doc.line(PAGE_MARGIN_X, pageHeight - 13, pageWidth - PAGE_MARGIN_X, pageHeight - 13);
+    setTextStyle(doc, 8, 'normal', COLOR_MUTED);
+    doc.text(toPdfText(t('pdf.footerAccessKey', { key: formatAccessKey(trackingInfo.id) })), PAGE_MARGIN_X, pageHeight - 8);
+    doc.text(toPdfText(t('pdf.page', { page, total: pageCount })), pageWidth - PAGE_MARGIN_X, pageHeight - 8, { align: 'right' });
+  }
+};
+
+const formatPartyLine = (party?: XmlPartyInfo): string | undefined => {
+  if (!party) return undefined;
+  const parts = [
+    party.name || party.fantasyName,
+    party.document ? `${party.documentType || t('pdf.documentFallback')} ${formatDocument(party.document)}` : undefined,
+    formatCityUf(party.address?.city, party.address?.uf),
+  ];
+  const line = parts.filter(Boolean).join(' - ');
+  return line || undefined;
+};
+
+// Text-based A4 report of the shipment: selectable text, tables and page numbers, on a light layout
+export const buildTrackingReportPdf = (
+  trackingInfo: TrackingInfo,
+  summary: TrackingSummary | null,
+  analysis: ShipmentAnalysisResult | null = null,
+  generatedAt: Date = new Date(),
+): jsPDF => {
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  const cursor: ReportCursor = { doc, y: CONTENT_TOP };
+  const providerName = trackingInfo.providerName || 'SSW';
+  const canonicalStatus = trackingInfo.canonicalStatus || deriveShipmentStatus(trackingInfo.events);
+  const deliveryRisk = assessDeliveryRisk(trackingInfo, generatedAt);
+
+  setTextStyle(doc, 16, 'bold');
+  doc.text(toPdfText(t('pdf.title')), PAGE_MARGIN_X, cursor.y + 2);
+  cursor.y += 8;
+  setTextStyle(doc, 10, 'normal', COLOR_MUTED);
+  doc.text(formatAccessKey(trackingInfo.id), PAGE_MARGIN_X, cursor.y);
+  cursor.y += 4;
+
+  drawSectionTitle(cursor, t('pdf.shipmentSection'));
+  drawKeyValues(cursor, [
+    [t('fields.carrier'), trackingInfo.carrier],
+    [t('pdf.providerStatus', { provider: providerName }), formatCurrentStatus(trackingInfo)],
+    [t('fields.classification'), getShipmentStatusLabel(canonicalStatus)],
+    [t('fields.estimatedDelivery'), formatEstimatedDelivery(trackingInfo)],
+    [t('fields.deadlineStatus'), deliveryRisk.state !== 'unknown'
+      ? `${getDeliveryRiskLabel(deliveryRisk.state)} - ${describeDeliveryRisk(deliveryRisk)}`
+      : undefined],
+    [t('fields.origin'), trackingInfo.origin || t('common.notInformed')],
+    [t('fields.destination'), trackingInfo.destination || t('common.notInformed')],
+    [t('fields.nf'), trackingInfo.nfNumber],
+    [t('pdf.providerWeight', { provider: providerName }), trackingInfo.weight],
+  ]);
+
+  if (summary) {
+    drawSectionTitle(cursor, summary.generatedByAi ? t('pdf.summaryAi', { name: summary.summarizerName }) : t('pdf.summary'));
+    drawParagraph(cursor, summary.text);
+  }
+
+  if (analysis) {
+    const { riskLevel, nextStep, problems, customerMessage } = analysis.analysis;
+    drawSectionTitle(cursor, analysis.generatedByAi ? t('pdf.analysisAi', { name: analysis.analyzerName }) : t('pdf.analysis'));
+    drawKeyValues(cursor, [
+      [t('pdf.riskLevel'), getAnalysisRiskLevelLabel(riskLevel)],
+      [t('pdf.nextStep'), nextStep],
+      [t('pdf.problems'), problems.length > 0
+        ? problems.map(problem => `${getShipmentProblemKindLabel(problem.kind)}: ${problem.description}`).join(' | ')
+        : t('pdf.noProblems')],
+      [t('pdf.customerMessage'), customerMessage],
+    ]);
+  }
+
+  if (trackingInfo.xmlEmitter || trackingInfo.xmlRecipient) {
+    drawSectionTitle(cursor, t('pdf.partiesSection'));
+    drawKeyValues(cursor, [
+      [t('fields.emitter'), formatPartyLine(trackingInfo.xmlEmitter)],
+      [t('fields.recipient'), formatPartyLine(trackingInfo.xmlRecipient)],
+    ]);
+  }
+
+  const items = trackingInfo.xmlItems;
+  if (items && items.length > 0) {
+    const totalValue = items.reduce((sum, item) => sum + (item.totalValue || 0), 0);
+    drawSectionTitle(cursor, t('pdf.itemsSection'));
+    drawTable(
+      cursor,
+      [
+        { header: 'fields.code', width: 0.12 },
+        { header: 'fields.description', width: 0.36 },
+        { header: 'fields.ncm', width: 0.1 },
+        { header: 'fields.quantityShort', width: 0.1, align: 'right' },
+        { header: 'fields.unitShort', width: 0.06 },
+        { header: 'fields.unitPrice', width: 0.13, align: 'right' },
+        { header: 'fields.totalValue', width: 0.13, align: 'right' },
+      ],
+      items.map(item => [
+        item.code || '-',
+        item.description || '-',
+        item.ncm || '-',
+        item.quantity !== undefined ? formatQuantity(item.quantity) : '-',
+        item.unit || '-',
+        formatCurrency(item.unitPrice),
+        formatCurrency(item.totalValue),
+      ]),
+      [t('pdf.itemsTotal', { items: plural('common.items', items.length) }), '', '', '', '', '', formatCurrency(totalValue)],
+    );
+  }
+
+  const volumes = trackingInfo.xmlVolumes;
+  if (volumes) {
+    drawSectionTitle(cursor, t('pdf.volumesSection'));
+    drawTable(
+      cursor,
+      [
+        { header: 'fields.quantityShort', width: 0.1, align: 'right' },
+        { header: 'fields.species', width: 0.2 },
+        { header: 'fields.brand', width: 0.17 },
+        { header: 'fields.numbering', width: 0.17 },
+        { header: 'fields.netWeight', width: 0.18, align: 'right' },
+        { header: 'fields.grossWeight', width: 0.18, align: 'right' },
+      ],
+      volumes.groups.map(group => [
+        group.quantity !== undefined ? group.quantity.toString() : '-',
+        group.species || '-',
+        group.brand || '-',
+        group.numbering || '-',
+        formatWeight(group.netWeight) || '-',
+        formatWeight(group.grossWeight) || '-',
+      ]),
+      [
+        volumes.totals.quantity !== undefined ? volumes.totals.quantity.toString() : '-',
+        t('fields.total'),
+        '',
+        '',
+        formatWeight(volumes.totals.netWeight) || '-',
+        formatWeight(volumes.totals.grossWeight) || '-',
+      ],
+    );
+  }
+
+  const invoice = trackingInfo.xmlInvoiceInfo;
+  if (invoice) {
+    drawSectionTitle(cursor, t('pdf.invoiceSection'));
+    drawTable(
+      cursor,
+      [
+        { header: 'pdf.invoiceNumber', width: 0.25 },
+        { header: 'fields.originalValue', width: 0.25, align: 'right' },
+        { header: 'fields.discount', width: 0.25, align: 'right' },
+        { header: 'fields.netValue', width: 0.25, align: 'right' },
+      ],
+      [[
+        invoice.number || '-',
+        formatCurrency(invoice.originalValue),
+        invoice.discountValue !== undefined ? formatCurrency(invoice.discountValue) : '-',
+        formatCurrency(invoice.netValue),
+      ]],
+    );
+  }
+
+  const installments = trackingInfo.xmlInstallments;
+  if (installments && installments.length > 0) {
+    const totalValue = installments.reduce((sum, dup) => sum + (dup.value || 0), 0);
+    drawSectionTitle(cursor, t('pdf.installmentsSection'));
+    drawTable(
+      cursor,
+      [
+        { header: 'pdf.installment', width: 0.3 },
+        { header: 'fields.dueDate', width: 0.35 },
+        { header: 'fields.value', width: 0.35, align: 'right' },
+      ],
+      installments.map(dup => [dup.number || '-', formatIsoDate(dup.dueDate), formatCurrency(dup.value)]),
+      [t('fields.total'), '', formatCurrency(totalValue)],
+    );
+  }
+
+  const cte = trackingInfo.xmlCteInfo;
+  if (cte) {
+    drawSectionTitle(cursor, t('pdf.cteSection'));
+    drawKeyValues(cursor, [
+      [t('pdf.cteNumberSeries'), cte.number ? `${cte.number}${cte.series ? ` / ${cte.series}` : ''}` : undefined],
+      [t('pdf.cteKey'), formatAccessKey(cte.accessKey)],
+      [t('pdf.cteRoute'), [formatCityUf(cte.originCity, cte.originUf), formatCityUf(cte.destinationCity, cte.destinationUf)].filter(Boolean).join(' -> ') || undefined],
+      [t('pdf.freightValue'), cte.freight?.totalValue !== undefined ? formatCurrency(cte.freight.totalValue) : undefined],
+      [t('pdf.cargoValue'), cte.cargo?.value !== undefined ? formatCurrency(cte.cargo.value) : undefined],
+    ]);
+  }
+
+  drawSectionTitle(cursor, t('pdf.historySection', { provider: providerName }));
+  if (trackingInfo.events.length > 0) {
+    drawTable(
+      cursor,
+      [
+        { header: 'fields.dateTime', width: 0.17 },
+        { header: 'fields.occurrence', width: 0.28 },
+        { header: 'fields.classification', width: 0.15 },
+        { header: 'fields.location', width: 0.2 },
+        { header: 'fields.details', width: 0.2 },
+      ],
+      trackingInfo.events.map(event => [
+        formatEventTimestamp(event.timestamp),
+        formatEventStatus(event),
+        getShipmentStatusLabel(getEventShipmentStatus(event)),
+        formatEventLocation(event),
+        event.details || '',
+      ]),
+    );
+  } else {
+    drawParagraph(cursor, t('trackingDisplay.noEvents', { provider: providerName }));
+  }
+
+  drawPageDecorations(doc, trackingInfo, generatedAt);
+  return doc;
+};
+
+// "rastreio-nf<number>.pdf", falling back to the access key when the NF number is unknown
+export const getReportFileName = (trackingInfo: TrackingInfo): string => {
+  return `rastreio-nf${trackingInfo.nfNumber || trackingInfo.id}.pdf`;
+};
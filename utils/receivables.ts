@@ -0,0 +1,176 @@
+// utils/receivables.ts
+import type { DeliveryBeforeDueState, ReceivableInstallment, TrackingInfo } from '../types';
+import { decodeAccessKey } from './accessKey';
+import { findDeliveryEvent } from './shipmentStatus';
+import { formatCurrency, formatDocument } from './formatters';
+import { downloadBlob } from './spreadsheetExport';
+import { t } from '../i18n/i18n';
+
+export type ReceivablesGrouping = 'week' | 'month' | 'supplier';
+
+// Sum of the installments of one week, month or supplier
+export interface ReceivablesTotal {
+  key: string; // Monday of the week (YYYY-MM-DD), month (YYYY-MM) or supplier name
+  count: number;
+  value: number;
+  overdueValue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD of a local date
+export const toLocalIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Due dates are calendar days, so the date math below runs in UTC to stay clear of time zones and DST
+const toDayNumber = (isoDate: string): number => Math.floor(Date.parse(`${isoDate}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (dayNumber: number): string => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+// Monday of the week of the date (weeks run Monday to Sunday)
+export const getWeekStart = (isoDate: string): string => {
+  const dayNumber = toDayNumber(isoDate);
+  const weekday = (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7; // 0 = Monday
+  return fromDayNumber(dayNumber - weekday);
+};
+
+export const addDays = (isoDate: string, days: number): string => fromDayNumber(toDayNumber(isoDate) + days);
+
+export const isOverdue = (installment: ReceivableInstallment, today: string): boolean => installment.dueDate < today;
+
+const getSupplier = (info: TrackingInfo): string => {
+  const emitter = info.xmlEmitter;
+  const document = emitter?.document || decodeAccessKey(info.id)?.emitterDocument;
+  return emitter?.name || emitter?.fantasyName || (document ? formatDocument(document) : info.id);
+};
+
+// Events without a valid date fall back to the epoch: the delivery happened, but its day is unknown
+const getDeliveryDay = (info: TrackingInfo): string | null | undefined => {
+  const deliveryEvent = findDeliveryEvent(info.events);
+  if (!deliveryEvent) return info.canonicalStatus === 'delivered' ? null : undefined;
+  const deliveredAt = new Date(deliveryEvent.timestamp);
+  return deliveredAt.getTime() > 0 ? toLocalIsoDate(deliveredAt) : null;
+};
+
+export const getDeliveryBeforeDueState = (info: TrackingInfo, firstDueDate: string, today: string): DeliveryBeforeDueState | undefined => {
+  const deliveryDay = getDeliveryDay(info);
+  if (deliveryDay === null) return undefined;
+  if (deliveryDay === undefined) return firstDueDate < today ? 'pending_past_due' : 'pending';
+  return deliveryDay <= firstDueDate ? 'delivered_before_due' : 'delivered_after_due';
+};
+
+// Installments of all the given shipments, by due date. A note that shows up more than once (looked up and
+// watched) is only counted once; installments without a due date cannot be placed on the calendar.
+export const collectReceivables = (shipments: TrackingInfo[], today: string = toLocalIsoDate(new Date())): ReceivableInstallment[] => {
+  const seenKeys = new Set<string>();
+  const receivables: ReceivableInstallment[] = [];
+  for (const info of shipments) {
+    if (seenKeys.has(info.id)) continue;
+    seenKeys.add(info.id);
+    const dueInstallments = (info.xmlInstallments || []).filter(
+      (installment): installment is typeof installment & { dueDate: string } => !!installment.dueDate && /^\d{4}-\d{2}-\d{2}$/.test(installment.dueDate),
+    );
+    if (dueInstallments.length === 0) continue;
+    const firstDueDate = dueInstallments.reduce((first, installment) => (installment.dueDate < first ? installment.dueDate : first), dueInstallments[0].dueDate);
+    const deliveryState = getDeliveryBeforeDueState(info, firstDueDate, today);
+    const supplier = getSupplier(info);
+    const nfNumber = decodeAccessKey(info.id)?.number;
+    for (const installment of dueInstallments) {
+      receivables.push({
+        accessKey: info.id,
+        nfNumber,
+        supplier,
+        installmentNumber: installment.number,
+        dueDate: installment.dueDate,
+        value: installment.value || 0,
+        deliveryState,
+      });
+    }
+  }
+  return receivables.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.supplier.localeCompare(b.supplier));
+};
+
+const getGroupKey = (installment: ReceivableInstallment, grouping: ReceivablesGrouping): string => {
+  if (grouping === 'week') return getWeekStart(installment.dueDate);
+  if (grouping === 'month') return installment.dueDate.slice(0, 7);
+  return installment.supplier;
+};
+
+// Weeks and months in date order; suppliers by the value they are owed, largest first
+export const totalReceivables = (
+  installments: ReceivableInstallment[],
+  grouping: ReceivablesGrouping,
+  today: string = toLocalIsoDate(new Date()),
+): ReceivablesTotal[] => {
+  const totals = new Map<string, ReceivablesTotal>();
+  for (const installment of installments) {
+    const key = getGroupKey(installment, grouping);
+    const total = totals.get(key) || { key, count: 0, value: 0, overdueValue: 0 };
+    total.count++;
+    total.value += installment.value;
+    if (isOverdue(installment, today)) total.overdueValue += installment.value;
+    totals.set(key, total);
+  }
+  const sorted = Array.from(totals.values());
+  return grouping === 'supplier'
+    ? sorted.sort((a, b) => b.value - a.value || a.key.localeCompare(b.key))
+    : sorted.sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// RFC 5545 text values escape backslashes, separators and line breaks
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded, continuing on the next line after a space
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with the folding space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// iCalendar file with one all-day event per due date, so calendar apps can remind finance of each payment.
+// The UID is stable per installment: importing the file again updates the events instead of duplicating them.
+export const buildReceivablesIcs = (installments: ReceivableInstallment[], now: Date = new Date()): string => {
+  const stamp = toIcsTimestamp(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Rastreio DANFE//Duplicatas//PT', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  installments.forEach((installment, index) => {
+    const summary = t('receivables.ics.summary', {
+      number: installment.installmentNumber || String(index + 1),
+      nf: installment.nfNumber || installment.accessKey,
+      supplier: installment.supplier,
+      value: formatCurrency(installment.value),
+    });
+    const description = t('receivables.ics.description', { key: installment.accessKey });
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${installment.accessKey}-${installment.installmentNumber || 'dup'}-${installment.dueDate}@rastreio-danfe`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(installment.dueDate)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(installment.dueDate, 1))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+export const exportReceivablesToIcs = (installments: ReceivableInstallment[], fileBaseName: string): void => {
+  downloadBlob(new Blob([buildReceivablesIcs(installments)], { type: 'text/calendar;charset=utf-8' }), `${fileBaseName}.ics`);
+};
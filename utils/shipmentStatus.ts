@@ -0,0 +1,77 @@
+// utils/shipmentStatus.ts
+import type { ShipmentStatus, TrackingEvent } from '../types';
+import { getLocale, Locale, translate } from '../i18n/i18n';
+
+// SSW occurrence codes (codigo_ssw) with an unambiguous meaning. Codes not listed here
+// are classified by the occurrence text below.
+const SSW_CODE_STATUS: Record<string, ShipmentStatus> = {
+  '01': 'delivered', // MERCADORIA ENTREGUE
+  '80': 'emitted', // DOCUMENTO DE TRANSPORTE EMITIDO
+  '82': 'in_transit', // SAIDA DE UNIDADE
+  '83': 'in_transit', // CHEGADA EM UNIDADE
+  '85': 'out_for_delivery', // SAIDA PARA ENTREGA
+};
+
+// Checked in order: the first matching pattern wins, so the more specific ones come first
+// (e.g. "NAO ENTREGUE" must be tested before "ENTREGUE").
+const OCCURRENCE_TEXT_PATTERNS: { status: ShipmentStatus; pattern: RegExp }[] = [
+  { status: 'delivery_failed', pattern: /N[AÃ]O\s+ENTREGUE|TENTATIVA|RECUSAD|AUSENTE|ENDERE[CÇ]O\s+(N[AÃ]O\s+LOCALIZADO|INSUFICIENTE|INCORRETO)|DESTINAT[AÁ]RIO\s+DESCONHECIDO|ESTABELECIMENTO\s+FECHADO/i },
+  { status: 'returned', pattern: /DEVOLU[CÇ][AÃ]O|DEVOLVID|RETORNO\s+AO\s+REMETENTE/i },
+  { status: 'delivered', pattern: /\bENTREGUE\b|ENTREGA\s+REALIZADA|ENTREGA\s+EFETUADA/i },
+  { status: 'exception', pattern: /AVARIA|EXTRAVI|SINISTRO|ROUBO|RETID|BLOQUEI|BLOQUEAD|FISCALIZA|PEND[EÊ]NCIA/i },
+  { status: 'out_for_delivery', pattern: /SA[IÍ]DA\s+PARA\s+ENTREGA|SAIU\s+PARA\s+ENTREGA|EM\s+ROTA\s+DE\s+ENTREGA/i },
+  { status: 'at_destination_hub', pattern: /UNIDADE\s+DE\s+ENTREGA|UNIDADE\s+DE\s+DESTINO|CHEGADA\s+.*DESTINO/i },
+  { status: 'collected', pattern: /COLETA|COLETAD/i },
+  { status: 'in_transit', pattern: /SA[IÍ]DA\s+DE\s+UNIDADE|CHEGADA\s+(EM|NA)\s+UNIDADE|TRANSFER[EÊ]NCIA|TR[AÂ]NSITO|VIAGEM/i },
+  { status: 'emitted', pattern: /DOCUMENTO\s+DE\s+TRANSPORTE\s+EMITIDO|EMITID/i },
+];
+
+export const classifyOccurrence = (code: string | undefined, occurrenceText: string | undefined): ShipmentStatus => {
+  const normalizedCode = code?.trim().padStart(2, '0');
+  if (normalizedCode && SSW_CODE_STATUS[normalizedCode]) {
+    return SSW_CODE_STATUS[normalizedCode];
+  }
+  if (occurrenceText) {
+    const match = OCCURRENCE_TEXT_PATTERNS.find(({ pattern }) => pattern.test(occurrenceText));
+    if (match) return match.status;
+  }
+  return 'unknown';
+};
+
+// Events stored before the taxonomy existed (e.g. in the watchlist) have no canonicalStatus yet
+export const getEventShipmentStatus = (event: TrackingEvent): ShipmentStatus =>
+  event.canonicalStatus || classifyOccurrence(event.code, event.status);
+
+// Status of the shipment: the newest event with a recognized status (events are newest first)
+export const deriveShipmentStatus = (events: TrackingEvent[]): ShipmentStatus => {
+  for (const event of events) {
+    const status = getEventShipmentStatus(event);
+    if (status !== 'unknown') return status;
+  }
+  return 'unknown';
+};
+
+export const getShipmentStatusLabel = (status: ShipmentStatus, locale: Locale = getLocale()): string =>
+  translate(locale, `shipmentStatus.${status}`);
+
+// Happy path shown by the progress stepper
+export const SHIPMENT_STATUS_STEPS: ShipmentStatus[] = [
+  'emitted',
+  'collected',
+  'in_transit',
+  'at_destination_hub',
+  'out_for_delivery',
+  'delivered',
+];
+
+// Statuses that leave the happy path and need attention
+export const isProblemStatus = (status: ShipmentStatus): boolean =>
+  status === 'delivery_failed' || status === 'returned' || status === 'exception';
+
+// Furthest step of the happy path reached by any event (events that are off the path do not count)
+export const getReachedStepIndex = (events: TrackingEvent[]): number =>
+  events.reduce((maxIndex, event) => Math.max(maxIndex, SHIPMENT_STATUS_STEPS.indexOf(getEventShipmentStatus(event))), -1);
+
+// The delivery event, if the shipment was delivered (events are newest first)
+export const findDeliveryEvent = (events: TrackingEvent[]): TrackingEvent | undefined =>
+  events.find(event => getEventShipmentStatus(event) === 'delivered');
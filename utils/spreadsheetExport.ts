@@ -0,0 +1,177 @@
+// utils/spreadsheetExport.ts
+import ExcelJS from 'exceljs';
+import type { TrackingEvent, TrackingInfo } from '../types';
+import { decodeAccessKey } from './accessKey';
+import { assessDeliveryRisk, getDeliveryRiskLabel } from './deliveryRisk';
+import { getShipmentStatusLabel, deriveShipmentStatus, getEventShipmentStatus } from './shipmentStatus';
+import { getIntlLocale, MessageKey, t } from '../i18n/i18n';
+
+export type CellType = 'text' | 'integer' | 'decimal' | 'currency' | 'weight' | 'date' | 'datetime';
+type CellValue = string | number | Date | undefined;
+
+export interface ExportColumn<T> {
+  header: MessageKey; // Translated when the file is built
+  type: CellType;
+  value: (row: T) => CellValue;
+}
+
+interface EventRow {
+  info: TrackingInfo;
+  event: TrackingEvent;
+}
+
+// Excel number formats; Excel renders them with the separators of the user's locale
+const XLSX_NUMBER_FORMATS: Partial<Record<CellType, string>> = {
+  integer: '0',
+  decimal: '0.0',
+  currency: '"R$" #,##0.00',
+  weight: '#,##0.000',
+  date: 'dd/mm/yyyy',
+  datetime: 'dd/mm/yyyy hh:mm',
+};
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const UTF8_BOM = '\uFEFF';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+
+// Excel expects ";" in locales where "," is the decimal separator (pt-BR, es) and "," elsewhere
+const getCsvSeparator = (): string => ((1.5).toLocaleString(getIntlLocale()).includes(',') ? ';' : ',');
+
+// NF number from the XML or the carrier, falling back to the number encoded in the key
+const getNfNumber = (info: TrackingInfo): string | undefined => info.nfNumber || decodeAccessKey(info.id)?.number;
+
+// Events without a valid date fall back to the epoch and are exported as empty cells
+const toEventDate = (timestamp: string): Date | undefined => {
+  const date = new Date(timestamp);
+  return date.getTime() > 0 ? date : undefined;
+};
+
+// The estimated delivery is stored at UTC midnight; rebuild it as a local date so it keeps its calendar day
+const toEstimatedDeliveryDate = (info: TrackingInfo): Date | undefined => {
+  if (!info.estimatedDeliveryDate) return undefined;
+  const date = new Date(info.estimatedDeliveryDate);
+  return isNaN(date.getTime()) ? undefined : new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+const SHIPMENT_COLUMNS: ExportColumn<TrackingInfo>[] = [
+  { header: 'fields.accessKey', type: 'text', value: info => info.id },
+  { header: 'fields.nf', type: 'text', value: getNfNumber },
+  { header: 'fields.carrier', type: 'text', value: info => info.carrier },
+  { header: 'fields.currentStatus', type: 'text', value: info => info.currentStatus },
+  { header: 'fields.classification', type: 'text', value: info => getShipmentStatusLabel(info.canonicalStatus || deriveShipmentStatus(info.events)) },
+  { header: 'fields.estimatedDelivery', type: 'date', value: toEstimatedDeliveryDate },
+  { header: 'fields.deadlineStatus', type: 'text', value: info => getDeliveryRiskLabel(assessDeliveryRisk(info).state) },
+  { header: 'fields.origin', type: 'text', value: info => info.origin },
+  { header: 'fields.destination', type: 'text', value: info => info.destination },
+  { header: 'export.carrierWeight', type: 'text', value: info => info.weight },
+  { header: 'export.volumeCount', type: 'integer', value: info => info.xmlVolumes?.totals.quantity },
+  { header: 'export.netWeightKg', type: 'weight', value: info => info.xmlVolumes?.totals.netWeight },
+  { header: 'export.grossWeightKg', type: 'weight', value: info => info.xmlVolumes?.totals.grossWeight },
+  { header: 'export.invoice', type: 'text', value: info => info.xmlInvoiceInfo?.number },
+  { header: 'fields.originalValue', type: 'currency', value: info => info.xmlInvoiceInfo?.originalValue },
+  { header: 'fields.discount', type: 'currency', value: info => info.xmlInvoiceInfo?.discountValue },
+  { header: 'fields.netValue', type: 'currency', value: info => info.xmlInvoiceInfo?.netValue },
+  { header: 'export.eventCount', type: 'integer', value: info => info.events.length },
+  { header: 'export.lastEvent', type: 'datetime', value: info => (info.events[0] ? toEventDate(info.events[0].timestamp) : undefined) },
+];
+
+const EVENT_COLUMNS: ExportColumn<EventRow>[] = [
+  { header: 'fields.accessKey', type: 'text', value: ({ info }) => info.id },
+  { header: 'fields.nf', type: 'text', value: ({ info }) => getNfNumber(info) },
+  { header: 'fields.dateTime', type: 'datetime', value: ({ event }) => toEventDate(event.timestamp) },
+  { header: 'fields.code', type: 'text', value: ({ event }) => event.code },
+  { header: 'fields.occurrence', type: 'text', value: ({ event }) => event.status },
+  { header: 'fields.classification', type: 'text', value: ({ event }) => getShipmentStatusLabel(getEventShipmentStatus(event)) },
+  { header: 'fields.location', type: 'text', value: ({ event }) => event.location },
+  { header: 'fields.details', type: 'text', value: ({ event }) => event.details },
+];
+
+// Events are exported oldest first, grouped by shipment
+const getEventRows = (infos: TrackingInfo[]): EventRow[] =>
+  infos.flatMap(info => [...info.events].reverse().map(event => ({ info, event })));
+
+const formatCsvValue = (value: CellValue, type: CellType): string => {
+  if (value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    const dateText = value.toLocaleDateString(getIntlLocale(), { day: '2-digit', month: '2-digit', year: 'numeric' });
+    return type === 'date' ? dateText : `${dateText} ${value.toLocaleTimeString(getIntlLocale(), { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  if (typeof value === 'number') {
+    // No thousands separator, so Excel and other tools read the cell back as a number
+    const fractionDigits = type === 'currency' ? 2 : type === 'weight' ? 3 : type === 'decimal' ? 1 : 0;
+    return value.toLocaleString(getIntlLocale(), { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits, useGrouping: false });
+  }
+  return value;
+};
+
+const escapeCsvField = (field: string, separator: string): string =>
+  field.includes(separator) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+export const buildCsv = <T,>(columns: ExportColumn<T>[], rows: T[]): string => {
+  const separator = getCsvSeparator();
+  const lines = [
+    columns.map(column => escapeCsvField(t(column.header), separator)),
+    ...rows.map(row => columns.map(column => escapeCsvField(formatCsvValue(column.value(row), column.type), separator))),
+  ];
+  return UTF8_BOM + lines.map(line => line.join(separator)).join('\r\n') + '\r\n';
+};
+
+// Excel date serial of the local date and time. Converting ourselves keeps the local wall-clock time: the
+// library would write Date cells as UTC, and apply the historical offset of the 1899 epoch on top.
+const toExcelSerial = (date: Date): number => {
+  const localAsUtc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds());
+  return (localAsUtc - EXCEL_EPOCH_UTC) / DAY_MS;
+};
+
+const addWorksheet = <T,>(workbook: ExcelJS.Workbook, name: string, columns: ExportColumn<T>[], rows: T[]): void => {
+  const toSheetValue = (value: CellValue) => (value instanceof Date ? toExcelSerial(value) : value ?? null);
+  const headers = columns.map(column => t(column.header));
+  const sheet = workbook.addWorksheet(name);
+  sheet.columns = columns.map((column, index) => ({ header: headers[index], width: Math.max(headers[index].length + 2, column.type === 'text' ? 24 : 14) }));
+
+  rows.forEach(row => {
+    const sheetRow = sheet.addRow(columns.map(column => toSheetValue(column.value(row))));
+    columns.forEach((column, columnIndex) => {
+      const cell = sheetRow.getCell(columnIndex + 1);
+      const numberFormat = XLSX_NUMBER_FORMATS[column.type];
+      if (numberFormat && typeof cell.value === 'number') cell.numFmt = numberFormat;
+    });
+  });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const buildShipmentsCsv = (infos: TrackingInfo[]): string => buildCsv(SHIPMENT_COLUMNS, infos);
+
+export const buildEventsCsv = (infos: TrackingInfo[]): string => buildCsv(EVENT_COLUMNS, getEventRows(infos));
+
+// Workbook with a shipments sheet (one row per shipment) and an events sheet (one row per event)
+export const buildTrackingWorkbook = (infos: TrackingInfo[]): ExcelJS.Workbook => {
+  const workbook = new ExcelJS.Workbook();
+  addWorksheet(workbook, t('export.sheet.shipments'), SHIPMENT_COLUMNS, infos);
+  addWorksheet(workbook, t('export.sheet.events'), EVENT_COLUMNS, getEventRows(infos));
+  return workbook;
+};
+
+// Downloads two CSV files: <base>-remessas.csv and <base>-eventos.csv
+export const exportTrackingToCsv = (infos: TrackingInfo[], fileBaseName: string): void => {
+  downloadBlob(new Blob([buildShipmentsCsv(infos)], { type: 'text/csv;charset=utf-8' }), `${fileBaseName}-remessas.csv`);
+  downloadBlob(new Blob([buildEventsCsv(infos)], { type: 'text/csv;charset=utf-8' }), `${fileBaseName}-eventos.csv`);
+};
+
+export const exportTrackingToXlsx = async (infos: TrackingInfo[], fileBaseName: string): Promise<void> => {
+  const buffer = await buildTrackingWorkbook(infos).xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), `${fileBaseName}.xlsx`);
+};
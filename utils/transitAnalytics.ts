@@ -0,0 +1,105 @@
+// utils/transitAnalytics.ts
+import type { TrackingEvent } from '../types';
+import { findDeliveryEvent } from './shipmentStatus';
+import { STALLED_EVENT_DAYS } from './deliveryRisk';
+import { formatEventLocation } from './formatters';
+
+// Time between two consecutive events, spent at (or leaving from) the location of the first one
+export interface TransitLeg {
+  from: TrackingEvent;
+  to?: TrackingEvent; // Unset for the ongoing stay after the last event of an undelivered shipment
+  location: string;
+  startedAt: string; // ISO 8601
+  endedAt: string;
+  durationMs: number;
+  isIdleGap: boolean; // No event for at least IDLE_GAP_MS
+}
+
+// Total time attributed to one location (unit/city) across all its stays
+export interface LocationDwell {
+  location: string;
+  durationMs: number;
+  stayCount: number; // Separate visits, e.g. a unit the cargo came back to after a failed delivery
+  isCurrent: boolean; // The cargo is still there
+}
+
+export interface TransitAnalytics {
+  legs: TransitLeg[]; // Oldest first
+  locations: LocationDwell[]; // Longest dwell first
+  idleGaps: TransitLeg[];
+  excludedEvents: TrackingEvent[]; // Events without a valid date (epoch fallback), left out of every number
+  startedAt?: string; // First dated event, normally the emission
+  endedAt?: string; // Delivery, or now while the shipment is still moving
+  totalElapsedMs?: number;
+  isDelivered: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Same threshold the delivery risk uses to call a shipment stalled
+export const IDLE_GAP_MS = STALLED_EVENT_DAYS * 24 * HOUR_MS;
+
+// Providers fall back to the epoch when the event has no date; those (and unparsable dates) cannot be placed in time
+export const hasUsableTimestamp = (event: TrackingEvent): boolean => new Date(event.timestamp).getTime() > 0;
+
+const toLeg = (from: TrackingEvent, endedAt: Date, to?: TrackingEvent): TransitLeg => {
+  const durationMs = Math.max(0, endedAt.getTime() - new Date(from.timestamp).getTime());
+  return {
+    from,
+    to,
+    location: formatEventLocation(from),
+    startedAt: new Date(from.timestamp).toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationMs,
+    isIdleGap: durationMs >= IDLE_GAP_MS,
+  };
+};
+
+// Dwell times between consecutive events (events arrive newest first) and per location. Until delivery, the
+// time since the last event counts as an ongoing stay at its location, so a shipment stuck today shows up.
+export const analyzeTransit = (events: TrackingEvent[], now: Date = new Date()): TransitAnalytics => {
+  const excludedEvents = events.filter(event => !hasUsableTimestamp(event));
+  const datedEvents = events
+    .filter(hasUsableTimestamp)
+    .map((event, index) => ({ event, index }))
+    // Oldest first; events with the same time keep the provider's order (which is newest first)
+    .sort((a, b) => new Date(a.event.timestamp).getTime() - new Date(b.event.timestamp).getTime() || b.index - a.index)
+    .map(({ event }) => event);
+
+  const deliveryEvent = findDeliveryEvent(events);
+  const isDelivered = !!deliveryEvent;
+  if (datedEvents.length === 0) {
+    return { legs: [], locations: [], idleGaps: [], excludedEvents, isDelivered };
+  }
+
+  const legs = datedEvents.slice(1).map((event, index) => toLeg(datedEvents[index], new Date(event.timestamp), event));
+  const lastEvent = datedEvents[datedEvents.length - 1];
+  if (!isDelivered && now.getTime() > new Date(lastEvent.timestamp).getTime()) {
+    legs.push(toLeg(lastEvent, now));
+  }
+
+  const dwellByLocation = new Map<string, LocationDwell>();
+  legs.forEach((leg, index) => {
+    const dwell = dwellByLocation.get(leg.location) || { location: leg.location, durationMs: 0, stayCount: 0, isCurrent: false };
+    dwell.durationMs += leg.durationMs;
+    // Consecutive events at the same place are one stay
+    if (index === 0 || legs[index - 1].location !== leg.location) dwell.stayCount++;
+    if (!leg.to) dwell.isCurrent = true;
+    dwellByLocation.set(leg.location, dwell);
+  });
+
+  const startedAt = new Date(datedEvents[0].timestamp).toISOString();
+  const deliveredAt = deliveryEvent && hasUsableTimestamp(deliveryEvent) ? new Date(deliveryEvent.timestamp) : undefined;
+  // A delivery without a date leaves the total open rather than ending it at an arbitrary event
+  const endDate = isDelivered ? deliveredAt : now;
+  return {
+    legs,
+    locations: Array.from(dwellByLocation.values()).sort((a, b) => b.durationMs - a.durationMs),
+    idleGaps: legs.filter(leg => leg.isIdleGap),
+    excludedEvents,
+    startedAt,
+    endedAt: endDate?.toISOString(),
+    totalElapsedMs: endDate ? Math.max(0, endDate.getTime() - new Date(startedAt).getTime()) : undefined,
+    isDelivered,
+  };
+};
@@ -0,0 +1,55 @@
+// utils/xmlHelpers.ts
+import type { XmlPartyInfo } from '../types';
+
+// Helper function to safely get text content and convert to number
+export const getNumericContent = (element: Element | null | undefined, selector: string): number | undefined => {
+  const text = element?.querySelector(selector)?.textContent;
+  if (text) {
+    const num = parseFloat(text);
+    return isNaN(num) ? undefined : num;
+  }
+  return undefined;
+};
+
+// Helper function to safely get text content
+export const getTextContent = (element: Element | null | undefined, selector: string): string | undefined => {
+  return element?.querySelector(selector)?.textContent?.trim() || undefined;
+};
+
+// Returns the first element matched by the selectors, tried in order
+export const findFirstElement = (root: Document | Element, selectors: string[]): Element | null => {
+  for (const selector of selectors) {
+    const element = root.querySelector(selector);
+    if (element) return element;
+  }
+  return null;
+};
+
+// emit/dest (NF-e) and rem/dest/exped/receb (CT-e) share the same layout, only the address tag name changes
+export const extractPartyInfo = (partyElement: Element | null | undefined, addressTag: string): XmlPartyInfo | undefined => {
+  if (!partyElement) return undefined;
+  const cnpj = getTextContent(partyElement, "CNPJ");
+  const cpf = getTextContent(partyElement, "CPF");
+  const addressElement = partyElement.querySelector(addressTag);
+  const party: XmlPartyInfo = {
+    name: getTextContent(partyElement, "xNome"),
+    fantasyName: getTextContent(partyElement, "xFant"),
+    document: cnpj || cpf,
+    documentType: cnpj ? 'CNPJ' : cpf ? 'CPF' : undefined,
+    stateRegistration: getTextContent(partyElement, "IE"),
+    address: addressElement
+      ? {
+          street: getTextContent(addressElement, "xLgr"),
+          number: getTextContent(addressElement, "nro"),
+          complement: getTextContent(addressElement, "xCpl"),
+          district: getTextContent(addressElement, "xBairro"),
+          city: getTextContent(addressElement, "xMun"),
+          uf: getTextContent(addressElement, "UF"),
+          cep: getTextContent(addressElement, "CEP"),
+          // NF-e keeps the phone inside the address, CT-e directly in the party
+          phone: getTextContent(addressElement, "fone") || getTextContent(partyElement, "fone"),
+        }
+      : undefined,
+  };
+  return party.name || party.document ? party : undefined;
+};
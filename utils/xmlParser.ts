@@ -1,31 +1,31 @@
 
 // utils/xmlParser.ts
-import type { XmlVolumeInfo, XmlInvoiceInfo, XmlInstallmentInfo } from '../types';
+import type { XmlVolumeInfo, XmlVolumeSummary, XmlInvoiceInfo, XmlInstallmentInfo, XmlCarrierInfo, XmlCteInfo, XmlProductItem, XmlPartyInfo } from '../types';
+import { validateAccessKey } from './accessKey';
+import { LocalizedError } from '../i18n/localizedError';
+import { getNumericContent, getTextContent, findFirstElement, extractPartyInfo } from './xmlHelpers';
+import { extractCteData } from './cteParser';
 
 export interface ParsedXmlData {
-  accessKey: string;
-  carrierName?: string;
-  volumeInfo?: XmlVolumeInfo;
+  documentType: 'nfe' | 'cte';
+  accessKey: string; // NF-e key, or the CT-e key itself for CT-e files
+  cteInfo?: XmlCteInfo; // Present for CT-e files and for the NF-e tracked from them
+  nfNumber?: string; // ide > nNF
+  carrier?: XmlCarrierInfo;
+  volumes?: XmlVolumeSummary;
   invoiceInfo?: XmlInvoiceInfo;
   installments?: XmlInstallmentInfo[];
+  items?: XmlProductItem[];
+  emitter?: XmlPartyInfo; // emit
+  recipient?: XmlPartyInfo; // dest
 }
 
-// Helper function to safely get text content and convert to number
-const getNumericContent = (element: Element | null | undefined, selector: string): number | undefined => {
-  const text = element?.querySelector(selector)?.textContent;
-  if (text) {
-    const num = parseFloat(text);
-    return isNaN(num) ? undefined : num;
-  }
-  return undefined;
+// Sum of one field over the volume groups; unset when no group informs it
+const sumVolumeGroups = (groups: XmlVolumeInfo[], field: 'quantity' | 'netWeight' | 'grossWeight'): number | undefined => {
+  const values = groups.map(group => group[field]).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : undefined;
 };
 
-// Helper function to safely get text content
-const getTextContent = (element: Element | null | undefined, selector: string): string | undefined => {
-  return element?.querySelector(selector)?.textContent?.trim() || undefined;
-};
-
-
 export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -34,7 +34,7 @@ export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData>
       try {
         const xmlString = e.target?.result as string;
         if (!xmlString) {
-          reject(new Error("Falha ao ler o conteúdo do arquivo XML."));
+          reject(new LocalizedError('errors.xml.emptyFile'));
           return;
         }
 
@@ -44,7 +44,18 @@ export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData>
         const parserError = xmlDoc.querySelector("parsererror");
         if (parserError) {
           console.error("XML Parsing Error Details:", parserError.textContent);
-          reject(new Error("Arquivo XML inválido ou mal formatado. Verifique o console do navegador para mais detalhes."));
+          reject(new LocalizedError('errors.xml.malformed'));
+          return;
+        }
+
+        // CT-e files (cteProc) are sent by the carrier and reference the NF-e being transported
+        const infCteElement = findFirstElement(xmlDoc, ["cteProc > CTe > infCte", "CTe > infCte", "infCte"]);
+        if (infCteElement) {
+          try {
+            resolve(extractCteData(xmlDoc, infCteElement));
+          } catch (cteError: any) {
+            reject(cteError);
+          }
           return;
         }
         
@@ -56,7 +67,7 @@ export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData>
         }
 
         if (!infNFeElement) {
-            reject(new Error("Elemento 'infNFe' não encontrado no XML. Não é possível extrair informações."));
+            reject(new LocalizedError('errors.xml.documentNotFound'));
             return;
         }
         
@@ -90,26 +101,66 @@ export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData>
 
         if (!accessKey || !(accessKey.length === 44 && /^\d+$/.test(accessKey))) {
           if (accessKey) { 
-             reject(new Error(`Chave encontrada ("${accessKey.substring(0,20)}...") mas não é uma chave de acesso válida (44 dígitos numéricos).`));
+             reject(new LocalizedError('errors.xml.invalidKeyFormat', { keyStart: accessKey.substring(0,20) }));
           } else {
-             reject(new Error("Chave de acesso (chNFe ou Id da NFe) não encontrada no XML. Verifique se o arquivo é um XML de NF-e válido e contém a chave."));
+             reject(new LocalizedError('errors.xml.keyNotFound'));
           }
           return;
         }
 
-        // Extract Carrier Name (Transportadora)
-        let carrierName: string | undefined = getTextContent(infNFeElement, "transp > transporta > xNome");
+        const keyValidation = validateAccessKey(accessKey);
+        if (keyValidation.error) {
+          reject(new LocalizedError('errors.xml.invalidKey', { reason: keyValidation.error }));
+          return;
+        }
+
+        // Extract NF-e number (infNFe > ide > nNF)
+        const nfNumber: string | undefined = getTextContent(infNFeElement, "ide > nNF");
+
+        // Extract Emitter and Recipient (infNFe > emit / dest) with their addresses
+        const emitter = extractPartyInfo(infNFeElement.querySelector("emit"), "enderEmit");
+        const recipient = extractPartyInfo(infNFeElement.querySelector("dest"), "enderDest");
+
+        // Extract Carrier (Transportadora) - used to pick the tracking provider
+        const transportaElement = infNFeElement.querySelector("transp > transporta");
+        let carrier: XmlCarrierInfo | undefined = undefined;
+        if (transportaElement) {
+            carrier = {
+                name: getTextContent(transportaElement, "xNome"),
+                cnpj: getTextContent(transportaElement, "CNPJ"),
+                cpf: getTextContent(transportaElement, "CPF"),
+                stateRegistration: getTextContent(transportaElement, "IE"),
+                address: getTextContent(transportaElement, "xEnder"),
+                city: getTextContent(transportaElement, "xMun"),
+                uf: getTextContent(transportaElement, "UF"),
+            };
+        }
         
-        // Extract Volume Information (infNFe > transp > vol)
-        // Assuming one 'vol' element for simplicity, or summing if multiple (though NFe usually has one structure or repeated vol for multiple items)
-        const volElement = infNFeElement.querySelector("transp > vol");
-        let volumeInfo: XmlVolumeInfo | undefined = undefined;
-        if (volElement) {
-            volumeInfo = {
-                quantity: getNumericContent(volElement, "qVol"),
-                species: getTextContent(volElement, "esp"),
-                netWeight: getNumericContent(volElement, "pesoL"),
-                grossWeight: getNumericContent(volElement, "pesoB"),
+        // Extract Volume Information (infNFe > transp > vol) - one entry per volume group
+        const volElements = infNFeElement.querySelectorAll("transp > vol");
+        let volumes: XmlVolumeSummary | undefined = undefined;
+        if (volElements.length > 0) {
+            const groups: XmlVolumeInfo[] = Array.from(volElements).map(volElement => {
+                const seals = Array.from(volElement.querySelectorAll("lacres > nLacre"))
+                    .map(seal => seal.textContent?.trim() || '')
+                    .filter(Boolean);
+                return {
+                    quantity: getNumericContent(volElement, "qVol"),
+                    species: getTextContent(volElement, "esp"),
+                    brand: getTextContent(volElement, "marca"),
+                    numbering: getTextContent(volElement, "nVol"),
+                    netWeight: getNumericContent(volElement, "pesoL"),
+                    grossWeight: getNumericContent(volElement, "pesoB"),
+                    seals: seals.length > 0 ? seals : undefined,
+                };
+            });
+            volumes = {
+                groups,
+                totals: {
+                    quantity: sumVolumeGroups(groups, 'quantity'),
+                    netWeight: sumVolumeGroups(groups, 'netWeight'),
+                    grossWeight: sumVolumeGroups(groups, 'grossWeight'),
+                },
             };
         }
 
@@ -137,16 +188,37 @@ export const parseXmlAndExtractAccessKey = (file: File): Promise<ParsedXmlData>
             if(installments.length === 0) installments = undefined;
         }
         
-        resolve({ accessKey, carrierName, volumeInfo, invoiceInfo, installments });
+        // Extract Items (infNFe > det > prod)
+        const detElements = infNFeElement.querySelectorAll("det");
+        let items: XmlProductItem[] | undefined = undefined;
+        if (detElements.length > 0) {
+            items = Array.from(detElements).map(det => {
+                const prodElement = det.querySelector("prod");
+                return {
+                    itemNumber: det.getAttribute("nItem") || undefined,
+                    code: getTextContent(prodElement, "cProd"),
+                    description: getTextContent(prodElement, "xProd"),
+                    ncm: getTextContent(prodElement, "NCM"),
+                    cfop: getTextContent(prodElement, "CFOP"),
+                    quantity: getNumericContent(prodElement, "qCom"),
+                    unit: getTextContent(prodElement, "uCom"),
+                    unitPrice: getNumericContent(prodElement, "vUnCom"),
+                    totalValue: getNumericContent(prodElement, "vProd"),
+                };
+            }).filter(item => item.code || item.description);
+            if (items.length === 0) items = undefined;
+        }
+        
+        resolve({ documentType: 'nfe', accessKey, nfNumber, carrier, volumes, invoiceInfo, installments, items, emitter, recipient });
 
       } catch (parseError: any) {
         console.error("Error processing XML file:", parseError);
-        reject(new Error(`Erro ao processar o arquivo XML: ${parseError.message}`));
+        reject(new LocalizedError('errors.xml.processing', { detail: parseError.message }));
       }
     };
 
     reader.onerror = () => {
-      reject(new Error("Falha ao ler o arquivo XML. Certifique-se de que o arquivo é válido e tente novamente."));
+      reject(new LocalizedError('errors.xml.readFailed'));
     };
 
     reader.readAsText(file);
@@ -6,7 +6,19 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SSW_API_URL': JSON.stringify(env.SSW_API_URL || ''),
+        'process.env.TRACKING_MODE': JSON.stringify(env.TRACKING_MODE || 'direct'),
+        'process.env.TRACKING_PROXY_URL': JSON.stringify(env.TRACKING_PROXY_URL || ''),
+        'process.env.SUMMARIZER': JSON.stringify(env.SUMMARIZER || 'auto'),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ''),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL || '')
+      },
+      server: {
+        proxy: {
+          // Lets TRACKING_MODE=proxy work in development without setting TRACKING_PROXY_URL
+          '/api': `http://localhost:${env.TRACKING_PROXY_PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {